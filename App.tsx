@@ -4,14 +4,77 @@ import { Card } from './components/Card';
 import { MotorCharts, MotorChartsHandle } from './components/MotorCharts';
 import { CardSkeleton, ControlsSkeleton, ChartSkeleton } from './components/Skeleton';
 import { DataAgeIndicator } from './components/DataAgeIndicator';
+import { SummaryStrip } from './components/SummaryStrip';
+import { AlertInbox } from './components/AlertInbox';
+import { OverlayCharts } from './components/OverlayCharts';
+import { MotorComparePicker } from './components/MotorComparePicker';
+import { ExportMenu } from './components/ExportMenu';
+import { DateRangePicker } from './components/DateRangePicker';
+import { ShiftReport } from './components/ShiftReport';
+import { MotorHealthTable } from './components/MotorHealthTable';
+import { CurrentTrendPanel } from './components/CurrentTrendPanel';
+import { MotorNameplate } from './components/MotorNameplate';
+import { DataQualityPanel } from './components/DataQualityPanel';
+import { OverviewWall } from './components/OverviewWall';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { buildMotorOverlay, buildPeriodOverlay } from './services/overlaySeries';
+import { DEFAULT_SHIFTS } from './services/cycleStats';
+import { exportMotorLogs, ExportContext, ExportFormat } from './services/exportService';
+import { parseUrlState, buildUrlSearch, urlHistoryKey, EMPTY_URL_STATE } from './services/urlState';
+import { setPlantTimeZone, getPlantTimeZone, plantNowMs } from './services/plantTime';
 import { useTheme } from './hooks/useTheme';
-import { getZones, getLines, getMotors, generateMotorData, getLatestMotorData, getAvailableWeeks, checkApiHealth, DataServiceError } from './services/dataService';
-import { ZoneData, LineData, MotorLog, FilterState } from './types';
-import { Factory, Cog, Layers, RotateCcw, RefreshCw, AlertTriangle, Clock } from 'lucide-react';
+import { getZones, getLines, getMotors, generateMotorData, generateMotorComparison, getMotorSummary, getMotorAnomalies, getDataGaps, getLatestMotorData, subscribeToMotorLogs, getAvailableWeeks, getShifts, getConfig, getAlertCounts, getMotorLogsExportUrl, hasServerExport, checkApiHealth, parseNaiveTimestamp, formatNaiveTimestamp, DataServiceError, LiveTransport, MotorDataOptions } from './services/dataService';
+import { ZoneData, LineData, MotorLog, FilterState, AnalyticsSummary, TimeRange, MotorAlert, MotorRef, MotorComparisonSeries, OverlayAlignment, ViewState, UrlState, ShiftDefinition, MotorAnomaly, DataGap, MotorInfo } from './types';
+import { Factory, Cog, Layers, RotateCcw, RefreshCw, AlertTriangle, Clock, X, GitCompare } from 'lucide-react';
 
-// View State Enum
-type ViewState = 'ZONES' | 'LINES' | 'MOTOR_DETAIL';
+// Alert click-through loads this much context around the alert window (naive UTC ms)
+const ALERT_CONTEXT_MS = 30 * 60 * 1000;
+
+// Alert window opened from the inbox - replaces the week/day selection until cleared
+interface AlertFocus {
+  start: number;
+  end: number | null; // null = alert still ongoing
+}
+
+// Manual mode asks the server to downsample above this many points per request
+const MAX_CHART_POINTS = 5000;
+
+// AUTO mode: how often the anomaly markers and data gaps of the live window are re-checked
+const ANOMALY_REFRESH_MS = 30000;
+
+// AUTO mode: selectable trailing window of live data (minutes) and refresh interval (seconds).
+// Windows above the API's liveMaxWindowMinutes (/api/config, LIVE_MAX_WINDOW_MINUTES) are not offered.
+const LIVE_WINDOW_OPTIONS = [5, 10, 30, 120];
+const LIVE_REFRESH_OPTIONS = [2, 5, 10, 30];
+const LIVE_SETTINGS_KEY = 'motorlog-live-settings';
+
+interface LiveSettings {
+  windowMinutes: number;
+  refreshSeconds: number;
+}
+
+const DEFAULT_LIVE_SETTINGS: LiveSettings = { windowMinutes: 10, refreshSeconds: 10 };
+
+const loadLiveSettings = (): LiveSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LIVE_SETTINGS_KEY) || '{}');
+    return {
+      windowMinutes: LIVE_WINDOW_OPTIONS.includes(stored.windowMinutes) ? stored.windowMinutes : DEFAULT_LIVE_SETTINGS.windowMinutes,
+      refreshSeconds: LIVE_REFRESH_OPTIONS.includes(stored.refreshSeconds) ? stored.refreshSeconds : DEFAULT_LIVE_SETTINGS.refreshSeconds
+    };
+  } catch {
+    return DEFAULT_LIVE_SETTINGS;
+  }
+};
+
+const formatLiveWindow = (minutes: number) => (minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`);
+
+// Append streamed rows and drop points that fell out of the live window
+const appendLiveLogs = (current: MotorLog[], incoming: MotorLog[], windowMinutes: number): MotorLog[] => {
+  const merged = [...current, ...incoming].sort((a, b) => a.timestampObj - b.timestampObj);
+  const cutoff = merged[merged.length - 1].timestampObj - windowMinutes * 60 * 1000;
+  return merged.filter(d => d.timestampObj >= cutoff);
+};
 
 // Loading states
 interface LoadingState {
@@ -36,17 +99,42 @@ const App = () => {
   const [lines, setLines] = useState<LineData[]>([]);
   const [availableMotors, setAvailableMotors] = useState<string[]>([]);
   const [allWeeks, setAllWeeks] = useState<string[]>([]);
+  const [shifts, setShifts] = useState<ShiftDefinition[]>(DEFAULT_SHIFTS);
 
   // Filter State
   const [filters, setFilters] = useState<FilterState>({
     selectedWeeks: [],
-    selectedDays: []
+    selectedDays: [],
+    selectedShifts: []
   });
 
   // Chart Data State
   const [chartData, setChartData] = useState<MotorLog[]>([]);
+  const [anomalies, setAnomalies] = useState<MotorAnomaly[]>([]);
+  const [dataGaps, setDataGaps] = useState<DataGap[]>([]);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  // Downsampled overview of the whole selection; zooming in swaps in finer detail for the window
+  const overviewDataRef = useRef<MotorLog[]>([]);
+  const [isDownsampled, setIsDownsampled] = useState(false);
+  const [zoomRange, setZoomRange] = useState<TimeRange | null>(null);
+  const [alertFocus, setAlertFocus] = useState<AlertFocus | null>(null);
+  // From/to selection (picker or preset) - replaces the week/day selection like the alert window
+  const [rangeFilter, setRangeFilter] = useState<TimeRange | null>(null);
+  // Zoom from a deep link, applied once the restored selection has loaded
+  const pendingZoomRef = useRef<TimeRange | null>(null);
+
+  // Compare mode overlays several motors for the manual week/day selection
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareMotors, setCompareMotors] = useState<MotorRef[]>([]);
+  const [compareSeries, setCompareSeries] = useState<MotorComparisonSeries[]>([]);
+
+  // Manual mode: overlay the selected weeks/days on a relative time axis instead of one absolute axis
+  const [overlayAlignment, setOverlayAlignment] = useState<OverlayAlignment | null>(null);
   const chartsRef = useRef<MotorChartsHandle>(null);
 
+  // Unresolved alerts for the header badge
+  const [activeAlertCount, setActiveAlertCount] = useState(0);
+
   // Loading states
   const [loading, setLoading] = useState<LoadingState>({
     zones: true,
@@ -60,6 +148,10 @@ const App = () => {
 
   // API connection status
   const [apiConnected, setApiConnected] = useState(true);
+  const [plantTimezone, setPlantTimezone] = useState(getPlantTimeZone());
+  // False when the API runs on PostgreSQL/SQLite: panels backed by SQL Server-only routes are hidden
+  const [sqlServerApi, setSqlServerApi] = useState(true);
+  const [liveMaxWindowMinutes, setLiveMaxWindowMinutes] = useState<number | null>(null); // null = unknown, no limit
 
   // Check API health on mount
   useEffect(() => {
@@ -74,6 +166,22 @@ const App = () => {
     return () => clearInterval(interval);
   }, []);
 
+  const refreshAlertCounts = useCallback(async () => {
+    try {
+      const counts = await getAlertCounts();
+      setActiveAlertCount(counts.active);
+    } catch {
+      // Alert tables are optional - keep the badge empty
+      setActiveAlertCount(0);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshAlertCounts();
+    const interval = setInterval(refreshAlertCounts, 30000);
+    return () => clearInterval(interval);
+  }, [refreshAlertCounts]);
+
   // Initial Load - Zones and Weeks
   useEffect(() => {
     let isMounted = true;
@@ -83,15 +191,26 @@ const App = () => {
       setError(null);
 
       try {
-        const [zoneList, weeks] = await Promise.all([
+        const [zoneList, weeks, shiftList, config] = await Promise.all([
           getZones(),
-          getAvailableWeeks()
+          getAvailableWeeks(),
+          // Older API servers have no /api/shifts - fall back to the default A/B/C shifts
+          getShifts().catch(() => DEFAULT_SHIFTS),
+          // ...and no /api/config - keep the browser's timezone
+          getConfig().catch(() => null)
         ]);
 
         if (!isMounted) return;
 
+        if (config && setPlantTimeZone(config.plantTimezone)) {
+          setPlantTimezone(config.plantTimezone);
+        }
+        setSqlServerApi(!config?.storage || config.storage === 'mssql');
+        setLiveMaxWindowMinutes(config?.liveMaxWindowMinutes ?? null);
+
         setZones(zoneList);
         setAllWeeks(weeks);
+        setShifts(shiftList);
         setApiConnected(true);
 
         if (weeks.length > 0) {
@@ -120,21 +239,52 @@ const App = () => {
     };
   }, []);
 
-  // Modes: MANUAL (week/day + load) or AUTO (10s last 10 minutes)
+  // Modes: MANUAL (week/day + load) or AUTO (trailing live window, then live push of new rows)
   const [mode, setMode] = useState<'MANUAL' | 'AUTO'>('MANUAL');
+  const [liveSettings, setLiveSettings] = useState<LiveSettings>(loadLiveSettings);
   const [autoRefresh, setAutoRefresh] = useState(false);
-  const [refreshCounter, setRefreshCounter] = useState(0);
   const [loadNonce, setLoadNonce] = useState(0);
 
-  useEffect(() => {
-    if (!autoRefresh || loadNonce === 0) return;
+  // Live subscription starts after the initial AUTO load, from its last row Id
+  const liveAfterIdRef = useRef<number | null>(null);
+  const [liveReady, setLiveReady] = useState(false);
+  const [liveTransport, setLiveTransport] = useState<LiveTransport>('stream');
 
-    const interval = setInterval(() => {
-      setRefreshCounter(c => c + 1);
-    }, 10000); // 10 seconds
+  const updateLiveSettings = useCallback((patch: Partial<LiveSettings>) => {
+    setLiveSettings(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(LIVE_SETTINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
 
-    return () => clearInterval(interval);
-  }, [autoRefresh, loadNonce]);
+  const liveWindowOptions = useMemo(() => {
+    if (liveMaxWindowMinutes === null) return LIVE_WINDOW_OPTIONS;
+    const allowed = LIVE_WINDOW_OPTIONS.filter(m => m <= liveMaxWindowMinutes);
+    return allowed.length > 0 ? allowed : [liveMaxWindowMinutes];
+  }, [liveMaxWindowMinutes]);
+
+  // A stored / linked window the API would reject falls back to the largest allowed one (not persisted)
+  useEffect(() => {
+    if (!liveWindowOptions.includes(liveSettings.windowMinutes)) {
+      setLiveSettings(prev => ({ ...prev, windowMinutes: liveWindowOptions[liveWindowOptions.length - 1] }));
+    }
+  }, [liveWindowOptions, liveSettings.windowMinutes]);
+
+  // Manual selection: the alert window or the from/to range (all weeks/days), else the week/day filters
+  const manualSelection = useMemo<{ weeks: string[]; days: number[]; options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> }>(() => {
+    if (alertFocus) {
+      return {
+        weeks: [],
+        days: [],
+        options: { from: alertFocus.start - ALERT_CONTEXT_MS, to: alertFocus.end !== null ? alertFocus.end + ALERT_CONTEXT_MS : undefined }
+      };
+    }
+    // The shift filter narrows a from/to range as well as the week/day selection
+    if (rangeFilter) return { weeks: [], days: [], options: { from: rangeFilter.start, to: rangeFilter.end, shifts: filters.selectedShifts } };
+    return { weeks: filters.selectedWeeks, days: filters.selectedDays, options: { shifts: filters.selectedShifts } };
+  }, [alertFocus, rangeFilter, filters]);
+  const hasManualSelection = alertFocus !== null || rangeFilter !== null || filters.selectedDays.length > 0;
 
   // Update Filters and Fetch Data (including auto-refresh trigger)
   useEffect(() => {
@@ -142,38 +292,70 @@ const App = () => {
 
     const isAutoMode = mode === 'AUTO';
 
-    if (selectedZone && selectedLine && selectedMotor && ((isAutoMode && loadNonce > 0) || (!isAutoMode && filters.selectedDays.length > 0 && loadNonce > 0))) {
-      // Show loading only for initial load, not for auto-refresh updates
-      const isAutoRefreshUpdate = autoRefresh && refreshCounter > 0;
-      if (!isAutoRefreshUpdate) {
-        setLoading(prev => ({ ...prev, chartData: true }));
-      }
+    setLiveReady(false);
+
+    if (selectedZone && selectedLine && selectedMotor && ((isAutoMode && loadNonce > 0) || (!isAutoMode && !compareMode && hasManualSelection && loadNonce > 0))) {
+      setLoading(prev => ({ ...prev, chartData: true }));
 
       (async () => {
         try {
           let data: MotorLog[];
+          let kpis: AnalyticsSummary | null = null;
 
           if (isAutoMode) {
-            // Use lightweight endpoint for auto-refresh mode (last 15 minutes)
+            // Initial window for live mode; new rows are pushed by the subscription below
             data = await getLatestMotorData(
               selectedZone.name,
               selectedLine.name,
               selectedMotor,
-              10
+              liveSettings.windowMinutes
             );
+
+            if (isMounted) {
+              liveAfterIdRef.current = data.length > 0 ? Math.max(...data.map(d => d.id)) : null;
+              setLiveReady(true);
+            }
           } else {
-            // Use full endpoint when auto-refresh is OFF (filtered by weeks/days)
-            data = await generateMotorData(
-              selectedZone.name,
-              selectedLine.name,
-              selectedMotor,
-              filters.selectedWeeks,
-              filters.selectedDays
-            );
+            // Use full endpoint when auto-refresh is OFF (filtered by weeks/days, the from/to range or the alert window).
+            // The KPI summary is optional: when it fails the strip stays empty and the charts still load
+            const selectionOptions = manualSelection.options;
+            const [series, summaryData] = await Promise.all([
+              generateMotorData(
+                selectedZone.name,
+                selectedLine.name,
+                selectedMotor,
+                manualSelection.weeks,
+                manualSelection.days,
+                { maxPoints: MAX_CHART_POINTS, ...selectionOptions }
+              ),
+              getMotorSummary(
+                selectedZone.name,
+                selectedLine.name,
+                selectedMotor,
+                manualSelection.weeks,
+                manualSelection.days,
+                selectionOptions
+              ).catch(() => null)
+            ]);
+            data = series.logs;
+            kpis = summaryData;
+
+            if (isMounted) {
+              overviewDataRef.current = series.logs;
+              setIsDownsampled(series.downsampled);
+              // Opened from an alert: start zoomed to the alert window
+              const lastTs = data.length > 0 ? data[data.length - 1].timestampObj : null;
+              const restoredZoom = pendingZoomRef.current;
+              pendingZoomRef.current = null;
+              setZoomRange(restoredZoom ?? (alertFocus && lastTs !== null
+                ? { start: alertFocus.start, end: alertFocus.end ?? lastTs }
+                : null));
+            }
           }
 
           if (isMounted) {
             setChartData(data);
+            setSummary(kpis);
             setApiConnected(true);
             setError(null);
           }
@@ -195,7 +377,196 @@ const App = () => {
     return () => {
       isMounted = false;
     };
-  }, [selectedZone, selectedLine, selectedMotor, filters, refreshCounter, autoRefresh, loadNonce, mode]);
+  }, [selectedZone, selectedLine, selectedMotor, filters, alertFocus, manualSelection, hasManualSelection, compareMode, autoRefresh, loadNonce, mode, liveSettings.windowMinutes]);
+
+  // AUTO mode: append rows pushed by the server (SSE, or polling while the stream is down)
+  useEffect(() => {
+    if (mode !== 'AUTO' || !liveReady || !selectedZone || !selectedLine || !selectedMotor) return;
+
+    const unsubscribe = subscribeToMotorLogs(
+      selectedZone.name,
+      selectedLine.name,
+      selectedMotor,
+      liveAfterIdRef.current,
+      {
+        onLogs: (logs) => {
+          setChartData(prev => appendLiveLogs(prev, logs, liveSettings.windowMinutes));
+          setApiConnected(true);
+        },
+        onTransportChange: setLiveTransport,
+        onError: (err) => setError(err.message)
+      },
+      liveSettings.windowMinutes,
+      liveSettings.refreshSeconds * 1000
+    );
+
+    return unsubscribe;
+  }, [mode, liveReady, selectedZone, selectedLine, selectedMotor, liveSettings]);
+
+  // Chart overlays (anomaly markers, logging gaps) - manual: the loaded selection; AUTO: the live window, re-checked periodically
+  useEffect(() => {
+    setAnomalies([]);
+    setDataGaps([]);
+    if (!selectedZone || !selectedLine || !selectedMotor || compareMode || loadNonce === 0) return;
+    if (mode === 'MANUAL' && !hasManualSelection) return;
+
+    let isMounted = true;
+    const load = () => {
+      const selection = mode === 'AUTO'
+        ? { weeks: [], days: [], options: { from: plantNowMs() - liveSettings.windowMinutes * 60 * 1000 } }
+        : manualSelection;
+      const args = [selectedZone.name, selectedLine.name, selectedMotor, selection.weeks, selection.days, selection.options] as const;
+      // Overlays only - an older API or a failed check must not break the charts
+      getMotorAnomalies(...args)
+        .then(result => isMounted && setAnomalies(result.anomalies))
+        .catch(() => isMounted && setAnomalies([]));
+      getDataGaps(...args)
+        .then(gaps => isMounted && setDataGaps(gaps))
+        .catch(() => isMounted && setDataGaps([]));
+    };
+
+    load();
+    const timer = mode === 'AUTO' ? setInterval(load, ANOMALY_REFRESH_MS) : null;
+    return () => {
+      isMounted = false;
+      if (timer) clearInterval(timer);
+    };
+  }, [mode, selectedZone, selectedLine, selectedMotor, compareMode, loadNonce, manualSelection, hasManualSelection, liveSettings.windowMinutes]);
+
+  // Manual mode: when the overview is downsampled, fetch full-resolution data for the zoom window
+  useEffect(() => {
+    if (mode !== 'MANUAL' || !isDownsampled) return;
+    if (!selectedZone || !selectedLine || !selectedMotor) return;
+
+    if (!zoomRange) {
+      setChartData(overviewDataRef.current);
+      return;
+    }
+
+    let isMounted = true;
+
+    (async () => {
+      try {
+        const detail = await generateMotorData(
+          selectedZone.name,
+          selectedLine.name,
+          selectedMotor,
+          manualSelection.weeks,
+          manualSelection.days,
+          { maxPoints: MAX_CHART_POINTS, from: zoomRange.start, to: zoomRange.end, shifts: manualSelection.options.shifts }
+        );
+
+        if (!isMounted) return;
+
+        // Keep the coarse overview outside the window so the slider still spans the whole selection
+        const outside = overviewDataRef.current.filter(d => d.timestampObj < zoomRange.start || d.timestampObj > zoomRange.end);
+        setChartData([...outside, ...detail.logs].sort((a, b) => a.timestampObj - b.timestampObj));
+      } catch (err) {
+        if (isMounted && err instanceof DataServiceError) {
+          setError(err.message);
+        }
+      }
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [zoomRange, isDownsampled, mode, selectedZone, selectedLine, selectedMotor, manualSelection]);
+
+  // Compare mode: load the week/day selection for every compared motor
+  useEffect(() => {
+    if (!compareMode || loadNonce === 0 || compareMotors.length === 0 || !hasManualSelection) return;
+
+    let isMounted = true;
+    setLoading(prev => ({ ...prev, chartData: true }));
+
+    (async () => {
+      try {
+        const series = await generateMotorComparison(
+          compareMotors,
+          manualSelection.weeks,
+          manualSelection.days,
+          { maxPoints: MAX_CHART_POINTS, ...manualSelection.options }
+        );
+
+        if (isMounted) {
+          setCompareSeries(series);
+          setIsDownsampled(series.some(s => s.downsampled));
+          setApiConnected(true);
+          setError(null);
+        }
+      } catch (err) {
+        if (isMounted) {
+          setApiConnected(false);
+          if (err instanceof DataServiceError) {
+            setError(err.message);
+          }
+        }
+      } finally {
+        if (isMounted) {
+          setLoading(prev => ({ ...prev, chartData: false }));
+        }
+      }
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [compareMode, compareMotors, manualSelection, hasManualSelection, loadNonce]);
+
+  const compareOverlay = useMemo(() => buildMotorOverlay(compareSeries), [compareSeries]);
+  const periodOverlay = useMemo(
+    () => (overlayAlignment ? buildPeriodOverlay(chartData, overlayAlignment) : []),
+    [chartData, overlayAlignment]
+  );
+  const showPeriodOverlay = mode === 'MANUAL' && !compareMode && overlayAlignment !== null;
+
+  // Selection written into export file names/headers
+  const exportContext = useMemo<ExportContext | null>(() => {
+    if (!selectedZone || !selectedLine || !selectedMotor) return null;
+    const notes = [
+      mode === 'AUTO' ? `LIVE last ${formatLiveWindow(liveSettings.windowMinutes)}` : null,
+      mode === 'MANUAL' && alertFocus ? 'alert window' : null,
+      mode === 'MANUAL' && !alertFocus && filters.selectedShifts.length > 0 ? `shifts ${filters.selectedShifts.join(', ')}` : null,
+      mode === 'MANUAL' && rangeFilter ? `range ${formatNaiveTimestamp(rangeFilter.start)} - ${formatNaiveTimestamp(rangeFilter.end)}` : null,
+      isDownsampled && mode === 'MANUAL' ? 'downsampled - use the server export for full resolution' : null
+    ].filter(Boolean);
+
+    return {
+      zone: selectedZone.name,
+      line: selectedLine.name,
+      motor: compareMode ? compareMotors.map(m => m.motor).join('+') : selectedMotor,
+      weeks: mode === 'AUTO' ? [] : manualSelection.weeks,
+      days: mode === 'AUTO' ? [] : manualSelection.days,
+      note: notes.length > 0 ? notes.join('; ') : undefined
+    };
+  }, [selectedZone, selectedLine, selectedMotor, mode, liveSettings.windowMinutes, alertFocus, rangeFilter, filters.selectedShifts, isDownsampled, compareMode, compareMotors, manualSelection]);
+
+  const handleExportLoaded = useCallback(async (format: ExportFormat) => {
+    if (!exportContext) return;
+    try {
+      // Compare mode exports all motors in one table (MotorName column tells them apart)
+      const logs = compareMode ? compareSeries.flatMap(s => s.logs) : chartData;
+      await exportMotorLogs(logs, exportContext, format);
+    } catch (err) {
+      setError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed');
+    }
+  }, [exportContext, compareMode, compareSeries, chartData]);
+
+  // Server export covers the manual selection of the single selected motor
+  const serverExportUrl = useMemo(() => {
+    if (mode !== 'MANUAL' || compareMode || !selectedZone || !selectedLine || !selectedMotor) return undefined;
+    if (!hasManualSelection || !hasServerExport || !sqlServerApi) return undefined;
+    return (format: ExportFormat) => getMotorLogsExportUrl(
+      selectedZone.name,
+      selectedLine.name,
+      selectedMotor,
+      manualSelection.weeks,
+      manualSelection.days,
+      format,
+      manualSelection.options
+    );
+  }, [mode, compareMode, selectedZone, selectedLine, selectedMotor, hasManualSelection, manualSelection, sqlServerApi]);
 
   // Get last timestamp from data for age indicator
   const lastDataTimestamp = useMemo(() => {
@@ -222,7 +593,8 @@ const App = () => {
     }
   }, []);
 
-  const handleLineClick = useCallback(async (line: LineData) => {
+  // motorName: open that motor (health ranking click-through) instead of the first one
+  const handleLineClick = useCallback(async (line: LineData, motorName?: string) => {
     setSelectedLine(line);
     setLoading(prev => ({ ...prev, motors: true }));
     setError(null);
@@ -230,7 +602,7 @@ const App = () => {
     try {
       const motors = await getMotors(line.zone, line.name);
       setAvailableMotors(motors);
-      setSelectedMotor(motors[0] || null);
+      setSelectedMotor(motorName && motors.includes(motorName) ? motorName : motors[0] || null);
       setView('MOTOR_DETAIL');
     } catch (err) {
       if (err instanceof DataServiceError) {
@@ -241,12 +613,63 @@ const App = () => {
     }
   }, []);
 
+  // Inbox click-through: open the alert's motor in manual mode, zoomed to the alert window
+  const handleOpenAlert = useCallback(async (alert: MotorAlert) => {
+    setLoading(prev => ({ ...prev, motors: true }));
+    setError(null);
+
+    try {
+      const [lineList, motors] = await Promise.all([
+        getLines(alert.zone),
+        getMotors(alert.zone, alert.line)
+      ]);
+      const zone: ZoneData = zones.find(z => z.name === alert.zone)
+        ?? { name: alert.zone, lineCount: lineList.length, motorCount: motors.length, status: 'Healthy', breachCount: 0, staleMotorCount: 0 };
+      const line: LineData = lineList.find(l => l.name === alert.line)
+        ?? { name: alert.line, zone: alert.zone, motorCount: motors.length };
+
+      setSelectedZone(zone);
+      setLines(lineList);
+      setSelectedLine(line);
+      setAvailableMotors(motors.includes(alert.motorName) ? motors : [...motors, alert.motorName]);
+      setSelectedMotor(alert.motorName);
+      setMode('MANUAL');
+      setAutoRefresh(false);
+      setCompareMode(false);
+      setCompareSeries([]);
+      setRangeFilter(null);
+      setChartData([]);
+      setSummary(null);
+      setIsDownsampled(false);
+      overviewDataRef.current = [];
+      setAlertFocus({
+        start: parseNaiveTimestamp(alert.startedAt),
+        end: alert.endedAt ? parseNaiveTimestamp(alert.endedAt) : null
+      });
+      setLoadNonce(n => n + 1);
+      setView('MOTOR_DETAIL');
+    } catch (err) {
+      if (err instanceof DataServiceError) {
+        setError(err.message);
+      }
+    } finally {
+      setLoading(prev => ({ ...prev, motors: false }));
+    }
+  }, [zones]);
+
   const resetToZones = useCallback(() => {
     setView('ZONES');
     setSelectedZone(null);
     setSelectedLine(null);
     setSelectedMotor(null);
     setChartData([]);
+    setSummary(null);
+    setIsDownsampled(false);
+    setAlertFocus(null);
+    setCompareMode(false);
+    setCompareMotors([]);
+    setCompareSeries([]);
+    overviewDataRef.current = [];
     setError(null);
     setLoadNonce(0);
     setMode('MANUAL');
@@ -259,14 +682,179 @@ const App = () => {
       setSelectedLine(null);
       setSelectedMotor(null);
       setChartData([]);
+      setSummary(null);
+      setIsDownsampled(false);
+      setAlertFocus(null);
+      setCompareMode(false);
+      setCompareMotors([]);
+      setCompareSeries([]);
+      overviewDataRef.current = [];
       setLoadNonce(0);
       setMode('MANUAL');
       setAutoRefresh(false);
     }
   }, [selectedZone]);
 
+  const openAlerts = useCallback(() => {
+    resetToZones();
+    setView('ALERTS');
+  }, [resetToZones]);
+
+  const openOverview = useCallback(() => {
+    resetToZones();
+    setView('OVERVIEW');
+  }, [resetToZones]);
+
+  // Deep links: apply a URL state (page load, back/forward) - all awaits first, then one batch of state updates
+  const restoreSeqRef = useRef(0);
+  const restoreUrlState = useCallback(async (state: UrlState) => {
+    const seq = ++restoreSeqRef.current;
+    if (state.view === 'ZONES' || state.view === 'ALERTS' || state.view === 'OVERVIEW' || !state.zone) {
+      resetToZones();
+      setView(state.view === 'ALERTS' || state.view === 'OVERVIEW' ? state.view : 'ZONES');
+      return;
+    }
+
+    setLoading(prev => ({ ...prev, lines: true }));
+    setError(null);
+
+    try {
+      const lineList = await getLines(state.zone);
+      const line = state.view === 'MOTOR_DETAIL' ? lineList.find(l => l.name === state.line) : undefined;
+      const motors = line ? await getMotors(line.zone, line.name) : [];
+      if (seq !== restoreSeqRef.current) return;
+
+      const zone: ZoneData = zones.find(z => z.name === state.zone)
+        ?? { name: state.zone, lineCount: lineList.length, motorCount: 0, status: 'Healthy', breachCount: 0, staleMotorCount: 0 };
+
+      resetToZones();
+      setSelectedZone(zone);
+      setLines(lineList);
+      if (!line) {
+        setView('LINES');
+        return;
+      }
+
+      setSelectedLine(line);
+      setAvailableMotors(motors);
+      setSelectedMotor(state.motor && motors.includes(state.motor) ? state.motor : motors[0] || null);
+      setView('MOTOR_DETAIL');
+
+      if (state.mode === 'AUTO') {
+        if (state.liveWindowMinutes !== null && LIVE_WINDOW_OPTIONS.includes(state.liveWindowMinutes)) {
+          updateLiveSettings({ windowMinutes: state.liveWindowMinutes });
+        }
+        setMode('AUTO');
+        setAutoRefresh(true);
+        setLoadNonce(n => n + 1);
+        return;
+      }
+
+      const hasWeekDaySelection = state.weeks.length > 0 || state.days.length > 0;
+      setFilters(prev => ({
+        selectedWeeks: state.weeks.length > 0 ? state.weeks : prev.selectedWeeks,
+        selectedDays: hasWeekDaySelection ? state.days : prev.selectedDays,
+        selectedShifts: state.shifts.filter(name => shifts.some(s => s.name === name))
+      }));
+      pendingZoomRef.current = state.zoom;
+      setRangeFilter(state.alertWindow ? null : state.range);
+      if (state.alertWindow) {
+        setAlertFocus(state.alertWindow);
+        setLoadNonce(n => n + 1);
+      } else if (state.range || state.days.length > 0) {
+        setLoadNonce(n => n + 1);
+      }
+    } catch (err) {
+      if (err instanceof DataServiceError) {
+        setError(err.message);
+      }
+    } finally {
+      setLoading(prev => ({ ...prev, lines: false }));
+    }
+  }, [zones, shifts, resetToZones, updateLiveSettings]);
+
+  // Overview wall tile click-through: same path as a deep link to the motor
+  const handleOpenOverviewMotor = useCallback((zone: string, line: string, motorName: string) => {
+    restoreUrlState({ ...EMPTY_URL_STATE, view: 'MOTOR_DETAIL', zone, line, motor: motorName });
+  }, [restoreUrlState]);
+
+  const urlState = useMemo<UrlState>(() => ({
+    view,
+    zone: selectedZone?.name ?? null,
+    line: selectedLine?.name ?? null,
+    motor: selectedMotor,
+    mode,
+    liveWindowMinutes: mode === 'AUTO' ? liveSettings.windowMinutes : null,
+    weeks: filters.selectedWeeks,
+    days: filters.selectedDays,
+    shifts: filters.selectedShifts,
+    zoom: zoomRange,
+    range: rangeFilter,
+    alertWindow: alertFocus
+  }), [view, selectedZone, selectedLine, selectedMotor, mode, liveSettings.windowMinutes, filters, zoomRange, rangeFilter, alertFocus]);
+
+  // Mirror state into the URL: a new history entry per zone/line/motor step, filter and zoom changes replace it
+  const urlReadyRef = useRef(false);
+  useEffect(() => {
+    if (!urlReadyRef.current) return;
+    const search = buildUrlSearch(urlState);
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (urlHistoryKey(urlState) === urlHistoryKey(parseUrlState(window.location.search))) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [urlState]);
+
+  // Restore the link the page was opened with once zones/weeks are loaded
+  useEffect(() => {
+    if (loading.zones || urlReadyRef.current) return;
+    urlReadyRef.current = true;
+    const initial = parseUrlState(window.location.search);
+    if (initial.view !== 'ZONES') restoreUrlState(initial);
+  }, [loading.zones, restoreUrlState]);
+
+  useEffect(() => {
+    const handlePopState = () => restoreUrlState(parseUrlState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [restoreUrlState]);
+
+  // Back to the week/day selection; the user reloads with their own filters
+  const clearAlertFocus = useCallback(() => {
+    setAlertFocus(null);
+    setLoadNonce(0);
+    setChartData([]);
+    setSummary(null);
+    setIsDownsampled(false);
+    setZoomRange(null);
+    overviewDataRef.current = [];
+  }, []);
+
+  // From/to range loads right away; the week/day selection is kept for when the range is cleared
+  const handleApplyRange = useCallback((range: TimeRange) => {
+    setAlertFocus(null);
+    setRangeFilter(range);
+    setError(null);
+    setLoadNonce(n => n + 1);
+  }, []);
+
+  const clearRangeFilter = useCallback(() => {
+    setRangeFilter(null);
+    setLoadNonce(0);
+    setChartData([]);
+    setSummary(null);
+    setIsDownsampled(false);
+    setZoomRange(null);
+    overviewDataRef.current = [];
+  }, []);
+
   // Toggle week filter with debounce-like behavior
   const handleWeekToggle = useCallback((week: string) => {
+    setAlertFocus(null);
+    setRangeFilter(null);
     setFilters(prev => {
       const newWeeks = prev.selectedWeeks.includes(week)
         ? prev.selectedWeeks.filter(w => w !== week)
@@ -280,6 +868,8 @@ const App = () => {
   }, []);
 
   const handleDayToggle = useCallback((day: number) => {
+    setAlertFocus(null);
+    setRangeFilter(null);
     setFilters(prev => {
       // Toggle logic: if already selected, remove it
       const newDays = prev.selectedDays.includes(day)
@@ -291,22 +881,45 @@ const App = () => {
     });
   }, []);
 
+  // Shift filter combines with the week/day selection and the from/to range; empty = all shifts
+  const handleShiftToggle = useCallback((shift: string) => {
+    setAlertFocus(null);
+    setFilters(prev => ({
+      ...prev,
+      selectedShifts: prev.selectedShifts.includes(shift)
+        ? prev.selectedShifts.filter(s => s !== shift)
+        : [...prev.selectedShifts, shift]
+    }));
+  }, []);
+
+  // A nameplate edit only changes the rated load, so patch the summary instead of reloading
+  const handleMotorInfoSaved = useCallback((info: MotorInfo | null) => {
+    const ratedCurrent = info?.ratedCurrent ?? null;
+    setSummary(prev => prev && {
+      ...prev,
+      ratedCurrent,
+      ratedLoadPercent: ratedCurrent && prev.avgRunningCurrent !== null ? prev.avgRunningCurrent * 100 / ratedCurrent : null
+    });
+  }, []);
+
   const handleLoadData = useCallback(() => {
     if (!selectedZone || !selectedLine || !selectedMotor) return;
-    if (filters.selectedDays.length === 0) {
-      setError('Wybierz co najmniej jeden dzień, aby załadować dane.');
+    if (filters.selectedDays.length === 0 && !rangeFilter) {
+      setError('Wybierz co najmniej jeden dzień lub zakres dat, aby załadować dane.');
       return;
     }
     setError(null);
-    setRefreshCounter(0);
+    setAlertFocus(null);
     setLoading(prev => ({ ...prev, chartData: true }));
     setLoadNonce(n => n + 1);
-  }, [filters.selectedDays.length, selectedLine, selectedMotor, selectedZone]);
+  }, [filters.selectedDays.length, rangeFilter, selectedLine, selectedMotor, selectedZone]);
 
   const handleModeChange = useCallback((nextMode: 'MANUAL' | 'AUTO') => {
     setMode(nextMode);
-    setRefreshCounter(0);
+    setAlertFocus(null);
     if (nextMode === 'AUTO') {
+      setCompareMode(false);
+      setCompareSeries([]);
       setAutoRefresh(true);
       setLoadNonce(n => (n === 0 ? 1 : n + 1));
       setError(null);
@@ -314,13 +927,41 @@ const App = () => {
       setAutoRefresh(false);
       setLoadNonce(0);
       setChartData([]);
+      setSummary(null);
+      setIsDownsampled(false);
+      overviewDataRef.current = [];
     }
   }, []);
 
+  // Entering compare starts from the current motor; the user adds more and loads
+  const handleToggleCompare = useCallback(() => {
+    if (compareMode) {
+      setCompareMode(false);
+      setCompareSeries([]);
+      setIsDownsampled(false);
+      setLoadNonce(0);
+      return;
+    }
+    if (!selectedZone || !selectedLine || !selectedMotor) return;
+
+    if (mode === 'AUTO') handleModeChange('MANUAL');
+    setAlertFocus(null);
+    setChartData([]);
+    setSummary(null);
+    setIsDownsampled(false);
+    overviewDataRef.current = [];
+    setCompareMotors([{ zone: selectedZone.name, line: selectedLine.name, motor: selectedMotor }]);
+    setCompareSeries([]);
+    setCompareMode(true);
+    setLoadNonce(0);
+  }, [compareMode, mode, handleModeChange, selectedZone, selectedLine, selectedMotor]);
+
   // Breadcrumbs config
   const breadcrumbs = useMemo(() => {
     const crumbs = [];
     crumbs.push({ label: 'All Zones', action: view !== 'ZONES' ? resetToZones : undefined });
+    if (view === 'ALERTS') crumbs.push({ label: 'Alerts' });
+    if (view === 'OVERVIEW') crumbs.push({ label: 'Plant Overview' });
     if (selectedZone) crumbs.push({ label: selectedZone.name, action: view !== 'LINES' ? resetToLines : undefined });
     if (selectedLine) crumbs.push({ label: selectedLine.name });
     return crumbs;
@@ -332,6 +973,10 @@ const App = () => {
       theme={theme}
       onThemeChange={setTheme}
       apiConnected={apiConnected}
+      plantTimezone={plantTimezone}
+      activeAlertCount={activeAlertCount}
+      onAlertsClick={openAlerts}
+      onOverviewClick={openOverview}
     >
       {/* Error Banner */}
       {error && (
@@ -385,6 +1030,12 @@ const App = () => {
                       zone.status === 'Warning' ? 'text-amber-600' : 'text-rose-600'
                       }`}>{zone.status}</span>
                   </div>
+                  {(zone.breachCount > 0 || zone.staleMotorCount > 0) && (
+                    <div className="mt-2 flex justify-between text-xs text-[var(--text-tertiary)]">
+                      <span>{zone.breachCount} limit breaches</span>
+                      <span>{zone.staleMotorCount} stale motors</span>
+                    </div>
+                  )}
                 </Card>
               ))
             )}
@@ -392,6 +1043,14 @@ const App = () => {
         </div>
       )}
 
+      {/* ALERTS VIEW */}
+      {view === 'ALERTS' && (
+        <AlertInbox zones={zones} onOpenAlert={handleOpenAlert} onChange={refreshAlertCounts} />
+      )}
+
+      {/* OVERVIEW WALL */}
+      {view === 'OVERVIEW' && <OverviewWall onOpenMotor={handleOpenOverviewMotor} />}
+
       {/* 2. LINES VIEW */}
       {view === 'LINES' && selectedZone && (
         <div className="space-y-6">
@@ -423,6 +1082,8 @@ const App = () => {
               ))
             )}
           </div>
+
+          {!loading.lines && sqlServerApi && <MotorHealthTable lines={lines} onOpenMotor={handleLineClick} />}
         </div>
       )}
 
@@ -451,6 +1112,7 @@ const App = () => {
                     className="px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-sm font-semibold focus:ring-2 focus:ring-blue-500 hover:bg-[var(--bg-card)] transition-colors cursor-pointer text-[var(--text-primary)]"
                     value={selectedMotor || ''}
                     onChange={(e) => setSelectedMotor(e.target.value)}
+                    disabled={compareMode}
                   >
                     {availableMotors.map(m => <option key={m} value={m}>{m}</option>)}
                   </select>
@@ -460,16 +1122,38 @@ const App = () => {
               {/* Middle: Status + Data age */}
               <div className="flex items-center gap-3">
                 <span className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">
-                  {loading.chartData ? '...' : `${chartData.length} pts`}
+                  {loading.chartData
+                    ? '...'
+                    : `${compareMode ? compareSeries.reduce((sum, s) => sum + s.logs.length, 0) : chartData.length} pts${isDownsampled && mode === 'MANUAL' ? ' (downsampled)' : ''}`}
                 </span>
 
+                {alertFocus && mode === 'MANUAL' && (
+                  <span className="flex items-center gap-1 text-rose-700 dark:text-rose-300 font-bold bg-rose-50 dark:bg-rose-900/30 px-2 py-0.5 rounded border border-rose-200 dark:border-rose-800 text-[10px]">
+                    <AlertTriangle className="h-2.5 w-2.5" />
+                    ALERT WINDOW
+                    <button onClick={clearAlertFocus} title="Wróć do wyboru tygodnia/dni" className="ml-1 hover:text-rose-900 dark:hover:text-rose-100">
+                      <X className="h-2.5 w-2.5" />
+                    </button>
+                  </span>
+                )}
+
+                {rangeFilter && !alertFocus && mode === 'MANUAL' && (
+                  <span className="flex items-center gap-1 text-blue-700 dark:text-blue-300 font-bold bg-blue-50 dark:bg-blue-900/30 px-2 py-0.5 rounded border border-blue-200 dark:border-blue-800 text-[10px]">
+                    <Clock className="h-2.5 w-2.5" />
+                    {formatNaiveTimestamp(rangeFilter.start).slice(0, 16)} – {formatNaiveTimestamp(rangeFilter.end).slice(0, 16)}
+                    <button onClick={clearRangeFilter} title="Wróć do wyboru tygodnia/dni" className="ml-1 hover:text-blue-900 dark:hover:text-blue-100">
+                      <X className="h-2.5 w-2.5" />
+                    </button>
+                  </span>
+                )}
+
                 {/* Data Age Indicator */}
                 <DataAgeIndicator lastTimestamp={lastDataTimestamp} autoRefresh={autoRefresh} />
 
                 {autoRefresh && (
                   <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-bold bg-emerald-50 dark:bg-emerald-900/30 px-2 py-0.5 rounded border border-emerald-100 dark:border-emerald-800 text-[10px] live-indicator">
                     <RefreshCw className="h-2.5 w-2.5 animate-spin" style={{ animationDuration: '3s' }} />
-                    LIVE 10m
+                    LIVE {formatLiveWindow(liveSettings.windowMinutes)}{liveTransport === 'polling' ? ' (polling)' : ''}
                   </span>
                 )}
               </div>
@@ -494,12 +1178,69 @@ const App = () => {
                       ? 'bg-blue-600 text-white border border-blue-600 shadow-sm'
                       : 'text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
                       }`}
-                    title="Tryb: Auto 10s, ostatnie 10 minut"
+                    title={`Tryb: Auto, ostatnie ${formatLiveWindow(liveSettings.windowMinutes)} + nowe dane na żywo`}
                   >
-                    Auto 10s
+                    Auto
                   </button>
                 </div>
 
+                {/* Live window + refresh interval (auto only) */}
+                {mode === 'AUTO' && (
+                  <div className="flex items-center gap-1 bg-[var(--bg-tertiary)] px-2 py-1 rounded border border-[var(--border-primary)]">
+                    <span className="text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight">Window:</span>
+                    <select
+                      className="px-1 py-0.5 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded text-xs font-semibold text-[var(--text-primary)]"
+                      value={liveSettings.windowMinutes}
+                      onChange={(e) => updateLiveSettings({ windowMinutes: Number(e.target.value) })}
+                      title="Zakres danych na żywo"
+                    >
+                      {liveWindowOptions.map(m => <option key={m} value={m}>{formatLiveWindow(m)}</option>)}
+                    </select>
+                    <span className="ml-1 text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight">Refresh:</span>
+                    <select
+                      className="px-1 py-0.5 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded text-xs font-semibold text-[var(--text-primary)]"
+                      value={liveSettings.refreshSeconds}
+                      onChange={(e) => updateLiveSettings({ refreshSeconds: Number(e.target.value) })}
+                      title="Co ile sekund przesuwać okno (i odpytywać API bez strumienia)"
+                    >
+                      {LIVE_REFRESH_OPTIONS.map(s => <option key={s} value={s}>{s}s</option>)}
+                    </select>
+                  </div>
+                )}
+
+                {/* Compare toggle */}
+                <button
+                  onClick={handleToggleCompare}
+                  className={`flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold transition-colors ${compareMode
+                    ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                    : 'bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]'
+                    }`}
+                  title="Porównaj kilka silników na jednym wykresie"
+                >
+                  <GitCompare className="h-3.5 w-3.5" />
+                  Compare
+                </button>
+
+                {/* Week/day overlay (manual single-motor only) */}
+                {mode === 'MANUAL' && !compareMode && (
+                  <div className="flex items-center gap-1 bg-[var(--bg-tertiary)] px-2 py-1 rounded border border-[var(--border-primary)]">
+                    <span className="text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight mr-1">Overlay:</span>
+                    {([null, 'week', 'day'] as (OverlayAlignment | null)[]).map(option => (
+                      <button
+                        key={option ?? 'off'}
+                        onClick={() => setOverlayAlignment(option)}
+                        className={`px-2 py-0.5 rounded text-xs font-bold ${overlayAlignment === option
+                          ? 'bg-[var(--bg-card)] text-[var(--text-primary)] border border-[var(--border-primary)] shadow-sm'
+                          : 'text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
+                          }`}
+                        title={option === null ? 'Oś czasu bezwzględna' : option === 'week' ? 'Nałóż wybrane tygodnie (czas w tygodniu)' : 'Nałóż wybrane dni (czas w dniu)'}
+                      >
+                        {option === null ? 'Off' : option === 'week' ? 'Week' : 'Day'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
                 {/* Week buttons */}
                 <div className="flex items-center gap-2">
                   <span className="text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight">Week:</span>
@@ -542,44 +1283,158 @@ const App = () => {
                         {d}
                       </button>
                     ))}
-                    {filters.selectedDays.length === 0 && (
+                    {filters.selectedDays.length === 0 && !rangeFilter && (
                       <span className="ml-1 text-[10px] text-[var(--text-tertiary)] font-medium uppercase self-center">{mode === 'MANUAL' ? '(wymagany wybór)' : '(auto)'}</span>
                     )}
                   </div>
                 </div>
 
+                {/* Shift buttons (manual only) */}
+                {mode === 'MANUAL' && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight">Shift:</span>
+                    <div className="flex gap-1">
+                      {shifts.map(s => (
+                        <button
+                          key={s.name}
+                          onClick={() => handleShiftToggle(s.name)}
+                          className={`px-2 h-6 flex items-center justify-center rounded text-xs font-bold border transition-all ${filters.selectedShifts.includes(s.name)
+                            ? 'bg-violet-600 text-white border-violet-600 shadow-md transform scale-105'
+                            : 'bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]'
+                            }`}
+                          title={`Zmiana ${s.name}: ${s.start}-${s.end}`}
+                        >
+                          {s.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* From/to range (manual only) */}
+                {mode === 'MANUAL' && (
+                  <DateRangePicker value={rangeFilter} onApply={handleApplyRange} shifts={shifts} disabled={loading.chartData} />
+                )}
+
                 {/* Load button (manual only) */}
                 {mode === 'MANUAL' && (
                   <button
                     onClick={handleLoadData}
-                    className={`flex items-center gap-2 px-3 py-2 rounded border font-bold text-xs transition-colors ${filters.selectedDays.length === 0
+                    className={`flex items-center gap-2 px-3 py-2 rounded border font-bold text-xs transition-colors ${filters.selectedDays.length === 0 && !rangeFilter
                       ? 'bg-[var(--bg-tertiary)] text-[var(--text-tertiary)] border-[var(--border-primary)] cursor-not-allowed'
                       : 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700 shadow-sm'
                       }`}
-                    disabled={filters.selectedDays.length === 0 || loading.chartData}
+                    disabled={(filters.selectedDays.length === 0 && !rangeFilter) || loading.chartData}
                     title="Załaduj dane dla wybranych dni"
                   >
                     <RefreshCw className="h-3.5 w-3.5" />
                     {loading.chartData ? 'Ładowanie...' : 'Ładuj dane'}
                   </button>
                 )}
+
+                <ExportMenu
+                  onExportLoaded={handleExportLoaded}
+                  serverExportUrl={serverExportUrl}
+                  disabled={(compareMode ? compareSeries.length === 0 : chartData.length === 0) && !serverExportUrl}
+                />
               </div>
             </div>
           )}
 
+          {/* Nameplate data from the motor registry */}
+          {sqlServerApi && !compareMode && selectedZone && selectedMotor && (
+            <MotorNameplate zone={selectedZone.name} line={selectedLine.name} motor={selectedMotor} onSaved={handleMotorInfoSaved} />
+          )}
+
+          {/* Motors to compare (zone-wide, across lines) */}
+          {compareMode && selectedZone && (
+            <MotorComparePicker
+              zone={selectedZone.name}
+              lines={lines}
+              currentLine={selectedLine.name}
+              currentLineMotors={availableMotors}
+              selected={compareMotors}
+              onChange={setCompareMotors}
+            />
+          )}
+
+          {/* KPI Summary (manual mode only - covers the selected weeks/days) */}
+          {mode === 'MANUAL' && !compareMode && (
+            <SummaryStrip summary={summary} loading={loading.chartData && !summary} />
+          )}
+
           {/* Charts Area with Error Boundary */}
           <ErrorBoundary>
-            {loading.chartData && chartData.length === 0 ? (
+            {compareMode ? (
+              loading.chartData && compareSeries.length === 0 ? (
+                <div className="space-y-2">
+                  <ChartSkeleton title="Motor Current - comparison" />
+                  <ChartSkeleton title="Average Current - comparison" />
+                </div>
+              ) : (
+                <OverlayCharts series={compareOverlay} title="comparison" />
+              )
+            ) : showPeriodOverlay && !(loading.chartData && chartData.length === 0) ? (
+              <OverlayCharts
+                series={periodOverlay}
+                title={overlayAlignment === 'week' ? 'week overlay' : 'day overlay'}
+                relativeTo={overlayAlignment ?? undefined}
+              />
+            ) : loading.chartData && chartData.length === 0 ? (
               <div className="space-y-2">
                 <ChartSkeleton title="Average Current & Limits" />
                 <ChartSkeleton title="Real-time Motor Current" />
                 <ChartSkeleton title="Operational Status" />
               </div>
             ) : (
-              <MotorCharts ref={chartsRef} data={chartData} autoRefresh={autoRefresh} />
+              <MotorCharts
+                ref={chartsRef}
+                data={chartData}
+                autoRefresh={autoRefresh}
+                exportContext={exportContext ?? undefined}
+                shifts={shifts}
+                liveWindowMinutes={liveSettings.windowMinutes}
+                refreshIntervalMs={liveSettings.refreshSeconds * 1000}
+                anomalies={anomalies}
+                gaps={dataGaps}
+                zoomRange={zoomRange}
+                onZoomChange={mode === 'MANUAL' ? setZoomRange : undefined}
+              />
             )}
           </ErrorBoundary>
 
+          {/* Shift comparison for the whole line (manual selection) */}
+          {sqlServerApi && mode === 'MANUAL' && !compareMode && selectedZone && selectedMotor && hasManualSelection && (
+            <ShiftReport
+              zone={selectedZone.name}
+              line={selectedLine.name}
+              motor={selectedMotor}
+              weeks={manualSelection.weeks}
+              days={manualSelection.days}
+              options={manualSelection.options}
+              shifts={shifts}
+              loadNonce={loadNonce}
+            />
+          )}
+
+          {/* Logger gaps, ingest lag, duplicates and impossible values for the line (manual selection) */}
+          {sqlServerApi && mode === 'MANUAL' && !compareMode && selectedZone && selectedMotor && hasManualSelection && (
+            <DataQualityPanel
+              zone={selectedZone.name}
+              line={selectedLine.name}
+              motor={selectedMotor}
+              weeks={manualSelection.weeks}
+              days={manualSelection.days}
+              options={manualSelection.options}
+              loadNonce={loadNonce}
+            />
+          )}
+
+          {/* Long-term drift of the running current (daily aggregates, independent of the selection) */}
+          {sqlServerApi && !compareMode && selectedZone && selectedMotor && (
+            <CurrentTrendPanel zone={selectedZone.name} line={selectedLine.name} motor={selectedMotor} />
+          )}
+
         </div>
       )}
     </Layout>
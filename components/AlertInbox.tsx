@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Bell, Check, CheckCheck, MessageSquare, LineChart, RefreshCw } from 'lucide-react';
+import { MotorAlert, AlertComment, AlertStatusFilter, ZoneData } from '../types';
+import {
+  getAlerts,
+  getLines,
+  getMotors,
+  acknowledgeAlert,
+  resolveAlert,
+  getAlertComments,
+  addAlertComment,
+  DataServiceError
+} from '../services/dataService';
+
+interface AlertInboxProps {
+  zones: ZoneData[];
+  onOpenAlert: (alert: MotorAlert) => void; // Click-through into MOTOR_DETAIL
+  onChange?: () => void; // An alert was acknowledged/resolved (e.g. refresh header counts)
+}
+
+const OPERATOR_STORAGE_KEY = 'motorlog-operator';
+const REFRESH_INTERVAL_MS = 30000;
+
+const severityClasses: Record<MotorAlert['severity'], string> = {
+  Warning: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800',
+  Critical: 'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/30 dark:text-rose-300 dark:border-rose-800'
+};
+
+const selectClass = 'px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)]';
+const actionClass = 'flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Timestamps are naive plant-local strings - show them without the milliseconds
+const shortTime = (timestamp: string | null) => timestamp ? timestamp.slice(0, 19) : '-';
+
+const workflowLabel = (alert: MotorAlert) => {
+  if (alert.resolvedAt) return `Resolved by ${alert.resolvedBy}`;
+  if (alert.acknowledgedAt) return `Acknowledged by ${alert.acknowledgedBy}`;
+  return 'New';
+};
+
+const AlertComments: React.FC<{ alertId: number; operator: string; onAdded: () => void }> = ({ alertId, operator, onAdded }) => {
+  const [comments, setComments] = useState<AlertComment[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    getAlertComments(alertId)
+      .then(list => isMounted && setComments(list))
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load comments'));
+    return () => {
+      isMounted = false;
+    };
+  }, [alertId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !operator) return;
+    try {
+      const comment = await addAlertComment(alertId, operator, draft.trim());
+      setComments(prev => [...(prev ?? []), comment]);
+      setDraft('');
+      onAdded();
+    } catch (err) {
+      setError(err instanceof DataServiceError ? err.message : 'Failed to add comment');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      {comments === null ? (
+        <p className="text-xs text-[var(--text-tertiary)]">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">No comments yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {comments.map(c => (
+            <li key={c.id} className="text-xs">
+              <span className="font-semibold text-[var(--text-primary)]">{c.author}</span>
+              <span className="text-[var(--text-tertiary)] ml-2">{shortTime(c.createdAt)}</span>
+              <p className="text-[var(--text-secondary)] whitespace-pre-wrap">{c.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          className={`${selectClass} flex-1`}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={operator ? 'Add a comment' : 'Enter your name above to comment'}
+          maxLength={2000}
+          disabled={!operator}
+        />
+        <button
+          type="submit"
+          className={`${actionClass} bg-blue-600 text-white border-blue-600 hover:bg-blue-700`}
+          disabled={!operator || !draft.trim()}
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export const AlertInbox: React.FC<AlertInboxProps> = ({ zones, onOpenAlert, onChange }) => {
+  const [status, setStatus] = useState<AlertStatusFilter>('active');
+  const [zone, setZone] = useState('');
+  const [line, setLine] = useState('');
+  const [motor, setMotor] = useState('');
+  const [lineOptions, setLineOptions] = useState<string[]>([]);
+  const [motorOptions, setMotorOptions] = useState<string[]>([]);
+
+  const [alerts, setAlerts] = useState<MotorAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const [operator, setOperator] = useState(() => localStorage.getItem(OPERATOR_STORAGE_KEY) || '');
+
+  useEffect(() => {
+    localStorage.setItem(OPERATOR_STORAGE_KEY, operator);
+  }, [operator]);
+
+  // Cascade zone -> line -> motor filter options
+  useEffect(() => {
+    setLine('');
+    setLineOptions([]);
+    if (!zone) return;
+    getLines(zone).then(list => setLineOptions(list.map(l => l.name))).catch(() => setLineOptions([]));
+  }, [zone]);
+
+  useEffect(() => {
+    setMotor('');
+    setMotorOptions([]);
+    if (!zone || !line) return;
+    getMotors(zone, line).then(setMotorOptions).catch(() => setMotorOptions([]));
+  }, [zone, line]);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const list = await getAlerts({ status, zone: zone || undefined, line: line || undefined, motor: motor || undefined });
+      setAlerts(list);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof DataServiceError ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, zone, line, motor]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadAlerts();
+    const interval = setInterval(loadAlerts, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAlerts]);
+
+  const replaceAlert = (updated: MotorAlert) => {
+    // Resolved alerts leave the "active" list
+    setAlerts(prev => status === 'active' && updated.resolvedAt
+      ? prev.filter(a => a.id !== updated.id)
+      : prev.map(a => (a.id === updated.id ? updated : a)));
+    onChange?.();
+  };
+
+  const runAction = async (alert: MotorAlert, action: 'acknowledge' | 'resolve') => {
+    if (!operator.trim()) {
+      setError('Enter your name before acknowledging or resolving alerts.');
+      return;
+    }
+    setPendingId(alert.id);
+    try {
+      if (action === 'acknowledge') {
+        replaceAlert(await acknowledgeAlert(alert.id, operator.trim()));
+      } else {
+        const comment = window.prompt('Resolution comment (optional)') ?? undefined;
+        replaceAlert(await resolveAlert(alert.id, operator.trim(), comment || undefined));
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof DataServiceError ? err.message : `Failed to ${action} alert`);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-[var(--text-primary)] flex items-center gap-2">
+            <Bell className="h-6 w-6" /> Alerts
+          </h2>
+          <div className="text-sm text-[var(--text-secondary)] mt-1">Rule violations per zone, line and motor</div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            className={selectClass}
+            value={operator}
+            onChange={(e) => setOperator(e.target.value)}
+            placeholder="Operator name"
+            maxLength={100}
+          />
+          <select className={selectClass} value={status} onChange={(e) => setStatus(e.target.value as AlertStatusFilter)}>
+            <option value="active">Active</option>
+            <option value="resolved">Resolved</option>
+            <option value="all">All</option>
+          </select>
+          <select className={selectClass} value={zone} onChange={(e) => setZone(e.target.value)}>
+            <option value="">All zones</option>
+            {zones.map(z => <option key={z.name} value={z.name}>{z.name}</option>)}
+          </select>
+          <select className={selectClass} value={line} onChange={(e) => setLine(e.target.value)} disabled={!zone}>
+            <option value="">All lines</option>
+            {lineOptions.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <select className={selectClass} value={motor} onChange={(e) => setMotor(e.target.value)} disabled={!line}>
+            <option value="">All motors</option>
+            {motorOptions.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <button
+            onClick={() => { setLoading(true); loadAlerts(); }}
+            className={`${actionClass} bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]`}
+            title="Odśwież"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>}
+
+      <div className="bg-[var(--bg-card)] rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)] overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-[var(--bg-tertiary)] text-[var(--text-secondary)] text-xs uppercase tracking-wider">
+            <tr>
+              <th className="px-3 py-2 text-left">Severity</th>
+              <th className="px-3 py-2 text-left">Motor</th>
+              <th className="px-3 py-2 text-left">Alert</th>
+              <th className="px-3 py-2 text-left">Started</th>
+              <th className="px-3 py-2 text-left">Ended</th>
+              <th className="px-3 py-2 text-left">State</th>
+              <th className="px-3 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!loading && alerts.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-8 text-center text-[var(--text-secondary)]">No alerts</td>
+              </tr>
+            )}
+            {alerts.map(alert => (
+              <React.Fragment key={alert.id}>
+                <tr className="border-t border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]">
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase ${severityClasses[alert.severity]}`}>
+                      {alert.severity}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <div className="font-semibold text-[var(--text-primary)]">{alert.motorName}</div>
+                    <div className="text-xs text-[var(--text-tertiary)]">{alert.zone} / {alert.line}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="text-[var(--text-primary)]">{alert.message}</div>
+                    <div className="text-xs text-[var(--text-tertiary)]">{alert.ruleName}</div>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-[var(--text-secondary)]">{shortTime(alert.startedAt)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {alert.endedAt
+                      ? <span className="text-[var(--text-secondary)]">{shortTime(alert.endedAt)}</span>
+                      : <span className="font-semibold text-rose-600">Ongoing</span>}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-[var(--text-secondary)]">{workflowLabel(alert)}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex justify-end gap-1">
+                      <button
+                        onClick={() => onOpenAlert(alert)}
+                        className={`${actionClass} bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]`}
+                        title="Pokaż na wykresie"
+                      >
+                        <LineChart className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => setExpandedId(id => (id === alert.id ? null : alert.id))}
+                        className={`${actionClass} bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]`}
+                        title="Komentarze"
+                      >
+                        <MessageSquare className="h-3.5 w-3.5" />
+                        {alert.commentCount > 0 && alert.commentCount}
+                      </button>
+                      {!alert.acknowledgedAt && (
+                        <button
+                          onClick={() => runAction(alert, 'acknowledge')}
+                          className={`${actionClass} bg-[var(--bg-card)] text-[var(--text-primary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]`}
+                          disabled={pendingId === alert.id}
+                        >
+                          <Check className="h-3.5 w-3.5" /> Ack
+                        </button>
+                      )}
+                      {!alert.resolvedAt && (
+                        <button
+                          onClick={() => runAction(alert, 'resolve')}
+                          className={`${actionClass} bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700`}
+                          disabled={pendingId === alert.id}
+                        >
+                          <CheckCheck className="h-3.5 w-3.5" /> Resolve
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+                {expandedId === alert.id && (
+                  <tr className="bg-[var(--bg-tertiary)]">
+                    <td colSpan={7} className="px-6 py-3">
+                      <AlertComments
+                        alertId={alert.id}
+                        operator={operator.trim()}
+                        onAdded={() => setAlerts(prev => prev.map(a => (a.id === alert.id ? { ...a, commentCount: a.commentCount + 1 } : a)))}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AlertInbox;
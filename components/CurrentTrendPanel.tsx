@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { TrendingUp } from 'lucide-react';
+import { MotorTrendResponse } from '../types';
+import { getMotorTrend, parseNaiveTimestamp, DataServiceError } from '../services/dataService';
+import { currentSeriesTooltip } from '../services/chartTooltip';
+
+interface CurrentTrendPanelProps {
+  zone: string;
+  line: string;
+  motor: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDay = (ms: number) => {
+  const d = new Date(ms);
+  return `${pad(d.getUTCDate())}.${pad(d.getUTCMonth() + 1)}`;
+};
+
+const badgeClass = 'px-2 py-0.5 rounded border text-[10px] font-bold';
+const neutralBadge = `${badgeClass} bg-[var(--bg-tertiary)] text-[var(--text-secondary)] border-[var(--border-primary)]`;
+
+// Daily AvgCurrent while running, the fitted drift line projected towards MaxCurrentLimit
+export const CurrentTrendPanel: React.FC<CurrentTrendPanelProps> = ({ zone, line, motor }) => {
+  const [data, setData] = useState<MotorTrendResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    setData(null);
+    getMotorTrend(zone, line, motor)
+      .then(result => {
+        if (!isMounted) return;
+        setData(result);
+        setError(null);
+      })
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load the current trend'));
+    return () => {
+      isMounted = false;
+    };
+  }, [zone, line, motor]);
+
+  const options = useMemo(() => {
+    if (!data) return null;
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const axisColor = isDark ? '#64748b' : '#94a3b8';
+    const labelColor = isDark ? '#94a3b8' : '#64748b';
+
+    const points = data.points.map(p => ({ ...p, dayMs: parseNaiveTimestamp(`${p.day} 00:00:00`) }));
+    const fitted = points.filter(p => p.avgCurrent !== null);
+    const { trend } = data;
+
+    // Fitted line from the first fitted day, projected up to the limit (capped at the flag horizon)
+    const fitLine: [number, number][] = [];
+    if (trend && fitted.length > 0) {
+      const lastDay = fitted[fitted.length - 1].dayMs;
+      const at = (ms: number) => trend.currentLevel + trend.slopePerDay * (ms - lastDay) / DAY_MS;
+      const projectDays = trend.daysUntilLimit !== null ? Math.min(Math.ceil(trend.daysUntilLimit), data.horizonDays) : 0;
+      fitLine.push([fitted[0].dayMs, at(fitted[0].dayMs)], [lastDay, at(lastDay)]);
+      if (projectDays > 0) fitLine.push([lastDay + projectDays * DAY_MS, at(lastDay + projectDays * DAY_MS)]);
+    }
+
+    return {
+      animation: false,
+      backgroundColor: 'transparent',
+      useUTC: true,
+      textStyle: { color: isDark ? '#cbd5e1' : '#475569' },
+      grid: { left: 50, right: 15, top: 30, bottom: 30 },
+      legend: { top: 0, textStyle: { color: labelColor } },
+      tooltip: {
+        trigger: 'axis',
+        backgroundColor: isDark ? '#1e293b' : '#ffffff',
+        borderColor: isDark ? '#334155' : '#e2e8f0',
+        textStyle: { color: isDark ? '#f1f5f9' : '#1e293b' },
+        formatter: currentSeriesTooltip(formatDay)
+      },
+      xAxis: {
+        type: 'time',
+        axisLine: { lineStyle: { color: axisColor } },
+        axisLabel: { formatter: (value: number) => formatDay(value), color: labelColor },
+        splitLine: { show: false }
+      },
+      yAxis: {
+        type: 'value',
+        scale: true,
+        axisLine: { lineStyle: { color: axisColor } },
+        axisLabel: { formatter: '{value} A', color: labelColor },
+        splitLine: { lineStyle: { color: isDark ? '#334155' : '#e2e8f0' } }
+      },
+      series: [
+        {
+          name: 'Daily avg (running)',
+          type: 'line',
+          color: '#3b82f6',
+          symbolSize: 5,
+          connectNulls: false,
+          data: points.map(p => [p.dayMs, p.avgCurrent])
+        },
+        {
+          name: 'Trend',
+          type: 'line',
+          color: trend?.isDrifting ? '#ef4444' : '#f59e0b',
+          showSymbol: false,
+          lineStyle: { type: 'dashed', width: 1.5 },
+          data: fitLine
+        },
+        {
+          name: 'Max limit',
+          type: 'line',
+          color: '#ef4444',
+          showSymbol: false,
+          step: 'end',
+          lineStyle: { width: 1 },
+          data: points.filter(p => p.currentLimit !== null).map(p => [p.dayMs, p.currentLimit])
+        }
+      ]
+    };
+  }, [data]);
+
+  const trend = data?.trend ?? null;
+
+  return (
+    <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)] text-sm">
+          <TrendingUp className="h-4 w-4 text-[var(--text-tertiary)]" />
+          Current trend{data ? ` - last ${data.windowDays} days` : ''}
+        </h3>
+        {trend && (
+          <div className="flex items-center gap-2">
+            <span className={neutralBadge} title="Nachylenie dopasowanej prostej">
+              {trend.slopePerDay >= 0 ? '+' : ''}{trend.slopePerDay.toFixed(3)} A/day
+            </span>
+            <span className={neutralBadge} title="Dopasowanie trendu (R²)">R² {trend.r2.toFixed(2)}</span>
+            <span
+              className={`${badgeClass} ${trend.isDrifting
+                ? 'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/30 dark:text-rose-300 dark:border-rose-800'
+                : 'bg-[var(--bg-tertiary)] text-[var(--text-secondary)] border-[var(--border-primary)]'
+                }`}
+              title={`Prognoza osiągnięcia limitu prądu przy obecnym trendzie (obliczono ${trend.computedAt.slice(0, 16)})`}
+            >
+              {trend.daysUntilLimit === null
+                ? 'No upward drift'
+                : trend.daysUntilLimit === 0
+                  ? 'At limit'
+                  : `${Math.round(trend.daysUntilLimit)} days until limit`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : !data ? (
+        <p className="text-xs text-[var(--text-tertiary)]">Ładowanie...</p>
+      ) : data.points.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">Brak dziennych agregatów - trend jest liczony przez zadanie w tle</p>
+      ) : (
+        <>
+          {!trend && <p className="text-xs text-[var(--text-tertiary)] mb-1">Za mało dni z pracą silnika, by wyznaczyć trend</p>}
+          <ReactECharts option={options!} style={{ height: '220px', width: '100%' }} opts={{ renderer: 'canvas' }} notMerge={true} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CurrentTrendPanel;
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { CycleGrouping, DurationStats, ShiftDefinition } from '../types';
+import { computeCycleStats, DEFAULT_SHIFTS } from '../services/cycleStats';
+
+interface CycleStatsPanelProps {
+  points: { timestampMs: number; value: number }[]; // ON/OFF series, ordered by time
+  shifts?: ShiftDefinition[]; // Plant shifts (GET /api/shifts)
+}
+
+const GROUPINGS: { value: CycleGrouping; label: string }[] = [
+  { value: 'hour', label: 'Hour' },
+  { value: 'shift', label: 'Shift' },
+  { value: 'day', label: 'Day' }
+];
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(0)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+const DurationRow: React.FC<{ label: string; stats: DurationStats | null }> = ({ label, stats }) => (
+  <div className="flex justify-between text-xs">
+    <span className="text-[var(--text-secondary)]">{label}</span>
+    <span className="font-mono text-[var(--text-primary)]">
+      {stats ? `${formatDuration(stats.mean)} / ${formatDuration(stats.median)} / ${formatDuration(stats.max)}` : '-'}
+    </span>
+  </div>
+);
+
+export const CycleStatsPanel: React.FC<CycleStatsPanelProps> = ({ points, shifts = DEFAULT_SHIFTS }) => {
+  const [grouping, setGrouping] = useState<CycleGrouping>('hour');
+  const stats = useMemo(() => computeCycleStats(points, grouping, shifts), [points, grouping, shifts]);
+
+  return (
+    <div className="flex flex-col gap-2 h-full">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-[var(--bg-tertiary)] rounded p-2">
+          <div className="text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">Starts</div>
+          <div className="text-lg font-bold text-[var(--text-primary)]">{stats.starts}</div>
+        </div>
+        <div className="bg-[var(--bg-tertiary)] rounded p-2">
+          <div className="text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">Duty Cycle</div>
+          <div className="text-lg font-bold text-[var(--text-primary)]">{stats.dutyCyclePercent.toFixed(1)}%</div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] text-right text-[var(--text-tertiary)]">mean / median / max</div>
+        <DurationRow label="ON" stats={stats.onDuration} />
+        <DurationRow label="OFF" stats={stats.offDuration} />
+      </div>
+
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-xs font-semibold text-[var(--text-secondary)]">Duty cycle per</span>
+        <div className="flex gap-1">
+          {GROUPINGS.map(g => (
+            <button
+              key={g.value}
+              onClick={() => setGrouping(g.value)}
+              className={`px-2 py-0.5 rounded text-[10px] font-bold border ${grouping === g.value
+                ? 'bg-emerald-600 text-white border-emerald-600'
+                : 'bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]'
+                }`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 max-h-40 overflow-auto space-y-1 pr-1">
+        {stats.buckets.map(bucket => (
+          <div key={bucket.key} className="text-xs" title={`${formatDuration(bucket.onSeconds)} ON of ${formatDuration(bucket.observedSeconds)}`}>
+            <div className="flex justify-between">
+              <span className="font-mono text-[var(--text-secondary)]">{bucket.label}</span>
+              <span className="text-[var(--text-primary)]">
+                {bucket.dutyCyclePercent.toFixed(0)}% <span className="text-[var(--text-tertiary)]">• {bucket.starts} starts</span>
+              </span>
+            </div>
+            <div className="h-1 bg-[var(--bg-tertiary)] rounded">
+              <div className="h-1 bg-emerald-500 rounded" style={{ width: `${Math.min(bucket.dutyCyclePercent, 100)}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CycleStatsPanel;
@@ -1,5 +1,7 @@
 import React, { useMemo } from 'react';
 import { Clock, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { parseNaiveTimestamp, formatNaiveTimestamp } from '../services/dataService';
+import { plantNowMs, getPlantTimeZone } from '../services/plantTime';
 
 interface DataAgeIndicatorProps {
     lastTimestamp: string | null;
@@ -21,9 +23,8 @@ export const DataAgeIndicator: React.FC<DataAgeIndicatorProps> = ({
     const status = useMemo((): DataAgeStatus | null => {
         if (!lastTimestamp) return null;
 
-        const lastDate = new Date(lastTimestamp);
-        const now = new Date();
-        const diffMs = now.getTime() - lastDate.getTime();
+        // Both sides on the plant's naive wall clock, whatever the browser's timezone
+        const diffMs = Math.max(0, plantNowMs() - parseNaiveTimestamp(lastTimestamp));
         const diffMinutes = Math.floor(diffMs / (1000 * 60));
         const diffHours = Math.floor(diffMinutes / 60);
         const diffDays = Math.floor(diffHours / 24);
@@ -76,7 +77,7 @@ export const DataAgeIndicator: React.FC<DataAgeIndicatorProps> = ({
     return (
         <div
             className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[10px] font-semibold tracking-tight ${status.className}`}
-            title={`Last data point: ${new Date(lastTimestamp!).toLocaleString()}. Auto-refresh is ${autoRefresh ? 'ON' : 'OFF'}.`}
+            title={`Last data point: ${formatNaiveTimestamp(parseNaiveTimestamp(lastTimestamp!)).slice(0, 19)} (${getPlantTimeZone()}). Auto-refresh is ${autoRefresh ? 'ON' : 'OFF'}.`}
         >
             {status.icon}
             <span className="uppercase">{status.description}</span>
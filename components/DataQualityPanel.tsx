@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { DataQualityReport, MotorDataQuality } from '../types';
+import { getDataQuality, DataServiceError, MotorDataOptions } from '../services/dataService';
+
+interface DataQualityPanelProps {
+  zone: string;
+  line: string;
+  motor: string; // Highlighted in the line table
+  weeks: string[];
+  days: number[];
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'>;
+  loadNonce: number; // Reloads together with the charts
+}
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(0)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+const cellClass = 'px-2 py-1 text-right font-mono';
+const warnClass = 'text-amber-600 font-bold';
+
+// null = the logger column behind the check does not exist
+const Count: React.FC<{ value: number | null; missingTitle: string }> = ({ value, missingTitle }) => (
+  value === null
+    ? <td className={`${cellClass} text-[var(--text-tertiary)]`} title={missingTitle}>—</td>
+    : <td className={`${cellClass} ${value > 0 ? warnClass : ''}`}>{value}</td>
+);
+
+const impossibleTotal = (m: MotorDataQuality) =>
+  m.negativeCurrent + m.missingLimit + m.implausibleCurrent + m.zeroCurrentWhileOn + m.invalidRunningTime;
+
+const impossibleTitle = (m: MotorDataQuality) =>
+  `Ujemny prąd: ${m.negativeCurrent}, brak limitu: ${m.missingLimit}, nierealny prąd: ${m.implausibleCurrent}, ` +
+  `0 A przy ON: ${m.zeroCurrentWhileOn}, błędny RunningTime: ${m.invalidRunningTime}`;
+
+// Logging gaps, ingest lag, duplicates and impossible values for every motor of the line
+export const DataQualityPanel: React.FC<DataQualityPanelProps> = ({ zone, line, motor, weeks, days, options, loadNonce }) => {
+  const [report, setReport] = useState<DataQualityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loadNonce === 0) return;
+    let isMounted = true;
+    setLoading(true);
+
+    getDataQuality(zone, line, null, weeks, days, options)
+      .then(result => {
+        if (!isMounted) return;
+        setReport(result);
+        setError(null);
+      })
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load the data quality report'))
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [zone, line, weeks, days, options, loadNonce]);
+
+  if (loadNonce === 0) return null;
+
+  const noBuffer = 'Brak kolumny BufferIndex w MotorLogs';
+  const noRecordedAt = 'Brak kolumny RecordedAt w MotorLogs';
+
+  return (
+    <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)] text-sm">
+          <ShieldAlert className="h-4 w-4 text-[var(--text-tertiary)]" />
+          Data quality - line {line}
+        </h3>
+        {loading ? (
+          <span className="text-[10px] text-[var(--text-tertiary)] uppercase font-bold">Ładowanie...</span>
+        ) : report && (
+          <span className="text-[10px] text-[var(--text-tertiary)]">
+            Gap &gt; {formatDuration(report.thresholds.gapSeconds)}, late &gt; {formatDuration(report.thresholds.lagSeconds)}
+          </span>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : !report || report.motors.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">{loading ? '' : 'Brak danych dla wybranego zakresu'}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-[var(--text-primary)]">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-[var(--text-tertiary)]">
+                <th className="px-2 py-1 text-left" rowSpan={2}>Motor</th>
+                <th className="px-2 py-1 text-right" rowSpan={2}>Samples</th>
+                <th className="px-2 py-1 text-center border-l border-[var(--border-primary)]" colSpan={3}>Gaps</th>
+                <th className="px-2 py-1 text-center border-l border-[var(--border-primary)]" colSpan={3}>Ingest lag</th>
+                <th className="px-2 py-1 text-center border-l border-[var(--border-primary)]" colSpan={4}>Duplicates / order</th>
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]" rowSpan={2}>Impossible</th>
+              </tr>
+              <tr className="text-[10px] uppercase tracking-wider text-[var(--text-tertiary)] border-b border-[var(--border-primary)]">
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]">Count</th>
+                <th className="px-2 py-1 text-right">Total</th>
+                <th className="px-2 py-1 text-right">Longest</th>
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]">Avg</th>
+                <th className="px-2 py-1 text-right">Max</th>
+                <th className="px-2 py-1 text-right">Late rows</th>
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]" title="Ten sam Timestamp co poprzedni wiersz">Timestamp</th>
+                <th className="px-2 py-1 text-right" title="Powtórzony BufferIndex">Buffer</th>
+                <th className="px-2 py-1 text-right" title="BufferIndex mniejszy niż w poprzednim wierszu">Order</th>
+                <th className="px-2 py-1 text-right" title="Reset bufora loggera">Resets</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.motors.map(m => (
+                <tr
+                  key={m.motorName}
+                  className={`border-b border-[var(--border-primary)] last:border-0 ${m.motorName === motor ? 'bg-[var(--bg-tertiary)]' : ''}`}
+                >
+                  <td className={`px-2 py-1 ${m.motorName === motor ? 'font-bold' : 'font-semibold'}`}>{m.motorName}</td>
+                  <td className={cellClass}>{m.samples}</td>
+                  <td className={`${cellClass} border-l border-[var(--border-primary)] ${m.gaps > 0 ? warnClass : ''}`}>{m.gaps}</td>
+                  <td className={cellClass}>{m.gaps > 0 ? formatDuration(m.gapSeconds) : '-'}</td>
+                  <td className={cellClass}>{m.gaps > 0 ? formatDuration(m.longestGapSeconds) : '-'}</td>
+                  <td className={`${cellClass} border-l border-[var(--border-primary)]`} title={report.checks.recordedAt ? undefined : noRecordedAt}>
+                    {m.avgLagSeconds === null ? '—' : formatDuration(m.avgLagSeconds)}
+                  </td>
+                  <td className={cellClass} title={report.checks.recordedAt ? undefined : noRecordedAt}>
+                    {m.maxLagSeconds === null ? '—' : formatDuration(m.maxLagSeconds)}
+                  </td>
+                  <Count value={m.lateRows} missingTitle={noRecordedAt} />
+                  <td className={`${cellClass} border-l border-[var(--border-primary)] ${m.duplicateTimestamps > 0 ? warnClass : ''}`}>{m.duplicateTimestamps}</td>
+                  <Count value={m.duplicateBufferIndex} missingTitle={noBuffer} />
+                  <Count value={m.outOfOrderBufferIndex} missingTitle={noBuffer} />
+                  <Count value={m.bufferResets} missingTitle={noBuffer} />
+                  <td
+                    className={`${cellClass} border-l border-[var(--border-primary)] ${impossibleTotal(m) > 0 ? 'text-rose-600 font-bold' : ''}`}
+                    title={impossibleTitle(m)}
+                  >
+                    {impossibleTotal(m)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,149 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { ShiftDefinition, TimeRange } from '../types';
+import { formatNaiveTimestamp, parseNaiveTimestamp } from '../services/dataService';
+import { lastCompletedShift, DEFAULT_SHIFTS } from '../services/cycleStats';
+import { plantNowMs } from '../services/plantTime';
+
+interface DateRangePickerProps {
+  value: TimeRange | null;
+  onApply: (range: TimeRange) => void;
+  shifts?: ShiftDefinition[]; // For the "Last shift" preset
+  disabled?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface RangePreset {
+  label: string;
+  title: string;
+  resolve: (now: number, shifts: ShiftDefinition[]) => TimeRange | null;
+}
+
+const PRESETS: RangePreset[] = [
+  {
+    label: 'Last shift',
+    title: 'Ostatnia zakończona zmiana',
+    resolve: (now, shifts) => lastCompletedShift(now, shifts)
+  },
+  { label: 'Last 24h', title: 'Ostatnie 24 godziny', resolve: (now) => ({ start: now - DAY_MS, end: now }) },
+  {
+    label: 'Yesterday',
+    title: 'Wczoraj 00:00 - 24:00',
+    resolve: (now) => {
+      const today = Math.floor(now / DAY_MS) * DAY_MS;
+      return { start: today - DAY_MS, end: today - 1000 };
+    }
+  },
+  {
+    label: 'Today',
+    title: 'Dzisiaj od 00:00',
+    resolve: (now) => ({ start: Math.floor(now / DAY_MS) * DAY_MS, end: now })
+  }
+];
+
+// datetime-local value: "yyyy-MM-ddTHH:mm:ss"
+const toInputValue = (ms: number) => formatNaiveTimestamp(ms).replace(' ', 'T').slice(0, 19);
+
+const fromInputValue = (value: string): number | null => {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/.test(value)) return null;
+  return parseNaiveTimestamp(value.length === 16 ? `${value}:00` : value);
+};
+
+const inputClass = 'w-full px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-xs text-[var(--text-primary)]';
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onApply, shifts = DEFAULT_SHIFTS, disabled = false }) => {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Start from the active range, or the last 24h
+  useEffect(() => {
+    if (!open) return;
+    const initial = value ?? PRESETS[1].resolve(plantNowMs(), shifts)!;
+    setFrom(toInputValue(initial.start));
+    setTo(toInputValue(initial.end));
+  }, [open, value, shifts]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const start = fromInputValue(from);
+  const end = fromInputValue(to);
+  const validationError = start === null || end === null
+    ? 'Podaj początek i koniec zakresu'
+    : start >= end ? 'Początek musi być przed końcem' : null;
+
+  const apply = (range: TimeRange) => {
+    setOpen(false);
+    onApply(range);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className={`flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${value
+          ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+          : 'bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]'
+          }`}
+        title="Zakres dat od/do zamiast tygodni i dni"
+      >
+        <CalendarClock className="h-3.5 w-3.5" />
+        Range
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-72 p-3 space-y-2 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded shadow-[var(--shadow-md)] z-50">
+          <div className="flex flex-wrap gap-1">
+            {PRESETS.map(preset => {
+              const range = preset.resolve(plantNowMs(), shifts);
+              return (
+                <button
+                  key={preset.label}
+                  onClick={() => range && apply(range)}
+                  disabled={!range}
+                  className="px-2 py-0.5 rounded border border-[var(--border-primary)] text-xs font-semibold text-[var(--text-secondary)] hover:bg-[var(--bg-tertiary)] disabled:opacity-50"
+                  title={preset.title}
+                >
+                  {preset.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <label className="block text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">
+            From
+            <input type="datetime-local" step={1} className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="block text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">
+            To
+            <input type="datetime-local" step={1} className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} />
+          </label>
+
+          {validationError && <p className="text-[10px] text-rose-600">{validationError}</p>}
+
+          <button
+            onClick={() => start !== null && end !== null && apply({ start, end })}
+            disabled={validationError !== null}
+            className="w-full px-2 py-1 rounded border text-xs font-bold bg-blue-600 text-white border-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Ładuj zakres
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
@@ -0,0 +1,65 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  onExportLoaded: (format: ExportFormat) => void; // Data currently in the charts
+  serverExportUrl?: (format: ExportFormat) => string; // Full-resolution stream from the API (manual selection only)
+  disabled?: boolean;
+}
+
+const itemClass = 'w-full text-left px-3 py-1.5 text-xs text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)]';
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExportLoaded, serverExportUrl, disabled = false }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const exportLoaded = (format: ExportFormat) => {
+    setOpen(false);
+    onExportLoaded(format);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)] disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Eksportuj dane"
+      >
+        <Download className="h-3.5 w-3.5" />
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-1 w-56 py-1 bg-[var(--bg-card)] border border-[var(--border-primary)] rounded shadow-[var(--shadow-md)] z-50">
+          <div className="px-3 py-1 text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">Loaded data</div>
+          <button className={itemClass} onClick={() => exportLoaded('csv')}>CSV</button>
+          <button className={itemClass} onClick={() => exportLoaded('xlsx')}>Excel (XLSX)</button>
+
+          {serverExportUrl && (
+            <>
+              <div className="px-3 py-1 mt-1 border-t border-[var(--border-primary)] text-[10px] uppercase font-bold tracking-wider text-[var(--text-tertiary)]">
+                Full resolution (server)
+              </div>
+              <a className={`${itemClass} block`} href={serverExportUrl('csv')} onClick={() => setOpen(false)}>CSV</a>
+              <a className={`${itemClass} block`} href={serverExportUrl('xlsx')} onClick={() => setOpen(false)}>Excel (XLSX)</a>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Activity, ChevronRight, Home, Database, Wifi, WifiOff } from 'lucide-react';
+import { Activity, ChevronRight, Home, Database, Wifi, WifiOff, Bell, Globe, MonitorPlay } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
 
 interface LayoutProps {
@@ -8,6 +8,10 @@ interface LayoutProps {
   theme: 'light' | 'dark' | 'system';
   onThemeChange: (theme: 'light' | 'dark' | 'system') => void;
   apiConnected?: boolean;
+  plantTimezone?: string; // All timestamps are plant-local wall clock in this zone
+  activeAlertCount?: number;
+  onAlertsClick?: () => void;
+  onOverviewClick?: () => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({
@@ -15,7 +19,11 @@ export const Layout: React.FC<LayoutProps> = ({
   breadcrumbs,
   theme,
   onThemeChange,
-  apiConnected = true
+  apiConnected = true,
+  plantTimezone,
+  activeAlertCount = 0,
+  onAlertsClick,
+  onOverviewClick
 }) => {
   return (
     <div className="min-h-screen bg-[var(--bg-primary)] text-[var(--text-primary)] flex flex-col transition-colors duration-300">
@@ -37,6 +45,16 @@ export const Layout: React.FC<LayoutProps> = ({
           </div>
 
           <div className="flex items-center gap-4">
+            {plantTimezone && (
+              <div
+                className="hidden sm:flex items-center gap-1 text-[10px] font-semibold text-[var(--text-tertiary)]"
+                title="Strefa czasowa zakładu - wszystkie godziny są czasem lokalnym zakładu"
+              >
+                <Globe className="h-3 w-3" />
+                <span>{plantTimezone}</span>
+              </div>
+            )}
+
             {/* API Status Indicator */}
             <div className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-[10px] font-semibold uppercase tracking-wider ${apiConnected
                 ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400 border border-emerald-200 dark:border-emerald-800'
@@ -55,6 +73,33 @@ export const Layout: React.FC<LayoutProps> = ({
               )}
             </div>
 
+            {/* Plant overview wall */}
+            {onOverviewClick && (
+              <button
+                onClick={onOverviewClick}
+                className="p-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors"
+                title="Podgląd zakładu"
+              >
+                <MonitorPlay className="h-5 w-5" />
+              </button>
+            )}
+
+            {/* Alert inbox */}
+            {onAlertsClick && (
+              <button
+                onClick={onAlertsClick}
+                className="relative p-2 rounded-lg text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)] transition-colors"
+                title="Alerty"
+              >
+                <Bell className="h-5 w-5" />
+                {activeAlertCount > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-600 text-white text-[10px] font-bold flex items-center justify-center">
+                    {activeAlertCount > 99 ? '99+' : activeAlertCount}
+                  </span>
+                )}
+              </button>
+            )}
+
             {/* Theme Toggle */}
             <ThemeToggle theme={theme} onThemeChange={onThemeChange} />
 
@@ -1,12 +1,24 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
 import ReactECharts from 'echarts-for-react';
 import * as echarts from 'echarts';
-import { MotorLog } from '../types';
-import { Table, X, Clock, AlertCircle } from 'lucide-react';
+import { MotorLog, ShiftDefinition, TimeRange, MotorAnomaly, MotorAnomalyType, DataGap } from '../types';
+import { Table, X, Clock, AlertCircle, Download } from 'lucide-react';
+import { CycleStatsPanel } from './CycleStatsPanel';
+import { exportOnOffTable, ExportContext, ExportFormat } from '../services/exportService';
+import { plantNowMs } from '../services/plantTime';
+import { parseNaiveTimestamp } from '../services/dataService';
 
 interface MotorChartsProps {
   data: MotorLog[];
   autoRefresh?: boolean;
+  zoomRange?: TimeRange | null; // Manual mode zoom to keep when data is replaced
+  onZoomChange?: (range: TimeRange | null) => void; // null = full range
+  exportContext?: ExportContext; // Enables CSV/XLSX export of the ON/OFF table
+  shifts?: ShiftDefinition[]; // Plant shifts for the duty cycle per shift
+  liveWindowMinutes?: number; // AUTO mode: visible trailing window
+  refreshIntervalMs?: number; // AUTO mode: how often the window moves forward
+  anomalies?: MotorAnomaly[]; // Markers on the motor current chart
+  gaps?: DataGap[]; // Logging gaps, shaded on all three charts
 }
 
 const formatRunningTime = (seconds: number): string => {
@@ -24,30 +36,12 @@ const formatRunningTime = (seconds: number): string => {
 // Group ID for chart synchronization
 const CHART_GROUP = 'motor-charts-group';
 
-// Parse timestamp string as "naive" - returns UTC ms where UTC values match the DB string
-// This ensures we display exactly what's in the database
-const parseNaiveTimestamp = (timestamp: string | number): number => {
-  if (typeof timestamp === 'number') return timestamp;
-  if (!timestamp) return Date.now();
-  
-  // Handle format: "2024-01-28 14:30:00.000" or "2024-01-28T14:30:00.000"
-  const normalized = String(timestamp).replace(' ', 'T').replace(/Z$/, '');
-  
-  const match = normalized.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/);
-  if (match) {
-    const [, year, month, day, hours, minutes, seconds, ms = '0'] = match;
-    return Date.UTC(
-      parseInt(year),
-      parseInt(month) - 1,
-      parseInt(day),
-      parseInt(hours),
-      parseInt(minutes),
-      parseInt(seconds),
-      parseInt(ms.padEnd(3, '0'))
-    );
-  }
-  
-  return new Date(normalized).getTime();
+// Spikes are pins at the peak, the other anomaly types shaded stretches
+const ANOMALY_STYLES: Record<MotorAnomalyType, { label: string; color: string; area: string }> = {
+  spike: { label: 'Spike', color: '#ef4444', area: 'rgba(239, 68, 68, 0.15)' },
+  plateau: { label: 'Plateau', color: '#f97316', area: 'rgba(249, 115, 22, 0.15)' },
+  current_while_off: { label: 'Prąd przy OFF', color: '#eab308', area: 'rgba(234, 179, 8, 0.2)' },
+  zero_while_on: { label: '0 A przy ON', color: '#64748b', area: 'rgba(100, 116, 139, 0.2)' }
 };
 
 // Format timestamp for tooltip - displays using UTC to show exact database value
@@ -81,21 +75,6 @@ const formatTableTimestamp = (timestampMs: number): string => {
   return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}.${ms}`;
 };
 
-// Get current local time as "naive UTC" (local time values stored as UTC)
-// This matches our data format where database local times are stored as UTC
-const getNowAsNaiveUTC = (): number => {
-  const now = new Date();
-  return Date.UTC(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate(),
-    now.getHours(),
-    now.getMinutes(),
-    now.getSeconds(),
-    now.getMilliseconds()
-  );
-};
-
 export interface MotorChartsHandle {
   resetZoom: () => void;
 }
@@ -106,9 +85,19 @@ const getCSSVar = (name: string, fallback: string): string => {
   return getComputedStyle(document.documentElement).getPropertyValue(name).trim() || fallback;
 };
 
-export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>(({ data, autoRefresh = false }, ref) => {
+// Debounce for reporting zoom changes (wheel zoom fires many events)
+const ZOOM_REPORT_DELAY_MS = 400;
+
+export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>(({ data, autoRefresh = false, zoomRange = null, onZoomChange, exportContext, shifts, liveWindowMinutes = 10, refreshIntervalMs = 10000, anomalies = [], gaps = [] }, ref) => {
   const [showOnOffTable, setShowOnOffTable] = useState(false);
 
+  // Read zoom through refs so zooming itself does not rebuild the chart options
+  const zoomRangeRef = useRef(zoomRange);
+  zoomRangeRef.current = zoomRange;
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+  const zoomTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
   // Refs for chart instances
   const chart1Ref = useRef<ReactECharts>(null);
   const chart2Ref = useRef<ReactECharts>(null);
@@ -132,21 +121,21 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
     return () => clearTimeout(timer);
   }, [data]);
 
-  // Calculate 10-minute window based on current reference time.
+  // Calculate the live window based on current reference time.
   // In auto mode, we anchor to the latest data timestamp (so stale data still shows);
   // otherwise we use wall-clock now.
-  const [currentTime, setCurrentTime] = useState(getNowAsNaiveUTC());
+  const [currentTime, setCurrentTime] = useState(plantNowMs());
 
-  // Update current time every 10 seconds (synced with auto-refresh)
+  // Update current time on the refresh interval (synced with auto-refresh)
   useEffect(() => {
     if (!autoRefresh) return;
 
     const interval = setInterval(() => {
-      setCurrentTime(getNowAsNaiveUTC());
-    }, 10000);
+      setCurrentTime(plantNowMs());
+    }, refreshIntervalMs);
 
     return () => clearInterval(interval);
-  }, [autoRefresh]);
+  }, [autoRefresh, refreshIntervalMs]);
 
   // Anchor auto mode to latest data timestamp so historical datasets still display
   useEffect(() => {
@@ -155,28 +144,27 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
       const last = data[data.length - 1];
       setCurrentTime(last.timestampObj ?? parseNaiveTimestamp(last.timestamp));
     } else {
-      setCurrentTime(getNowAsNaiveUTC());
+      setCurrentTime(plantNowMs());
     }
   }, [autoRefresh, data]);
 
-  const getLast10MinRange = useMemo(() => {
+  const liveRange = useMemo(() => {
     const now = currentTime;
-    const tenMinutes = 10 * 60 * 1000;
-    const startTs = now - tenMinutes;
+    const startTs = now - liveWindowMinutes * 60 * 1000;
 
     return { startValue: startTs, endValue: now };
-  }, [currentTime]);
+  }, [currentTime, liveWindowMinutes]);
 
-  // Auto-zoom to current 10-minute window when:
+  // Auto-zoom to the current live window when:
   // 1. Component mounts (initial render)
-  // 2. currentTime updates (every 10 seconds when autoRefresh is ON)
+  // 2. currentTime updates (every refresh interval when autoRefresh is ON)
   // 3. autoRefresh is enabled
   useEffect(() => {
     // Only apply zoom if autoRefresh is ON.
     // If OFF, we want to let the user see the full data or zoom manually.
     if (!autoRefresh) return;
 
-    const range = getLast10MinRange;
+    const range = liveRange;
 
     const applyZoom = () => {
       const charts = [
@@ -199,16 +187,15 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
     // Small delay to ensure charts are ready
     const timer = setTimeout(applyZoom, 100);
     return () => clearTimeout(timer);
-  }, [currentTime, getLast10MinRange]);
+  }, [currentTime, liveRange]);
 
-  // Manual reset zoom to last 10 minutes (from NOW)
+  // Manual reset zoom to the live window (from NOW)
   const handleResetZoom = () => {
     // Update current time to NOW when manually resetting
-    const now = getNowAsNaiveUTC();
+    const now = plantNowMs();
     setCurrentTime(now);
 
-    const tenMinutes = 10 * 60 * 1000;
-    const range = { startValue: now - tenMinutes, endValue: now };
+    const range = { startValue: now - liveWindowMinutes * 60 * 1000, endValue: now };
 
     const charts = [
       chart1Ref.current?.getEchartsInstance(),
@@ -227,6 +214,40 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
     });
   };
 
+  // Report the visible window (manual mode) so the parent can fetch finer detail
+  const chartEvents = useMemo(() => {
+    const reportZoom = () => {
+      if (zoomTimerRef.current) clearTimeout(zoomTimerRef.current);
+      zoomTimerRef.current = setTimeout(() => {
+        const chart = chart1Ref.current?.getEchartsInstance();
+        if (!chart || data.length === 0 || !onZoomChangeRef.current) return;
+
+        const dz = (chart.getOption() as any).dataZoom?.[0];
+        if (!dz) return;
+
+        const first = data[0].timestampObj;
+        const last = data[data.length - 1].timestampObj;
+        const start = typeof dz.startValue === 'number' ? dz.startValue : first + (last - first) * (dz.start ?? 0) / 100;
+        const end = typeof dz.endValue === 'number' ? dz.endValue : first + (last - first) * (dz.end ?? 100) / 100;
+
+        onZoomChangeRef.current(start <= first && end >= last ? null : { start, end });
+      }, ZOOM_REPORT_DELAY_MS);
+    };
+
+    return {
+      datazoom: () => {
+        if (!autoRefresh) reportZoom();
+      },
+      restore: () => {
+        if (!autoRefresh) onZoomChangeRef.current?.(null);
+      }
+    };
+  }, [data, autoRefresh]);
+
+  useEffect(() => () => {
+    if (zoomTimerRef.current) clearTimeout(zoomTimerRef.current);
+  }, []);
+
   // Expose resetZoom via ref
   React.useImperativeHandle(ref, () => ({
     resetZoom: handleResetZoom
@@ -280,12 +301,16 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
     const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
 
     // FORCE the time axis to show CURRENT TIME, not data time
-    const timeRange = getLast10MinRange;
+    const timeRange = liveRange;
 
-    // Only force zoom/axis if autoRefresh is ON
+    // Only force zoom/axis if autoRefresh is ON; manual mode keeps the user's zoom
+    const manualZoom = zoomRangeRef.current;
     const zoomConfig = autoRefresh ? {
       startValue: timeRange.startValue,
       endValue: timeRange.endValue
+    } : manualZoom ? {
+      startValue: manualZoom.start,
+      endValue: manualZoom.end
     } : {
       start: 0,
       end: 100
@@ -352,6 +377,20 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
     };
   };
 
+  // Logging gaps - shaded so missing data is not read as a stopped (or still running) motor
+  const gapMarkArea = useMemo(() => ({
+    silent: true,
+    label: { position: 'insideTop', fontSize: 9, color: '#64748b' },
+    data: gaps.map(g => [
+      {
+        name: g.onBefore ? 'Brak danych (ON)' : 'Brak danych',
+        xAxis: parseNaiveTimestamp(g.start),
+        itemStyle: { color: 'rgba(148, 163, 184, 0.25)' }
+      },
+      { xAxis: parseNaiveTimestamp(g.end) }
+    ])
+  }), [gaps]);
+
   // Chart 1: Avg Current & Max Limit
   const chart1Options = useMemo(() => {
     const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
@@ -421,7 +460,8 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
           data: chartData.map(d => [d.timestampMs, d.avgCurrent]),
           itemStyle: {
             color: '#0ea5e9'
-          }
+          },
+          markArea: gapMarkArea
         },
         {
           name: 'Max Limit',
@@ -437,7 +477,31 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
         }
       ]
     };
-  }, [chartData, getLast10MinRange, autoRefresh]);
+  }, [chartData, liveRange, autoRefresh, gapMarkArea]);
+
+  const anomalyMarkers = useMemo(() => {
+    const points: any[] = [];
+    const areas: any[] = [];
+    for (const a of anomalies) {
+      const style = ANOMALY_STYLES[a.type];
+      const start = parseNaiveTimestamp(a.start);
+      if (a.type === 'spike') {
+        points.push({ name: style.label, coord: [start, a.peak], value: a.peak, itemStyle: { color: style.color } });
+      } else {
+        areas.push([
+          { name: style.label, xAxis: start, itemStyle: { color: style.area } },
+          { xAxis: parseNaiveTimestamp(a.end) }
+        ]);
+      }
+    }
+    return { points, areas };
+  }, [anomalies]);
+
+  const anomalyCounts = useMemo(() => {
+    const counts = new Map<MotorAnomalyType, number>();
+    anomalies.forEach(a => counts.set(a.type, (counts.get(a.type) ?? 0) + 1));
+    return [...counts.entries()];
+  }, [anomalies]);
 
   // Chart 2: Real-time Motor Current
   const chart2Options = useMemo(() => {
@@ -506,11 +570,21 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
             width: 2
           },
           showSymbol: false,
-          data: chartData.map(d => [d.timestampMs, d.motorCurrent])
+          data: chartData.map(d => [d.timestampMs, d.motorCurrent]),
+          markPoint: {
+            symbol: 'pin',
+            symbolSize: 28,
+            label: { fontSize: 9, formatter: (p: any) => p.value.toFixed(1) },
+            data: anomalyMarkers.points
+          },
+          markArea: {
+            ...gapMarkArea,
+            data: [...gapMarkArea.data, ...anomalyMarkers.areas]
+          }
         }
       ]
     };
-  }, [chartData, getLast10MinRange, autoRefresh]);
+  }, [chartData, liveRange, autoRefresh, anomalyMarkers, gapMarkArea]);
 
   // Chart 3: ON/OFF Status
   const chart3Options = useMemo(() => {
@@ -581,11 +655,12 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
             width: 2
           },
           showSymbol: false,
-          data: onOffData.map(d => [d.timestampMs, d.value])
+          data: onOffData.map(d => [d.timestampMs, d.value]),
+          markArea: gapMarkArea
         }
       ]
     };
-  }, [onOffData, getLast10MinRange, autoRefresh]);
+  }, [onOffData, liveRange, autoRefresh, gapMarkArea]);
 
   if (!data || data.length === 0) {
     return (
@@ -595,7 +670,7 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
         <p className="text-sm mt-2">Try selecting a different Production Week or Day.</p>
         <div className="mt-4 flex items-center gap-2 text-xs bg-[var(--bg-card)] px-3 py-2 rounded-lg border border-[var(--border-primary)]">
           <Clock className="h-4 w-4" />
-          <span>Auto-refresh will fetch new data every 10 seconds</span>
+          <span>Auto-refresh will fetch new data every {Math.round(refreshIntervalMs / 1000)} seconds</span>
         </div>
       </div>
     );
@@ -622,6 +697,7 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
         <ReactECharts
           ref={chart1Ref}
           option={chart1Options}
+          onEvents={chartEvents}
           style={{ height: '300px', width: '100%' }}
           opts={{ renderer: 'canvas' }}
           notMerge={true}
@@ -634,10 +710,23 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
 
       {/* Chart 2: Real-time Motor Current */}
       <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
-        <h3 className="font-semibold text-[var(--text-primary)] text-sm mb-1">Real-time Motor Current</h3>
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-semibold text-[var(--text-primary)] text-sm">Real-time Motor Current</h3>
+          {anomalyCounts.length > 0 && (
+            <div className="flex items-center gap-2 text-[10px] font-semibold text-[var(--text-secondary)]" title="Anomalie względem kroczącej linii bazowej silnika">
+              {anomalyCounts.map(([type, count]) => (
+                <span key={type} className="flex items-center gap-1">
+                  <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: ANOMALY_STYLES[type].color }} />
+                  {ANOMALY_STYLES[type].label} {count}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
         <ReactECharts
           ref={chart2Ref}
           option={chart2Options}
+          onEvents={chartEvents}
           style={{ height: '250px', width: '100%' }}
           opts={{ renderer: 'canvas' }}
           notMerge={true}
@@ -652,6 +741,18 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
       <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
         <div className="flex justify-between items-center mb-2">
           <h3 className="font-semibold text-[var(--text-primary)] text-sm">Operational Status (ON/OFF)</h3>
+          <div className="flex items-center gap-1">
+          {showOnOffTable && exportContext && (['csv', 'xlsx'] as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => exportOnOffTable(onOffData, exportContext, format)}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs bg-[var(--bg-tertiary)] text-[var(--text-secondary)] hover:bg-emerald-100 hover:text-emerald-700 dark:hover:bg-emerald-900/30 dark:hover:text-emerald-400 transition-colors"
+              title="Eksportuj tabelę ON/OFF"
+            >
+              <Download className="h-3 w-3" />
+              {format.toUpperCase()}
+            </button>
+          ))}
           <button
             onClick={() => setShowOnOffTable(!showOnOffTable)}
             className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${showOnOffTable
@@ -662,6 +763,7 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
             {showOnOffTable ? <X className="h-3 w-3" /> : <Table className="h-3 w-3" />}
             {showOnOffTable ? 'Hide' : 'Table'}
           </button>
+          </div>
         </div>
 
         {/* ON/OFF Table */}
@@ -692,17 +794,27 @@ export const MotorCharts = React.forwardRef<MotorChartsHandle, MotorChartsProps>
           </div>
         )}
 
-        <ReactECharts
-          ref={chart3Ref}
-          option={chart3Options}
-          style={{ height: '250px', width: '100%' }}
-          opts={{ renderer: 'canvas' }}
-          notMerge={true}
-          lazyUpdate={true}
-          onChartReady={(chart) => {
-            chart.group = CHART_GROUP;
-          }}
-        />
+        <div className="flex flex-col lg:flex-row gap-3">
+          <div className="flex-1 min-w-0">
+            <ReactECharts
+              ref={chart3Ref}
+              option={chart3Options}
+              onEvents={chartEvents}
+              style={{ height: '250px', width: '100%' }}
+              opts={{ renderer: 'canvas' }}
+              notMerge={true}
+              lazyUpdate={true}
+              onChartReady={(chart) => {
+                chart.group = CHART_GROUP;
+              }}
+            />
+          </div>
+
+          {/* Cycle statistics for the loaded series */}
+          <div className="lg:w-72 lg:border-l border-[var(--border-primary)] lg:pl-3">
+            <CycleStatsPanel points={onOffData} shifts={shifts} />
+          </div>
+        </div>
       </div>
 
     </div>
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, X } from 'lucide-react';
+import { LineData, MotorRef } from '../types';
+import { getMotors } from '../services/dataService';
+import { OVERLAY_COLORS } from './OverlayCharts';
+import { motorLabel } from '../services/overlaySeries';
+
+interface MotorComparePickerProps {
+  zone: string;
+  lines: LineData[]; // Lines of the zone - motors can be added across lines
+  currentLine: string;
+  currentLineMotors: string[];
+  selected: MotorRef[];
+  onChange: (motors: MotorRef[]) => void;
+}
+
+const selectClass = 'px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-xs font-semibold text-[var(--text-primary)]';
+
+const sameMotor = (a: MotorRef, b: MotorRef) => a.zone === b.zone && a.line === b.line && a.motor === b.motor;
+
+export const MotorComparePicker: React.FC<MotorComparePickerProps> = ({
+  zone,
+  lines,
+  currentLine,
+  currentLineMotors,
+  selected,
+  onChange
+}) => {
+  const [line, setLine] = useState(currentLine);
+  const [motors, setMotors] = useState<string[]>(currentLineMotors);
+  const [motor, setMotor] = useState('');
+
+  useEffect(() => {
+    if (line === currentLine) {
+      setMotors(currentLineMotors);
+      return;
+    }
+    let isMounted = true;
+    getMotors(zone, line)
+      .then(list => isMounted && setMotors(list))
+      .catch(() => isMounted && setMotors([]));
+    return () => {
+      isMounted = false;
+    };
+  }, [zone, line, currentLine, currentLineMotors]);
+
+  const candidates = motors.filter(m => !selected.some(s => sameMotor(s, { zone, line, motor: m })));
+  const isFull = selected.length >= OVERLAY_COLORS.length;
+  const showLine = new Set(selected.map(s => s.line)).size > 1;
+
+  const handleAdd = () => {
+    const name = motor || candidates[0];
+    if (!name || isFull) return;
+    onChange([...selected, { zone, line, motor: name }]);
+    setMotor('');
+  };
+
+  return (
+    <div className="bg-[var(--bg-card)] p-2 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)] flex flex-wrap items-center gap-2">
+      <span className="text-xs text-[var(--text-secondary)] uppercase font-bold tracking-tight">Compare:</span>
+
+      {selected.map((m, idx) => (
+        <span
+          key={`${m.zone}|${m.line}|${m.motor}`}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-[var(--border-primary)] bg-[var(--bg-tertiary)] text-xs font-semibold text-[var(--text-primary)]"
+        >
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: OVERLAY_COLORS[idx % OVERLAY_COLORS.length] }} />
+          {motorLabel(m, showLine)}
+          {selected.length > 1 && (
+            <button
+              onClick={() => onChange(selected.filter(s => !sameMotor(s, m)))}
+              className="text-[var(--text-tertiary)] hover:text-rose-600"
+              title="Usuń z porównania"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+
+      <div className="flex items-center gap-1 ml-2">
+        <select className={selectClass} value={line} onChange={(e) => { setLine(e.target.value); setMotor(''); }}>
+          {lines.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
+        </select>
+        <select className={selectClass} value={motor} onChange={(e) => setMotor(e.target.value)} disabled={candidates.length === 0}>
+          {candidates.map(m => <option key={m} value={m}>{m}</option>)}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={isFull || candidates.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold bg-blue-600 text-white border-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          title={isFull ? `Maksymalnie ${OVERLAY_COLORS.length} silników` : 'Dodaj silnik do porównania'}
+        >
+          <Plus className="h-3 w-3" /> Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MotorComparePicker;
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HeartPulse, ChevronUp, ChevronDown, RefreshCw } from 'lucide-react';
+import { LineData, MotorHealth } from '../types';
+import { getMotorHealth, DataServiceError } from '../services/dataService';
+
+interface MotorHealthTableProps {
+  lines: LineData[];
+  onOpenMotor: (line: LineData, motorName: string) => void; // Click-through into MOTOR_DETAIL
+}
+
+type SortKey = 'rank' | 'motorName' | 'breachRate' | 'loadTrend' | 'startsPerDay' | 'gapRatio' | 'lastTimestamp';
+
+const WINDOW_OPTIONS = [1, 7, 30];
+const WORST_HIGHLIGHT = 3; // Top of the ranking gets a marker when it is not "good"
+
+const gradeClasses: Record<MotorHealth['grade'], string> = {
+  good: 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-800',
+  watch: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800',
+  poor: 'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/30 dark:text-rose-300 dark:border-rose-800'
+};
+
+const selectClass = 'px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)]';
+const cellClass = 'px-2 py-1 text-right font-mono';
+
+const COLUMNS: { key: SortKey; label: string; title: string; align?: 'left' }[] = [
+  { key: 'rank', label: 'Score', title: 'Wynik 0-100, im niżej tym gorzej' },
+  { key: 'motorName', label: 'Motor', title: 'Silnik', align: 'left' },
+  { key: 'breachRate', label: 'Breaches', title: 'Próbki powyżej limitu prądu' },
+  { key: 'loadTrend', label: 'Load trend', title: 'Zmiana obciążenia (% limitu) między pierwszą a drugą połową okna' },
+  { key: 'startsPerDay', label: 'Starts/day', title: 'Załączenia na dobę' },
+  { key: 'gapRatio', label: 'Gaps', title: 'Część okna bez danych' },
+  { key: 'lastTimestamp', label: 'Last data', title: 'Ostatnia próbka', align: 'left' }
+];
+
+const sortValue = (motor: MotorHealth, key: SortKey): number | string => {
+  if (key === 'loadTrend') return motor.loadTrend ?? -Infinity;
+  if (key === 'lastTimestamp') return motor.lastTimestamp ?? '';
+  return motor[key];
+};
+
+const penaltyTitle = (motor: MotorHealth) =>
+  `Kary: przekroczenia -${motor.penalties.breaches}, trend -${motor.penalties.trend}, ` +
+  `załączenia -${motor.penalties.starts}, luki -${motor.penalties.gaps}`;
+
+// Ranked health scores for one line of the zone, worst first; sortable by any column
+export const MotorHealthTable: React.FC<MotorHealthTableProps> = ({ lines, onOpenMotor }) => {
+  const [lineName, setLineName] = useState(lines[0]?.name ?? '');
+  const [days, setDays] = useState(7);
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+  const [sortAsc, setSortAsc] = useState(true);
+  const [motors, setMotors] = useState<MotorHealth[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadNonce, setReloadNonce] = useState(0);
+
+  // Zone changed - fall back to its first line
+  useEffect(() => {
+    if (!lines.some(l => l.name === lineName)) setLineName(lines[0]?.name ?? '');
+  }, [lines, lineName]);
+
+  const line = lines.find(l => l.name === lineName);
+
+  useEffect(() => {
+    if (!line) return;
+    let isMounted = true;
+    setLoading(true);
+
+    getMotorHealth(line.zone, line.name, days)
+      .then(result => {
+        if (!isMounted) return;
+        setMotors(result);
+        setError(null);
+      })
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load motor health'))
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [line, days, reloadNonce]);
+
+  const sorted = useMemo(() => {
+    const list = [...motors].sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      return cmp || a.rank - b.rank;
+    });
+    return sortAsc ? list : list.reverse();
+  }, [motors, sortKey, sortAsc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(asc => !asc);
+    } else {
+      setSortKey(key);
+      // Worst first by default: rank/name ascending, the raw metrics descending
+      setSortAsc(key === 'rank' || key === 'motorName');
+    }
+  };
+
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="bg-[var(--bg-card)] p-4 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="flex items-center gap-2 font-semibold text-[var(--text-primary)]">
+          <HeartPulse className="h-5 w-5 text-rose-500" />
+          Motor health ranking
+        </h3>
+        <div className="flex items-center gap-2">
+          <select className={selectClass} value={lineName} onChange={(e) => setLineName(e.target.value)}>
+            {lines.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
+          </select>
+          <select className={selectClass} value={days} onChange={(e) => setDays(Number(e.target.value))} title="Okno oceny">
+            {WINDOW_OPTIONS.map(d => <option key={d} value={d}>{d === 1 ? 'Last 24h' : `Last ${d} days`}</option>)}
+          </select>
+          <button
+            onClick={() => setReloadNonce(n => n + 1)}
+            className="flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]"
+            title="Odśwież"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : sorted.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">{loading ? 'Ładowanie...' : 'Brak silników na tej linii'}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-[var(--text-primary)]">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-[var(--text-tertiary)] border-b border-[var(--border-primary)]">
+                {COLUMNS.map(col => (
+                  <th
+                    key={col.key}
+                    onClick={() => handleSort(col.key)}
+                    className={`px-2 py-1 cursor-pointer select-none hover:text-[var(--text-secondary)] ${col.align === 'left' ? 'text-left' : 'text-right'}`}
+                    title={col.title}
+                  >
+                    <span className="inline-flex items-center gap-0.5">
+                      {col.label}
+                      {sortKey === col.key && (sortAsc ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />)}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(motor => {
+                const isWorst = motor.rank <= WORST_HIGHLIGHT && motor.grade !== 'good';
+                return (
+                  <tr
+                    key={motor.motorName}
+                    onClick={() => line && onOpenMotor(line, motor.motorName)}
+                    className={`border-b border-[var(--border-primary)] last:border-0 cursor-pointer hover:bg-[var(--bg-tertiary)] ${isWorst ? 'bg-rose-50/60 dark:bg-rose-900/10' : ''}`}
+                    title="Otwórz wykresy silnika"
+                  >
+                    <td className={cellClass}>
+                      <span className={`inline-block min-w-[2.5rem] text-center px-1.5 py-0.5 rounded border font-bold ${gradeClasses[motor.grade]}`} title={penaltyTitle(motor)}>
+                        {motor.score}
+                      </span>
+                    </td>
+                    <td className={`px-2 py-1 text-left ${isWorst ? 'font-bold' : 'font-semibold'}`}>
+                      {motor.motorName}
+                      {isWorst && <span className="ml-1 text-[10px] font-bold text-rose-600">#{motor.rank}</span>}
+                    </td>
+                    <td className={`${cellClass} ${motor.breaches > 0 ? 'text-rose-600' : ''}`} title={`${motor.breaches} / ${motor.samples}`}>
+                      {motor.breachRate.toFixed(2)}%
+                    </td>
+                    <td className={`${cellClass} ${(motor.loadTrend ?? 0) > 0 ? 'text-amber-600' : ''}`}>
+                      {motor.loadTrend === null ? '-' : `${motor.loadTrend > 0 ? '+' : ''}${motor.loadTrend.toFixed(1)} pp`}
+                    </td>
+                    <td className={cellClass} title={`${motor.starts} starts`}>{motor.startsPerDay.toFixed(1)}</td>
+                    <td className={`${cellClass} ${motor.gapRatio > 0 ? 'text-[var(--text-secondary)]' : ''}`}>{motor.gapRatio.toFixed(1)}%</td>
+                    <td className="px-2 py-1 text-left font-mono text-[var(--text-secondary)]">
+                      {motor.lastTimestamp ? motor.lastTimestamp.slice(0, 19) : 'No data'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotorHealthTable;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, Pencil, Save, Trash2, X } from 'lucide-react';
+import { MotorInfo, MotorInfoInput, MotorInfoLookup } from '../types';
+import { getMotorInfo, saveMotorInfo, deleteMotorInfo, DataServiceError } from '../services/dataService';
+
+interface MotorNameplateProps {
+  zone: string;
+  line: string;
+  motor: string;
+  onSaved?: (info: MotorInfo | null) => void; // null = entry removed
+}
+
+type FormState = Record<keyof MotorInfoInput, string>;
+
+const EMPTY_FORM: FormState = {
+  ratedCurrent: '',
+  ratedPowerKw: '',
+  motorType: '',
+  manufacturer: '',
+  location: '',
+  installDate: '',
+  assetTag: '',
+  description: ''
+};
+
+const toForm = (info: MotorInfo | null): FormState => info
+  ? (Object.fromEntries(Object.keys(EMPTY_FORM).map(key => [key, String(info[key as keyof MotorInfoInput] ?? '')])) as FormState)
+  : EMPTY_FORM;
+
+const toInput = (form: FormState): MotorInfoInput => ({
+  ratedCurrent: form.ratedCurrent.trim() ? Number(form.ratedCurrent) : null,
+  ratedPowerKw: form.ratedPowerKw.trim() ? Number(form.ratedPowerKw) : null,
+  motorType: form.motorType.trim() || null,
+  manufacturer: form.manufacturer.trim() || null,
+  location: form.location.trim() || null,
+  installDate: form.installDate || null,
+  assetTag: form.assetTag.trim() || null,
+  description: form.description.trim() || null
+});
+
+const inputClass = 'px-2 py-1 bg-[var(--bg-tertiary)] border border-[var(--border-primary)] rounded text-sm text-[var(--text-primary)]';
+const actionClass = 'flex items-center gap-1 px-2 py-1 rounded border text-xs font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const neutralAction = `${actionClass} bg-[var(--bg-card)] text-[var(--text-secondary)] border-[var(--border-primary)] hover:bg-[var(--bg-tertiary)]`;
+
+const FIELDS: { key: keyof MotorInfoInput; label: string; type?: string; wide?: boolean }[] = [
+  { key: 'ratedCurrent', label: 'Rated current (A)', type: 'number' },
+  { key: 'ratedPowerKw', label: 'Rated power (kW)', type: 'number' },
+  { key: 'motorType', label: 'Type' },
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'location', label: 'Location' },
+  { key: 'installDate', label: 'Installed', type: 'date' },
+  { key: 'assetTag', label: 'Asset tag' },
+  { key: 'description', label: 'Description', wide: true }
+];
+
+// Nameplate data of the selected motor from the motor registry, editable in place
+export const MotorNameplate: React.FC<MotorNameplateProps> = ({ zone, line, motor, onSaved }) => {
+  const [lookup, setLookup] = useState<MotorInfoLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLookup(null);
+    setForm(null);
+    setError(null);
+    getMotorInfo(zone, line, motor)
+      .then(result => isMounted && setLookup(result))
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load the motor registry'));
+    return () => {
+      isMounted = false;
+    };
+  }, [zone, line, motor]);
+
+  const motorId = lookup?.motorId ?? null;
+  const info = lookup?.info ?? null;
+
+  const handleSave = async () => {
+    if (!form || motorId === null) return;
+    setSaving(true);
+    try {
+      const saved = await saveMotorInfo(motorId, toInput(form));
+      setLookup(prev => prev && { ...prev, info: saved });
+      setForm(null);
+      setError(null);
+      onSaved?.(saved);
+    } catch (err) {
+      setError(err instanceof DataServiceError ? err.message : 'Failed to save the motor registry entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (motorId === null || !window.confirm(`Usunąć dane tabliczki znamionowej silnika ${motor} (MotorID ${motorId})?`)) return;
+    setSaving(true);
+    try {
+      await deleteMotorInfo(motorId);
+      setLookup(prev => prev && { ...prev, info: null });
+      setForm(null);
+      setError(null);
+      onSaved?.(null);
+    } catch (err) {
+      setError(err instanceof DataServiceError ? err.message : 'Failed to remove the motor registry entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const facts: [string, string | null][] = info ? [
+    ['Rated', [info.ratedCurrent !== null ? `${info.ratedCurrent} A` : null, info.ratedPowerKw !== null ? `${info.ratedPowerKw} kW` : null].filter(Boolean).join(' / ') || null],
+    ['Type', info.motorType],
+    ['Manufacturer', info.manufacturer],
+    ['Location', info.location],
+    ['Installed', info.installDate],
+    ['Asset tag', info.assetTag]
+  ] : [];
+
+  return (
+    <div className="bg-[var(--bg-card)] px-3 py-2 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)] text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="flex items-center gap-1.5 font-semibold text-[var(--text-primary)]">
+          <Tag className="h-4 w-4 text-[var(--text-tertiary)]" />
+          {motorId !== null ? `MotorID ${motorId}` : 'Nameplate'}
+        </span>
+
+        {error ? (
+          <span className="text-xs text-rose-600">{error}</span>
+        ) : !lookup ? (
+          <span className="text-xs text-[var(--text-tertiary)]">Ładowanie...</span>
+        ) : !lookup.registryAvailable ? (
+          <span className="text-xs text-[var(--text-tertiary)]">Rejestr silników niezainstalowany - uruchom node server/apply-sql.js db-motors.sql</span>
+        ) : motorId === null ? (
+          <span className="text-xs text-[var(--text-tertiary)]">Logi tego silnika nie zawierają MotorID</span>
+        ) : !info ? (
+          <span className="text-xs text-[var(--text-tertiary)]">Not registered</span>
+        ) : (
+          <>
+            {facts.filter(([, value]) => value).map(([label, value]) => (
+              <span key={label} className="text-xs">
+                <span className="text-[var(--text-secondary)]">{label}:</span>{' '}
+                <span className="font-semibold text-[var(--text-primary)]">{value}</span>
+              </span>
+            ))}
+            {info.description && <span className="text-xs text-[var(--text-tertiary)] truncate max-w-md" title={info.description}>{info.description}</span>}
+          </>
+        )}
+
+        {lookup?.registryAvailable && motorId !== null && !form && (
+          <button
+            onClick={() => setForm(toForm(info))}
+            className={`${neutralAction} ml-auto`}
+            title="Edytuj dane z tabliczki znamionowej"
+          >
+            <Pencil className="h-3 w-3" />
+            {info ? 'Edit' : 'Register'}
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mt-2 pt-2 border-t border-[var(--border-primary)]">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {FIELDS.map(field => (
+              <label key={field.key} className={`flex flex-col gap-0.5 text-xs text-[var(--text-secondary)] ${field.wide ? 'col-span-2 md:col-span-4' : ''}`}>
+                {field.label}
+                <input
+                  type={field.type ?? 'text'}
+                  min={field.type === 'number' ? 0 : undefined}
+                  step={field.type === 'number' ? 'any' : undefined}
+                  className={inputClass}
+                  value={form[field.key]}
+                  onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-2 mt-2">
+            {info && (
+              <button
+                onClick={handleRemove}
+                disabled={saving}
+                className={`${actionClass} mr-auto bg-[var(--bg-card)] text-rose-600 border-rose-200 dark:border-rose-800 hover:bg-rose-50 dark:hover:bg-rose-900/30`}
+              >
+                <Trash2 className="h-3 w-3" />
+                Remove
+              </button>
+            )}
+            <button onClick={() => setForm(null)} disabled={saving} className={neutralAction}>
+              <X className="h-3 w-3" />
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className={`${actionClass} bg-blue-600 text-white border-blue-600 hover:bg-blue-700`}
+            >
+              <Save className="h-3 w-3" />
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotorNameplate;
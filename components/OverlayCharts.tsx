@@ -0,0 +1,161 @@
+import React, { useMemo, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import * as echarts from 'echarts';
+import { OverlayAlignment, OverlaySeries } from '../types';
+import { weekdayName } from '../services/overlaySeries';
+import { currentSeriesTooltip } from '../services/chartTooltip';
+import { AlertCircle } from 'lucide-react';
+
+interface OverlayChartsProps {
+  series: OverlaySeries[];
+  title: string; // e.g. "comparison", "week overlay"
+  relativeTo?: OverlayAlignment; // Time axis is relative (series shifted onto the anchor week/day)
+}
+
+// Own connect group so overlay zoom doesn't drive the single-motor charts
+const OVERLAY_CHART_GROUP = 'motor-overlay-group';
+
+// Per-series colors; compare mode is capped at this many motors
+export const OVERLAY_COLORS = ['#3b82f6', '#f97316', '#10b981', '#8b5cf6', '#ef4444', '#eab308', '#06b6d4', '#ec4899'];
+
+const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+
+// Naive UTC ms -> "dd.MM.yyyy HH:mm:ss.fff" (exact DB value); relative axes drop the date
+const formatTooltipTime = (ms: number, relativeTo?: OverlayAlignment): string => {
+  const d = new Date(ms);
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}.${pad(d.getUTCMilliseconds(), 3)}`;
+  if (relativeTo === 'week') return `${weekdayName(ms)} ${time}`;
+  if (relativeTo === 'day') return time;
+  return `${pad(d.getUTCDate())}.${pad(d.getUTCMonth() + 1)}.${d.getUTCFullYear()} ${time}`;
+};
+
+const formatAxisTime = (ms: number, relativeTo?: OverlayAlignment): string => {
+  const d = new Date(ms);
+  const hhmm = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+  if (relativeTo === 'week') return `${weekdayName(ms)} ${hhmm}`;
+  if (relativeTo === 'day') return hhmm;
+  return `${hhmm}:${pad(d.getUTCSeconds())}`;
+};
+
+type Metric = 'motorCurrent' | 'avgCurrent';
+
+export const OverlayCharts: React.FC<OverlayChartsProps> = ({ series, title, relativeTo }) => {
+  const buildOptions = (metric: Metric) => {
+    const isDark = document.documentElement.getAttribute('data-theme') === 'dark';
+    const axisColor = isDark ? '#64748b' : '#94a3b8';
+    const labelColor = isDark ? '#94a3b8' : '#64748b';
+
+    return {
+      animation: false,
+      backgroundColor: 'transparent',
+      useUTC: true,
+      color: OVERLAY_COLORS,
+      textStyle: { color: isDark ? '#cbd5e1' : '#475569' },
+      grid: { left: 55, right: 15, top: 40, bottom: 50 },
+      legend: {
+        top: 0,
+        type: 'scroll',
+        textStyle: { color: labelColor }
+      },
+      dataZoom: [
+        { type: 'inside', xAxisIndex: 0, filterMode: 'none' },
+        {
+          type: 'slider',
+          xAxisIndex: 0,
+          filterMode: 'none',
+          height: 18,
+          bottom: 8,
+          backgroundColor: isDark ? '#334155' : '#f1f5f9',
+          fillerColor: isDark ? 'rgba(59, 130, 246, 0.3)' : 'rgba(59, 130, 246, 0.2)',
+          borderColor: isDark ? '#475569' : '#cbd5e1',
+          textStyle: { color: labelColor }
+        }
+      ],
+      tooltip: {
+        trigger: 'axis',
+        backgroundColor: isDark ? '#1e293b' : '#ffffff',
+        borderColor: isDark ? '#334155' : '#e2e8f0',
+        textStyle: { color: isDark ? '#f1f5f9' : '#1e293b' },
+        formatter: currentSeriesTooltip(ms => formatTooltipTime(ms, relativeTo))
+      },
+      xAxis: {
+        type: 'time',
+        axisLine: { lineStyle: { color: axisColor } },
+        axisLabel: {
+          formatter: (value: number) => formatAxisTime(value, relativeTo),
+          color: labelColor
+        },
+        splitLine: { show: false }
+      },
+      yAxis: {
+        type: 'value',
+        name: 'Current (A)',
+        nameTextStyle: { color: labelColor },
+        axisLine: { lineStyle: { color: axisColor } },
+        axisLabel: { formatter: '{value} A', color: labelColor },
+        splitLine: { lineStyle: { color: isDark ? '#334155' : '#e2e8f0' } }
+      },
+      series: series.map(s => ({
+        name: s.name,
+        type: 'line',
+        showSymbol: false,
+        lineStyle: { width: 1.5 },
+        // AvgCurrent 0 means "not reported" - leave a gap like the single-motor chart
+        data: s.logs.map(d => [d.timestampObj, metric === 'avgCurrent' && d.avgCurrent <= 0 ? null : d[metric]])
+      }))
+    };
+  };
+
+  const currentOptions = useMemo(() => buildOptions('motorCurrent'), [series, relativeTo]);
+  const avgOptions = useMemo(() => buildOptions('avgCurrent'), [series, relativeTo]);
+
+  // Sync zoom/pan of both charts once they are initialized
+  useEffect(() => {
+    const timer = setTimeout(() => echarts.connect(OVERLAY_CHART_GROUP), 500);
+    return () => clearTimeout(timer);
+  }, [series]);
+
+  if (series.every(s => s.logs.length === 0)) {
+    return (
+      <div className="h-96 flex flex-col items-center justify-center text-[var(--text-tertiary)] bg-[var(--bg-tertiary)] rounded-xl border-2 border-dashed border-[var(--border-primary)]">
+        <AlertCircle className="h-12 w-12 mb-4 text-amber-500" />
+        <p className="text-lg font-medium">No telemetry data to overlay</p>
+        <p className="text-sm mt-2">Try selecting a different Production Week or Day.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+        <h3 className="font-semibold text-[var(--text-primary)] text-sm mb-1">Motor Current - {title}</h3>
+        <ReactECharts
+          option={currentOptions}
+          style={{ height: '320px', width: '100%' }}
+          opts={{ renderer: 'canvas' }}
+          notMerge={true}
+          lazyUpdate={true}
+          onChartReady={(chart) => {
+            chart.group = OVERLAY_CHART_GROUP;
+          }}
+        />
+      </div>
+
+      <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+        <h3 className="font-semibold text-[var(--text-primary)] text-sm mb-1">Average Current - {title}</h3>
+        <ReactECharts
+          option={avgOptions}
+          style={{ height: '280px', width: '100%' }}
+          opts={{ renderer: 'canvas' }}
+          notMerge={true}
+          lazyUpdate={true}
+          onChartReady={(chart) => {
+            chart.group = OVERLAY_CHART_GROUP;
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default OverlayCharts;
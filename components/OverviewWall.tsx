@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bell, Maximize2, Minimize2, MonitorPlay, Power } from 'lucide-react';
+import { OverviewMotor, PlantOverview } from '../types';
+import { getPlantOverview, DataServiceError } from '../services/dataService';
+
+interface OverviewWallProps {
+  onOpenMotor: (zone: string, line: string, motorName: string) => void;
+}
+
+const REFRESH_MS = 5000;
+
+const formatAge = (seconds: number | null): string => {
+  if (seconds === null) return 'brak danych';
+  if (seconds < 60) return `${Math.max(0, seconds)} s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h`;
+  return `${Math.floor(seconds / 86400)} d`;
+};
+
+// Share of the current limit, null when the motor has no sample or no limit
+const loadPercent = (m: OverviewMotor): number | null =>
+  m.current !== null && m.currentLimit !== null && m.currentLimit > 0 ? (m.current / m.currentLimit) * 100 : null;
+
+const gaugeColor = (percent: number) => percent >= 100 ? 'bg-rose-500' : percent >= 80 ? 'bg-amber-500' : 'bg-emerald-500';
+
+// Critical alert > over the limit / warning alert > stale > normal
+const tileClass = (m: OverviewMotor): string => {
+  const percent = loadPercent(m);
+  if (m.alertSeverity === 'Critical') return 'border-rose-500 bg-rose-50 dark:bg-rose-900/20';
+  if (m.alertSeverity === 'Warning' || (percent !== null && percent >= 100)) return 'border-amber-500 bg-amber-50 dark:bg-amber-900/20';
+  if (m.isStale) return 'border-dashed border-[var(--border-primary)] bg-[var(--bg-tertiary)] opacity-70';
+  return 'border-[var(--border-primary)] bg-[var(--bg-card)]';
+};
+
+const MotorTile: React.FC<{ motor: OverviewMotor; onClick: () => void }> = ({ motor, onClick }) => {
+  const percent = loadPercent(motor);
+  return (
+    <button
+      onClick={onClick}
+      className={`text-left p-2 rounded-lg border-2 transition-colors hover:border-[var(--accent-blue)] ${tileClass(motor)}`}
+      title={motor.lastTimestamp ? `Ostatnia próbka: ${motor.lastTimestamp}` : 'Brak próbek w oknie podglądu'}
+    >
+      <div className="flex items-center justify-between gap-1">
+        <span className="font-bold text-sm text-[var(--text-primary)] truncate">{motor.motorName}</span>
+        {motor.isOn !== null && (
+          <span className={`flex items-center gap-0.5 text-[10px] font-bold ${motor.isOn ? 'text-emerald-600' : 'text-[var(--text-tertiary)]'}`}>
+            <Power className="h-3 w-3" />
+            {motor.isOn ? 'ON' : 'OFF'}
+          </span>
+        )}
+      </div>
+
+      <div className="mt-1.5 h-2 rounded-full bg-[var(--bg-tertiary)] overflow-hidden">
+        {percent !== null && (
+          <div className={`h-full ${gaugeColor(percent)}`} style={{ width: `${Math.min(100, percent)}%` }} />
+        )}
+      </div>
+      <div className="mt-1 flex items-center justify-between text-[11px] font-mono text-[var(--text-secondary)]">
+        <span>
+          {motor.current !== null ? motor.current.toFixed(1) : '-'} / {motor.currentLimit !== null ? motor.currentLimit.toFixed(1) : '-'} A
+        </span>
+        {percent !== null && <span className="font-bold">{percent.toFixed(0)}%</span>}
+      </div>
+
+      <div className="mt-1 flex items-center justify-between text-[10px]">
+        <span className={motor.isStale ? 'text-amber-600 font-bold' : 'text-[var(--text-tertiary)]'}>{formatAge(motor.ageSeconds)}</span>
+        {motor.activeAlerts > 0 && (
+          <span className={`flex items-center gap-0.5 font-bold ${motor.alertSeverity === 'Critical' ? 'text-rose-600' : 'text-amber-600'}`}>
+            <Bell className="h-3 w-3" />
+            {motor.activeAlerts}
+          </span>
+        )}
+      </div>
+    </button>
+  );
+};
+
+// Control-room wall: every motor as a tile, grouped by zone and line, polled from one batched endpoint
+export const OverviewWall: React.FC<OverviewWallProps> = ({ onOpenMotor }) => {
+  const [overview, setOverview] = useState<PlantOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // Next poll is scheduled after the previous one finishes; the last good data stays on screen on errors
+  useEffect(() => {
+    let isMounted = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = () => {
+      getPlantOverview()
+        .then(result => {
+          if (!isMounted) return;
+          setOverview(result);
+          setError(null);
+        })
+        .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load the plant overview'))
+        .finally(() => {
+          if (isMounted) timer = setTimeout(poll, REFRESH_MS);
+        });
+    };
+
+    poll();
+    return () => {
+      isMounted = false;
+      clearTimeout(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(document.fullscreenElement !== null);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(() => undefined);
+  };
+
+  // zone -> line -> motors (the server already sorts by zone, line, motor)
+  const groups = useMemo(() => {
+    const byZone = new Map<string, Map<string, OverviewMotor[]>>();
+    for (const motor of overview?.motors ?? []) {
+      if (!byZone.has(motor.zone)) byZone.set(motor.zone, new Map());
+      const byLine = byZone.get(motor.zone)!;
+      if (!byLine.has(motor.line)) byLine.set(motor.line, []);
+      byLine.get(motor.line)!.push(motor);
+    }
+    return byZone;
+  }, [overview]);
+
+  const motors = overview?.motors ?? [];
+  const runningCount = motors.filter(m => m.isOn).length;
+  const staleCount = motors.filter(m => m.isStale).length;
+  const alertCount = motors.filter(m => m.activeAlerts > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-2xl font-bold text-[var(--text-primary)]">
+            <MonitorPlay className="h-6 w-6 text-[var(--text-tertiary)]" />
+            Plant Overview
+          </h2>
+          <div className="text-sm text-[var(--text-secondary)] mt-1">
+            {overview ? `Stan z ${overview.generatedAt.slice(11, 19)} • odświeżanie co ${REFRESH_MS / 1000} s` : 'Ładowanie...'}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs font-semibold">
+          <span className="px-2 py-1 rounded border border-emerald-200 bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-800">
+            {runningCount} / {motors.length} ON
+          </span>
+          <span className="px-2 py-1 rounded border border-amber-200 bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800">
+            {staleCount} stale
+          </span>
+          {overview?.alertsAvailable !== false && (
+            <span className="px-2 py-1 rounded border border-rose-200 bg-rose-50 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300 dark:border-rose-800">
+              {alertCount} with alerts
+            </span>
+          )}
+          <button
+            onClick={toggleFullscreen}
+            className="p-1.5 rounded border border-[var(--border-primary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-tertiary)]"
+            title={isFullscreen ? 'Zamknij pełny ekran' : 'Pełny ekran'}
+          >
+            {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-rose-600">
+          {error}{overview ? ` - wyświetlany stan z ${overview.generatedAt.slice(11, 19)}` : ''}
+        </p>
+      )}
+
+      {overview && motors.length === 0 && (
+        <p className="text-sm text-[var(--text-tertiary)]">Brak silników w bazie</p>
+      )}
+
+      {[...groups.entries()].map(([zone, lines]) => (
+        <section key={zone} className="bg-[var(--bg-secondary)] p-3 rounded-lg border border-[var(--border-primary)]">
+          <h3 className="font-bold text-[var(--text-primary)] mb-2">{zone}</h3>
+          <div className="space-y-3">
+            {[...lines.entries()].map(([line, lineMotors]) => (
+              <div key={line}>
+                <div className="text-[10px] uppercase tracking-wider font-bold text-[var(--text-tertiary)] mb-1">{line}</div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-2">
+                  {lineMotors.map(motor => (
+                    <MotorTile
+                      key={motor.motorName}
+                      motor={motor}
+                      onClick={() => onOpenMotor(motor.zone, motor.line, motor.motorName)}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default OverviewWall;
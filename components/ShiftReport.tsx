@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ShiftDefinition, ShiftSummaryRow } from '../types';
+import { getShiftSummary, DataServiceError, MotorDataOptions } from '../services/dataService';
+
+interface ShiftReportProps {
+  zone: string;
+  line: string;
+  motor: string; // Highlighted next to the line totals
+  weeks: string[];
+  days: number[];
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'>;
+  shifts: ShiftDefinition[];
+  loadNonce: number; // Reloads together with the charts
+}
+
+interface ShiftTotals {
+  runningTime: number;
+  cycles: number;
+  maxLimitBreaches: number;
+  motors: number;
+}
+
+const OFF_SHIFT = 'Off shift';
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(0)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+const sumRows = (rows: ShiftSummaryRow[]): ShiftTotals => ({
+  runningTime: rows.reduce((sum, r) => sum + r.runningTime, 0),
+  cycles: rows.reduce((sum, r) => sum + r.cycles, 0),
+  maxLimitBreaches: rows.reduce((sum, r) => sum + r.maxLimitBreaches, 0),
+  motors: new Set(rows.map(r => r.motorName)).size
+});
+
+const cellClass = 'px-2 py-1 text-right font-mono';
+
+// Line-wide running time / starts / breaches per shift, with the selected motor alongside
+export const ShiftReport: React.FC<ShiftReportProps> = ({ zone, line, motor, weeks, days, options, shifts, loadNonce }) => {
+  const [rows, setRows] = useState<ShiftSummaryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (loadNonce === 0) return;
+    let isMounted = true;
+    setLoading(true);
+
+    getShiftSummary(zone, line, null, weeks, days, options)
+      .then(result => {
+        if (!isMounted) return;
+        setRows(result);
+        setError(null);
+      })
+      .catch(err => isMounted && setError(err instanceof DataServiceError ? err.message : 'Failed to load the shift report'))
+      .finally(() => isMounted && setLoading(false));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [zone, line, weeks, days, options, loadNonce]);
+
+  // Configured order; samples outside every shift get their own row
+  const shiftRows = useMemo(() => {
+    const names = shifts.map(s => s.name);
+    if (rows.some(r => r.shift === null)) names.push(OFF_SHIFT);
+
+    return names
+      .filter(name => rows.some(r => (r.shift ?? OFF_SHIFT) === name))
+      .map(name => {
+        const inShift = rows.filter(r => (r.shift ?? OFF_SHIFT) === name);
+        const definition = shifts.find(s => s.name === name);
+        return {
+          name,
+          window: definition ? `${definition.start}-${definition.end}` : '',
+          line: sumRows(inShift),
+          motor: sumRows(inShift.filter(r => r.motorName === motor))
+        };
+      });
+  }, [rows, shifts, motor]);
+
+  const maxBreaches = Math.max(0, ...shiftRows.map(r => r.line.maxLimitBreaches));
+
+  if (loadNonce === 0) return null;
+
+  return (
+    <div className="bg-[var(--bg-card)] p-3 rounded-lg border border-[var(--border-primary)] shadow-[var(--shadow-sm)]">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-[var(--text-primary)] text-sm">Shift comparison - line {line}</h3>
+        {loading && <span className="text-[10px] text-[var(--text-tertiary)] uppercase font-bold">Ładowanie...</span>}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-rose-600">{error}</p>
+      ) : shiftRows.length === 0 ? (
+        <p className="text-xs text-[var(--text-tertiary)]">{loading ? '' : 'Brak danych dla wybranego zakresu'}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-[var(--text-primary)]">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-[var(--text-tertiary)]">
+                <th className="px-2 py-1 text-left" rowSpan={2}>Shift</th>
+                <th className="px-2 py-1 text-center border-l border-[var(--border-primary)]" colSpan={4}>Line</th>
+                <th className="px-2 py-1 text-center border-l border-[var(--border-primary)]" colSpan={3}>{motor}</th>
+              </tr>
+              <tr className="text-[10px] uppercase tracking-wider text-[var(--text-tertiary)] border-b border-[var(--border-primary)]">
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]">Motors</th>
+                <th className="px-2 py-1 text-right">Running</th>
+                <th className="px-2 py-1 text-right">Starts</th>
+                <th className="px-2 py-1 text-right">Breaches</th>
+                <th className="px-2 py-1 text-right border-l border-[var(--border-primary)]">Running</th>
+                <th className="px-2 py-1 text-right">Starts</th>
+                <th className="px-2 py-1 text-right">Breaches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shiftRows.map(row => (
+                <tr key={row.name} className="border-b border-[var(--border-primary)] last:border-0">
+                  <td className="px-2 py-1 font-semibold">
+                    {row.name}
+                    {row.window && <span className="ml-1 text-[10px] font-normal text-[var(--text-tertiary)]">{row.window}</span>}
+                  </td>
+                  <td className={`${cellClass} border-l border-[var(--border-primary)]`}>{row.line.motors}</td>
+                  <td className={cellClass}>{formatDuration(row.line.runningTime)}</td>
+                  <td className={cellClass}>{row.line.cycles}</td>
+                  <td className={`${cellClass} ${row.line.maxLimitBreaches > 0 && row.line.maxLimitBreaches === maxBreaches ? 'text-rose-600 font-bold' : ''}`}>
+                    {row.line.maxLimitBreaches}
+                  </td>
+                  <td className={`${cellClass} border-l border-[var(--border-primary)]`}>{formatDuration(row.motor.runningTime)}</td>
+                  <td className={cellClass}>{row.motor.cycles}</td>
+                  <td className={cellClass}>{row.motor.maxLimitBreaches}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftReport;
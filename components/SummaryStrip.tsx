@@ -0,0 +1,65 @@
+import React from 'react';
+import { KPICard } from './Card';
+import { AnalyticsSummary } from '../types';
+
+interface SummaryStripProps {
+  summary: AnalyticsSummary | null;
+  loading?: boolean;
+}
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds.toFixed(0)} s`;
+  if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+export const SummaryStrip: React.FC<SummaryStripProps> = ({ summary, loading = false }) => {
+  if (!summary && !loading) return null;
+
+  // Rated load only for motors with a nameplate current in the motor registry
+  const ratedLoad = summary?.ratedLoadPercent ?? null;
+
+  return (
+    <div className={`grid grid-cols-2 ${ratedLoad !== null ? 'md:grid-cols-6' : 'md:grid-cols-5'} gap-2`}>
+      <KPICard
+        label="Running Time"
+        value={summary ? formatDuration(summary.totalRunningTime) : '-'}
+        loading={loading}
+      />
+      <KPICard
+        label="Peak Current"
+        value={summary ? summary.peakCurrent.toFixed(2) : '-'}
+        unit="A"
+        loading={loading}
+      />
+      <KPICard
+        label="Avg Load (of limit)"
+        value={summary ? summary.averageEfficiency.toFixed(1) : '-'}
+        unit="%"
+        loading={loading}
+      />
+      {ratedLoad !== null && (
+        <KPICard
+          label="Avg Load (of rated)"
+          value={ratedLoad.toFixed(1)}
+          unit="%"
+          trend={ratedLoad > 100 ? 'down' : undefined}
+          loading={loading}
+        />
+      )}
+      <KPICard
+        label="Starts"
+        value={summary ? summary.cycles : '-'}
+        loading={loading}
+      />
+      <KPICard
+        label="Limit Breaches"
+        value={summary ? summary.maxLimitBreaches : '-'}
+        trend={summary && summary.maxLimitBreaches > 0 ? 'down' : undefined}
+        loading={loading}
+      />
+    </div>
+  );
+};
+
+export default SummaryStrip;
@@ -0,0 +1,441 @@
+import { getPool, sql } from './db.js';
+import { plantNowSql } from './plant-time.js';
+import { normalizeRule, ruleMatchesMotor, evaluateRow, describeRule } from './alert-rules.js';
+
+// Background evaluator: reads MotorLogs rows after the stored cursor (by Id),
+// runs every enabled rule against them and keeps dbo.MotorAlerts up to date.
+// Tables come from server/db-alerts.sql.
+const POLL_MS = Number(process.env.ALERT_ENGINE_POLL_MS || 5000);
+const BATCH_SIZE = Number(process.env.ALERT_ENGINE_BATCH || 20000);
+
+// `${ruleId}|${zone}|${line}|${motor}` -> { since, lastTs, endedAt, peak, alertId }
+const states = new Map();
+let lastLogId = null;
+let running = false;
+let lastError = null;
+
+const stateKey = (ruleId, row) => `${ruleId}|${row.Zone}|${row.Line}|${row.MotorName}`;
+
+const mapRule = (r) => ({
+  id: r.Id,
+  name: r.Name,
+  ruleType: r.RuleType,
+  thresholdPercent: r.ThresholdPercent,
+  durationSeconds: r.DurationSeconds,
+  severity: r.Severity,
+  zone: r.Zone,
+  line: r.Line,
+  motorName: r.MotorName,
+  enabled: r.Enabled
+});
+
+const loadRules = async (pool, enabledOnly) => {
+  const result = await pool.request().query(`
+    SELECT Id, Name, RuleType, ThresholdPercent, DurationSeconds, Severity, Zone, Line, MotorName, Enabled
+    FROM dbo.AlertRules
+    ${enabledOnly ? 'WHERE Enabled = 1' : ''}
+    ORDER BY Id;
+  `);
+  return result.recordset.map(mapRule);
+};
+
+// Restore the cursor and the open alerts after a restart
+const initialize = async (pool) => {
+  const cursor = await pool.request().query('SELECT LastLogId FROM dbo.AlertEngineState WHERE Id = 1;');
+  if (cursor.recordset.length > 0) {
+    lastLogId = Number(cursor.recordset[0].LastLogId);
+  } else {
+    // First run: start from the newest row instead of replaying history
+    const max = await pool.request().query('SELECT ISNULL(MAX(Id), 0) AS MaxId FROM dbo.MotorLogs;');
+    lastLogId = Number(max.recordset[0].MaxId);
+    await pool.request()
+      .input('lastId', sql.BigInt, lastLogId)
+      .query('INSERT INTO dbo.AlertEngineState (Id, LastLogId) VALUES (1, @lastId);');
+  }
+
+  const open = await pool.request().query(`
+    SELECT Id, RuleId, Zone, Line, MotorName, StartedAt, PeakValue
+    FROM dbo.MotorAlerts
+    WHERE EndedAt IS NULL;
+  `);
+  for (const a of open.recordset) {
+    states.set(stateKey(a.RuleId, a), {
+      since: a.StartedAt.getTime(),
+      lastTs: a.StartedAt.getTime(),
+      peak: a.PeakValue,
+      alertId: a.Id
+    });
+  }
+};
+
+const openAlert = async (pool, rule, row, state) => {
+  const result = await pool.request()
+    .input('ruleId', sql.Int, rule.id)
+    .input('zone', sql.NVarChar, row.Zone)
+    .input('line', sql.NVarChar, row.Line)
+    .input('motor', sql.NVarChar, row.MotorName)
+    .input('severity', sql.NVarChar, rule.severity)
+    .input('message', sql.NVarChar, describeRule(rule, row.MaxCurrentLimit))
+    .input('startedAt', sql.DateTime2, new Date(state.since))
+    .input('peak', sql.Float, state.peak)
+    .query(`
+      INSERT INTO dbo.MotorAlerts (RuleId, Zone, Line, MotorName, Severity, Message, StartedAt, PeakValue)
+      OUTPUT INSERTED.Id
+      VALUES (@ruleId, @zone, @line, @motor, @severity, @message, @startedAt, @peak);
+    `);
+  state.alertId = result.recordset[0].Id;
+};
+
+const closeAlert = async (pool, state, endedAt) => {
+  await pool.request()
+    .input('id', sql.BigInt, state.alertId)
+    .input('endedAt', sql.DateTime2, new Date(endedAt))
+    .input('peak', sql.Float, state.peak)
+    .query('UPDATE dbo.MotorAlerts SET EndedAt = @endedAt, PeakValue = @peak WHERE Id = @id;');
+  state.since = null;
+  state.peak = null;
+  state.alertId = null;
+};
+
+const runCycle = async () => {
+  const pool = await getPool();
+  if (lastLogId === null) await initialize(pool);
+
+  const rules = await loadRules(pool, true);
+  const ruleIds = new Set(rules.map(r => r.id));
+
+  // Alerts of rules that were disabled or deleted end at their last violating sample
+  for (const [key, state] of states) {
+    if (ruleIds.has(Number(key.split('|')[0]))) continue;
+    if (state.alertId != null) await closeAlert(pool, state, state.lastTs);
+    states.delete(key);
+  }
+
+  const result = await pool.request()
+    .input('lastId', sql.BigInt, lastLogId)
+    .input('batch', sql.Int, BATCH_SIZE)
+    .query(`
+      SELECT TOP (@batch)
+        [Id], [Timestamp], [Zone], [Line], [MotorName],
+        [MaxCurrentLimit], [MotorCurrent], [IsMotorOn], [AvgCurrent]
+      FROM dbo.MotorLogs
+      WHERE [Id] > @lastId
+      ORDER BY [Id] ASC;
+    `);
+  if (result.recordset.length === 0) return;
+
+  const dirtyPeaks = new Set();
+  for (const row of result.recordset) {
+    for (const rule of rules) {
+      if (!ruleMatchesMotor(rule, row)) continue;
+
+      const key = stateKey(rule.id, row);
+      if (!states.has(key)) states.set(key, { since: null, lastTs: null, peak: null, alertId: null });
+      const state = states.get(key);
+
+      const action = evaluateRow(rule, state, row);
+      if (action === 'open') {
+        await openAlert(pool, rule, row, state);
+      } else if (action === 'close') {
+        dirtyPeaks.delete(state);
+        await closeAlert(pool, state, state.endedAt);
+      } else if (state.alertId != null) {
+        dirtyPeaks.add(state);
+      }
+    }
+  }
+
+  // Peak of still-open alerts is written once per batch
+  for (const state of dirtyPeaks) {
+    if (state.alertId == null) continue;
+    await pool.request()
+      .input('id', sql.BigInt, state.alertId)
+      .input('peak', sql.Float, state.peak)
+      .query('UPDATE dbo.MotorAlerts SET PeakValue = @peak WHERE Id = @id;');
+  }
+
+  lastLogId = Number(result.recordset[result.recordset.length - 1].Id);
+  await pool.request()
+    .input('lastId', sql.BigInt, lastLogId)
+    .query('UPDATE dbo.AlertEngineState SET LastLogId = @lastId WHERE Id = 1;');
+};
+
+// Columns returned by the alert inbox endpoints (a = MotorAlerts, r = AlertRules)
+const ALERT_COLUMNS = `
+  a.Id AS id,
+  a.RuleId AS ruleId,
+  r.Name AS ruleName,
+  a.Zone AS zone,
+  a.Line AS line,
+  a.MotorName AS motorName,
+  a.Severity AS severity,
+  a.Message AS message,
+  FORMAT(a.StartedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS startedAt,
+  FORMAT(a.EndedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS endedAt,
+  a.PeakValue AS peakValue,
+  FORMAT(a.AcknowledgedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS acknowledgedAt,
+  a.AcknowledgedBy AS acknowledgedBy,
+  FORMAT(a.ResolvedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS resolvedAt,
+  a.ResolvedBy AS resolvedBy,
+  (SELECT COUNT(*) FROM dbo.MotorAlertComments c WHERE c.AlertId = a.Id) AS commentCount
+`;
+
+const loadAlert = async (pool, id) => {
+  const result = await pool.request()
+    .input('id', sql.BigInt, id)
+    .query(`
+      SELECT ${ALERT_COLUMNS}
+      FROM dbo.MotorAlerts a
+      JOIN dbo.AlertRules r ON r.Id = a.RuleId
+      WHERE a.Id = @id;
+    `);
+  return result.recordset[0] ?? null;
+};
+
+const insertComment = async (pool, alertId, author, body) => {
+  const result = await pool.request()
+    .input('alertId', sql.BigInt, alertId)
+    .input('author', sql.NVarChar, author)
+    .input('body', sql.NVarChar, body)
+    .input('plantNow', sql.NVarChar, plantNowSql())
+    .query(`
+      INSERT INTO dbo.MotorAlertComments (AlertId, Author, Body, CreatedAt)
+      OUTPUT INSERTED.Id AS id, INSERTED.AlertId AS alertId, INSERTED.Author AS author, INSERTED.Body AS body,
+        FORMAT(INSERTED.CreatedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS createdAt
+      VALUES (@alertId, @author, @body, CONVERT(DATETIME2, @plantNow, 121));
+    `);
+  return result.recordset[0];
+};
+
+export const startAlertEngine = () => {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runCycle();
+      lastError = null;
+    } catch (err) {
+      // Log once per distinct error (e.g. tables not created yet) instead of every cycle
+      if (err.message !== lastError) console.error('alert-engine error:', err.message);
+      lastError = err.message;
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, POLL_MS);
+};
+
+export const registerAlertRoutes = (app) => {
+  app.get('/api/alert-rules', async (_req, res) => {
+    try {
+      const pool = await getPool();
+      res.json(await loadRules(pool, false));
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  const saveRule = async (req, res, id) => {
+    const { rule, error } = normalizeRule(req.body);
+    if (error) return res.status(400).json({ message: error });
+
+    try {
+      const pool = await getPool();
+      const request = pool.request()
+        .input('name', sql.NVarChar, rule.name)
+        .input('ruleType', sql.NVarChar, rule.ruleType)
+        .input('thresholdPercent', sql.Float, rule.thresholdPercent)
+        .input('durationSeconds', sql.Int, rule.durationSeconds)
+        .input('severity', sql.NVarChar, rule.severity)
+        .input('zone', sql.NVarChar, rule.zone)
+        .input('line', sql.NVarChar, rule.line)
+        .input('motor', sql.NVarChar, rule.motorName)
+        .input('enabled', sql.Bit, rule.enabled);
+
+      let result;
+      if (id === undefined) {
+        result = await request.query(`
+          INSERT INTO dbo.AlertRules (Name, RuleType, ThresholdPercent, DurationSeconds, Severity, Zone, Line, MotorName, Enabled)
+          OUTPUT INSERTED.*
+          VALUES (@name, @ruleType, @thresholdPercent, @durationSeconds, @severity, @zone, @line, @motor, @enabled);
+        `);
+      } else {
+        request.input('id', sql.Int, id);
+        result = await request.query(`
+          UPDATE dbo.AlertRules
+          SET Name = @name, RuleType = @ruleType, ThresholdPercent = @thresholdPercent,
+              DurationSeconds = @durationSeconds, Severity = @severity,
+              Zone = @zone, Line = @line, MotorName = @motor, Enabled = @enabled
+          OUTPUT INSERTED.*
+          WHERE Id = @id;
+        `);
+        if (result.recordset.length === 0) return res.status(404).json({ message: 'rule not found' });
+      }
+
+      res.status(id === undefined ? 201 : 200).json(mapRule(result.recordset[0]));
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  };
+
+  app.post('/api/alert-rules', (req, res) => saveRule(req, res));
+
+  app.put('/api/alert-rules/:id', (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ message: 'invalid rule id' });
+    return saveRule(req, res, id);
+  });
+
+  app.delete('/api/alert-rules/:id', async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ message: 'invalid rule id' });
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('id', sql.Int, id)
+        .query('DELETE FROM dbo.AlertRules WHERE Id = @id;');
+      if (result.rowsAffected[0] === 0) return res.status(404).json({ message: 'rule not found' });
+      res.status(204).end();
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+
+  // Operator actions need a name to record who did what
+  const operatorName = (value) => String(value || '').trim().slice(0, 100);
+
+  // status refers to the operator workflow: active = not resolved yet (default), resolved, all.
+  // endedAt is when the rule condition cleared. Newest first.
+  app.get('/api/alerts', async (req, res) => {
+    const { zone, line, motor, status = 'active' } = req.query;
+    if (!['active', 'resolved', 'all'].includes(status)) {
+      return res.status(400).json({ message: 'status must be active, resolved or all' });
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 1000);
+
+    try {
+      const pool = await getPool();
+      const request = pool.request();
+      request.input('limit', sql.Int, limit);
+
+      const clauses = [];
+      if (zone) { clauses.push('a.Zone = @zone'); request.input('zone', sql.NVarChar, zone); }
+      if (line) { clauses.push('a.Line = @line'); request.input('line', sql.NVarChar, line); }
+      if (motor) { clauses.push('a.MotorName = @motor'); request.input('motor', sql.NVarChar, motor); }
+      if (status === 'active') clauses.push('a.ResolvedAt IS NULL');
+      if (status === 'resolved') clauses.push('a.ResolvedAt IS NOT NULL');
+
+      const result = await request.query(`
+        SELECT TOP (@limit) ${ALERT_COLUMNS}
+        FROM dbo.MotorAlerts a
+        JOIN dbo.AlertRules r ON r.Id = a.RuleId
+        ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+        ORDER BY a.StartedAt DESC;
+      `);
+
+      res.json(result.recordset);
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // Counts for the header badge (unresolved alerts only)
+  app.get('/api/alerts/summary', async (_req, res) => {
+    try {
+      const pool = await getPool();
+      const result = await pool.request().query(`
+        SELECT
+          COUNT(*) AS active,
+          ISNULL(SUM(CASE WHEN AcknowledgedAt IS NULL THEN 1 ELSE 0 END), 0) AS unacknowledged,
+          ISNULL(SUM(CASE WHEN Severity = 'Critical' THEN 1 ELSE 0 END), 0) AS critical
+        FROM dbo.MotorAlerts
+        WHERE ResolvedAt IS NULL;
+      `);
+      res.json(result.recordset[0]);
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  const updateAlert = async (req, res, setClause) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ message: 'invalid alert id' });
+    const user = operatorName(req.body?.user);
+    if (!user) return res.status(400).json({ message: 'user is required' });
+
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('id', sql.BigInt, id)
+        .input('user', sql.NVarChar, user)
+        .input('plantNow', sql.NVarChar, plantNowSql())
+        .query(`UPDATE dbo.MotorAlerts SET ${setClause} WHERE Id = @id;`);
+      if (result.rowsAffected[0] === 0) return res.status(404).json({ message: 'alert not found' });
+
+      const comment = String(req.body?.comment || '').trim();
+      if (comment) await insertComment(pool, id, user, comment);
+
+      res.json(await loadAlert(pool, id));
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  };
+
+  // Repeated actions keep the first operator/time; times are plant wall clock like the log timestamps
+  app.post('/api/alerts/:id/acknowledge', (req, res) => updateAlert(req, res, `
+    AcknowledgedAt = ISNULL(AcknowledgedAt, CONVERT(DATETIME2, @plantNow, 121)),
+    AcknowledgedBy = ISNULL(AcknowledgedBy, @user)
+  `));
+
+  // Resolving also acknowledges; body may carry a closing comment
+  app.post('/api/alerts/:id/resolve', (req, res) => updateAlert(req, res, `
+    AcknowledgedAt = ISNULL(AcknowledgedAt, CONVERT(DATETIME2, @plantNow, 121)),
+    AcknowledgedBy = ISNULL(AcknowledgedBy, @user),
+    ResolvedAt = ISNULL(ResolvedAt, CONVERT(DATETIME2, @plantNow, 121)),
+    ResolvedBy = ISNULL(ResolvedBy, @user)
+  `));
+
+  app.get('/api/alerts/:id/comments', async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ message: 'invalid alert id' });
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('id', sql.BigInt, id)
+        .query(`
+          SELECT Id AS id, AlertId AS alertId, Author AS author, Body AS body,
+            FORMAT(CreatedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS createdAt
+          FROM dbo.MotorAlertComments
+          WHERE AlertId = @id
+          ORDER BY CreatedAt ASC, Id ASC;
+        `);
+      res.json(result.recordset);
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  app.post('/api/alerts/:id/comments', async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) return res.status(400).json({ message: 'invalid alert id' });
+    const author = operatorName(req.body?.author);
+    const body = String(req.body?.body || '').trim();
+    if (!author || !body) return res.status(400).json({ message: 'author and body are required' });
+    if (body.length > 2000) return res.status(400).json({ message: 'body must be at most 2000 characters' });
+
+    try {
+      const pool = await getPool();
+      const exists = await pool.request()
+        .input('id', sql.BigInt, id)
+        .query('SELECT 1 AS found FROM dbo.MotorAlerts WHERE Id = @id;');
+      if (exists.recordset.length === 0) return res.status(404).json({ message: 'alert not found' });
+
+      res.status(201).json(await insertComment(pool, id, author, body));
+    } catch (err) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+};
@@ -0,0 +1,111 @@
+// Alert rule definitions and per-motor evaluation (no database access here).
+//
+// Rule types:
+//   current_above_limit - MotorCurrent > MaxCurrentLimit for at least DurationSeconds
+//   avg_above_percent   - AvgCurrent > ThresholdPercent % of MaxCurrentLimit for at least DurationSeconds
+//   on_too_long         - IsMotorOn continuously true for longer than DurationSeconds
+export const RULE_TYPES = ['current_above_limit', 'avg_above_percent', 'on_too_long'];
+export const SEVERITIES = ['Warning', 'Critical'];
+
+// Validate a rule from the REST API; returns { rule } or { error }
+export const normalizeRule = (body = {}) => {
+  const name = String(body.name || '').trim();
+  if (!name) return { error: 'name is required' };
+  if (!RULE_TYPES.includes(body.ruleType)) return { error: `ruleType must be one of ${RULE_TYPES.join(', ')}` };
+
+  const durationSeconds = Number(body.durationSeconds ?? 0);
+  if (!Number.isFinite(durationSeconds) || durationSeconds < 0) return { error: 'durationSeconds must be >= 0' };
+
+  const thresholdPercent = body.thresholdPercent === undefined || body.thresholdPercent === null
+    ? null
+    : Number(body.thresholdPercent);
+  if (body.ruleType === 'avg_above_percent' && !(thresholdPercent > 0)) {
+    return { error: 'thresholdPercent > 0 is required for avg_above_percent' };
+  }
+
+  const severity = body.severity || 'Warning';
+  if (!SEVERITIES.includes(severity)) return { error: `severity must be one of ${SEVERITIES.join(', ')}` };
+
+  return {
+    rule: {
+      name,
+      ruleType: body.ruleType,
+      thresholdPercent,
+      durationSeconds: Math.round(durationSeconds),
+      severity,
+      zone: body.zone || null,
+      line: body.line || null,
+      motorName: body.motorName || null,
+      enabled: body.enabled === undefined ? true : Boolean(body.enabled)
+    }
+  };
+};
+
+export const ruleMatchesMotor = (rule, row) =>
+  (!rule.zone || rule.zone === row.Zone) &&
+  (!rule.line || rule.line === row.Line) &&
+  (!rule.motorName || rule.motorName === row.MotorName);
+
+// Value that violates the rule, null when the row is fine,
+// undefined when the row says nothing about the rule (e.g. AvgCurrent not reported)
+const violation = (rule, row) => {
+  switch (rule.ruleType) {
+    case 'current_above_limit':
+      return row.MotorCurrent > row.MaxCurrentLimit ? row.MotorCurrent : null;
+    case 'avg_above_percent':
+      if (!(row.AvgCurrent > 0)) return undefined;
+      return row.AvgCurrent > row.MaxCurrentLimit * rule.thresholdPercent / 100 ? row.AvgCurrent : null;
+    case 'on_too_long':
+      return row.IsMotorOn ? 1 : null;
+    default:
+      return null;
+  }
+};
+
+const formatDuration = (seconds) => {
+  if (seconds < 120) return `${seconds} s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+export const describeRule = (rule, limit) => {
+  switch (rule.ruleType) {
+    case 'current_above_limit':
+      return `Motor current above ${limit.toFixed(2)} A limit for ${formatDuration(rule.durationSeconds)}`;
+    case 'avg_above_percent':
+      return `Average current above ${rule.thresholdPercent}% of ${limit.toFixed(2)} A limit for ${formatDuration(rule.durationSeconds)}`;
+    case 'on_too_long':
+      return `Motor ON longer than ${formatDuration(rule.durationSeconds)}`;
+    default:
+      return rule.name;
+  }
+};
+
+// Advance one rule/motor state with the next row (in log order).
+// state: { since, lastTs, endedAt, peak, alertId } - the caller stores the alert and sets/clears alertId.
+// Returns 'open' when an alert should be stored, 'close' when the open alert ended, else null.
+export const evaluateRow = (rule, state, row) => {
+  const ts = row.Timestamp.getTime();
+  const value = violation(rule, row);
+  if (value === undefined) return null;
+
+  if (value === null) {
+    // Caller resets the state after storing EndedAt/PeakValue
+    if (state.alertId != null) {
+      state.endedAt = ts;
+      return 'close';
+    }
+    state.since = null;
+    state.peak = null;
+    return null;
+  }
+
+  if (state.since == null) state.since = ts;
+  state.lastTs = ts;
+  state.peak = rule.ruleType === 'on_too_long'
+    ? (ts - state.since) / 1000 // peak = how long it has been ON
+    : Math.max(state.peak ?? value, value);
+
+  if (state.alertId == null && ts - state.since >= rule.durationSeconds * 1000) return 'open';
+  return null;
+};
@@ -0,0 +1,14 @@
+import { ANOMALY_DEFAULTS, createAnomalyDetector as createDetector } from '../shared/anomaly-detection.js';
+
+// Anomaly thresholds for /api/motor-anomalies, the detector itself lives in shared/anomaly-detection.js
+export const ANOMALY = {
+  ...ANOMALY_DEFAULTS,
+  baselineSamples: Number(process.env.ANOMALY_BASELINE_SAMPLES || ANOMALY_DEFAULTS.baselineSamples),
+  spikeSigma: Number(process.env.ANOMALY_SPIKE_SIGMA || ANOMALY_DEFAULTS.spikeSigma),
+  plateauRatio: Number(process.env.ANOMALY_PLATEAU_RATIO || ANOMALY_DEFAULTS.plateauRatio),
+  plateauSeconds: Number(process.env.ANOMALY_PLATEAU_SECONDS || ANOMALY_DEFAULTS.plateauSeconds),
+  offCurrent: Number(process.env.ANOMALY_OFF_CURRENT_A || ANOMALY_DEFAULTS.offCurrent),
+  stateSeconds: Number(process.env.ANOMALY_STATE_SECONDS || ANOMALY_DEFAULTS.stateSeconds)
+};
+
+export const createAnomalyDetector = () => createDetector(ANOMALY);
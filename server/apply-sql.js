@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import sql from 'mssql';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Usage: node server/apply-sql.js <script.sql> (path relative to server/ or absolute)
+const scriptArg = process.argv[2];
+
+const config = {
+    user: process.env.DB_USER || 'sa',
+    password: process.env.DB_PASSWORD || 'Siemens123!',
+    server: process.env.DB_SERVER || 'localhost',
+    database: process.env.DB_NAME || 'MotorLogDB',
+    port: Number(process.env.DB_PORT || 2000),
+    options: {
+        encrypt: false,
+        trustServerCertificate: true,
+        connectionTimeout: 60000,
+        requestTimeout: 300000
+    }
+};
+
+async function applySql() {
+    if (!scriptArg) {
+        console.error('Usage: node server/apply-sql.js <script.sql>');
+        process.exit(1);
+    }
+
+    let pool;
+    try {
+        console.log('Connecting to database...');
+        pool = await sql.connect(config);
+        console.log('Connected.');
+
+        const sqlPath = path.isAbsolute(scriptArg) ? scriptArg : path.join(__dirname, path.basename(scriptArg));
+        const sqlContent = fs.readFileSync(sqlPath, 'utf8');
+
+        // Split on lines that contain only GO
+        const batches = sqlContent
+            .split(/\r?\n/)
+            .reduce((acc, line) => {
+                if (line.trim().toUpperCase() === 'GO') {
+                    acc.push([]);
+                } else {
+                    if (acc.length === 0) acc.push([]);
+                    acc[acc.length - 1].push(line);
+                }
+                return acc;
+            }, [])
+            .map(lines => lines.join('\n'))
+            .filter(b => b.trim().length > 0);
+
+        console.log(`Found ${batches.length} batches to execute.`);
+
+        for (let i = 0; i < batches.length; i++) {
+            console.log(`Executing batch ${i + 1}/${batches.length}...`);
+            await pool.request().query(batches[i]);
+            console.log(`Batch ${i + 1} completed.`);
+        }
+
+        console.log(`${path.basename(sqlPath)} applied.`);
+
+    } catch (err) {
+        console.error('Fatal error:', err);
+        process.exitCode = 1;
+    } finally {
+        if (pool) await pool.close();
+    }
+}
+
+applySql();
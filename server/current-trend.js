@@ -0,0 +1,11 @@
+import { TREND_DEFAULTS, fitCurrentTrend as fitTrend } from '../shared/current-trend.js';
+
+// Trend thresholds for trend-engine.js, the fit itself lives in shared/current-trend.js
+export const TREND = {
+  windowDays: Number(process.env.TREND_WINDOW_DAYS || TREND_DEFAULTS.windowDays),
+  minDays: Number(process.env.TREND_MIN_DAYS || TREND_DEFAULTS.minDays),
+  minR2: Number(process.env.TREND_MIN_R2 || TREND_DEFAULTS.minR2),
+  horizonDays: Number(process.env.TREND_HORIZON_DAYS || TREND_DEFAULTS.horizonDays)
+};
+
+export const fitCurrentTrend = (points) => fitTrend(points, TREND);
@@ -0,0 +1,95 @@
+import { DATA_QUALITY_DEFAULTS } from '../shared/data-quality.js';
+import { HEALTH } from './motor-health.js';
+
+// Data quality checks on MotorLogs: logging gaps, ingest lag (RecordedAt - Timestamp),
+// duplicate / out-of-order / reset BufferIndex values and impossible values.
+// BufferIndex and RecordedAt are optional logger columns - their checks are skipped when missing.
+
+export const DATA_QUALITY = {
+  gapSeconds: HEALTH.gapSeconds, // Same gap definition as the health score
+  lagSeconds: Number(process.env.DQ_LAG_SECONDS || DATA_QUALITY_DEFAULTS.lagSeconds),
+  maxCurrentFactor: Number(process.env.DQ_MAX_CURRENT_FACTOR || DATA_QUALITY_DEFAULTS.maxCurrentFactor),
+  runningTimePlaceholder: Number(process.env.DQ_RUNNING_TIME_PLACEHOLDER || DATA_QUALITY_DEFAULTS.runningTimePlaceholder),
+  maxGaps: DATA_QUALITY_DEFAULTS.maxGaps
+};
+
+// Optional columns, checked once per process (schema changes need a restart)
+let columnsPromise = null;
+export const getOptionalColumns = (pool) => {
+  if (!columnsPromise) {
+    columnsPromise = pool.request().query(`
+      SELECT
+        CASE WHEN COL_LENGTH('dbo.MotorLogs', 'BufferIndex') IS NULL THEN 0 ELSE 1 END AS bufferIndex,
+        CASE WHEN COL_LENGTH('dbo.MotorLogs', 'RecordedAt') IS NULL THEN 0 ELSE 1 END AS recordedAt;
+    `).then(result => ({
+      bufferIndex: result.recordset[0].bufferIndex === 1,
+      recordedAt: result.recordset[0].recordedAt === 1
+    })).catch(err => {
+      columnsPromise = null;
+      throw err;
+    });
+  }
+  return columnsPromise;
+};
+
+export const bindQualityInputs = (request, sqlTypes) => {
+  request.input('gapSeconds', sqlTypes.Int, DATA_QUALITY.gapSeconds);
+  request.input('lagSeconds', sqlTypes.Int, DATA_QUALITY.lagSeconds);
+  request.input('maxCurrentFactor', sqlTypes.Float, DATA_QUALITY.maxCurrentFactor);
+  request.input('runningTimePlaceholder', sqlTypes.Float, DATA_QUALITY.runningTimePlaceholder);
+};
+
+// Extra columns of the per-motor ordered CTE (needs PARTITION BY [MotorName] ORDER BY [Timestamp], [Id])
+export const orderedQualityColumns = (columns) => `
+  ${columns.bufferIndex
+    ? `[BufferIndex], LAG([BufferIndex]) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS PrevBufferIndex,`
+    : 'NULL AS [BufferIndex], NULL AS PrevBufferIndex,'}
+  ${columns.recordedAt
+    ? 'DATEDIFF_BIG(MILLISECOND, [Timestamp], [RecordedAt]) / 1000.0 AS LagSeconds'
+    : 'CAST(NULL AS FLOAT) AS LagSeconds'}
+`;
+
+// Per-motor aggregates over the ordered CTE. A drop to less than half of the previous
+// BufferIndex is a logger buffer reset, a smaller drop an out-of-order row.
+export const QUALITY_AGGREGATES = `
+  COUNT(*) AS samples,
+  SUM(CASE WHEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) > @gapSeconds THEN 1 ELSE 0 END) AS gaps,
+  ISNULL(SUM(CASE WHEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) > @gapSeconds
+    THEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) ELSE 0 END), 0) AS gapSeconds,
+  ISNULL(MAX(CASE WHEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) > @gapSeconds
+    THEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) END), 0) AS longestGapSeconds,
+  AVG(LagSeconds) AS avgLagSeconds,
+  MAX(LagSeconds) AS maxLagSeconds,
+  SUM(CASE WHEN LagSeconds > @lagSeconds THEN 1 ELSE 0 END) AS lateRows,
+  SUM(CASE WHEN [Timestamp] = PrevTimestamp THEN 1 ELSE 0 END) AS duplicateTimestamps,
+  SUM(CASE WHEN [BufferIndex] = PrevBufferIndex THEN 1 ELSE 0 END) AS duplicateBufferIndex,
+  SUM(CASE WHEN [BufferIndex] < PrevBufferIndex AND [BufferIndex] * 2 >= PrevBufferIndex THEN 1 ELSE 0 END) AS outOfOrderBufferIndex,
+  SUM(CASE WHEN [BufferIndex] * 2 < PrevBufferIndex THEN 1 ELSE 0 END) AS bufferResets,
+  SUM(CASE WHEN [MotorCurrent] < 0 OR [AvgCurrent] < 0 THEN 1 ELSE 0 END) AS negativeCurrent,
+  SUM(CASE WHEN [MaxCurrentLimit] IS NULL OR [MaxCurrentLimit] <= 0 THEN 1 ELSE 0 END) AS missingLimit,
+  SUM(CASE WHEN [MaxCurrentLimit] > 0 AND [MotorCurrent] > [MaxCurrentLimit] * @maxCurrentFactor THEN 1 ELSE 0 END) AS implausibleCurrent,
+  SUM(CASE WHEN IsOn = 1 AND [MotorCurrent] = 0 AND [AvgCurrent] = 0 THEN 1 ELSE 0 END) AS zeroCurrentWhileOn,
+  SUM(CASE WHEN [RunningTime] < 0 OR [RunningTime] = @runningTimePlaceholder THEN 1 ELSE 0 END) AS invalidRunningTime
+`;
+
+const toNumberOrNull = (value) => value == null ? null : Number(value);
+
+export const mapQualityRow = (row, columns) => ({
+  motorName: row.motorName,
+  samples: row.samples,
+  gaps: row.gaps,
+  gapSeconds: Number(row.gapSeconds) || 0,
+  longestGapSeconds: Number(row.longestGapSeconds) || 0,
+  avgLagSeconds: columns.recordedAt ? toNumberOrNull(row.avgLagSeconds) : null,
+  maxLagSeconds: columns.recordedAt ? toNumberOrNull(row.maxLagSeconds) : null,
+  lateRows: columns.recordedAt ? row.lateRows : null,
+  duplicateTimestamps: row.duplicateTimestamps,
+  duplicateBufferIndex: columns.bufferIndex ? row.duplicateBufferIndex : null,
+  outOfOrderBufferIndex: columns.bufferIndex ? row.outOfOrderBufferIndex : null,
+  bufferResets: columns.bufferIndex ? row.bufferResets : null,
+  negativeCurrent: row.negativeCurrent,
+  missingLimit: row.missingLimit,
+  implausibleCurrent: row.implausibleCurrent,
+  zeroCurrentWhileOn: row.zeroCurrentWhileOn,
+  invalidRunningTime: row.invalidRunningTime
+});
@@ -0,0 +1,98 @@
+-- Alert rules, fired alerts and the evaluator cursor
+-- Run in MotorLogDB (node server/apply-sql.js db-alerts.sql)
+
+USE MotorLogDB;
+GO
+
+IF OBJECT_ID('dbo.AlertRules', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.AlertRules (
+        Id INT IDENTITY(1,1) PRIMARY KEY,
+        Name NVARCHAR(100) NOT NULL,
+        -- current_above_limit | avg_above_percent | on_too_long
+        RuleType NVARCHAR(30) NOT NULL,
+        ThresholdPercent FLOAT NULL,
+        DurationSeconds INT NOT NULL DEFAULT 0,
+        Severity NVARCHAR(10) NOT NULL DEFAULT 'Warning',
+        -- NULL scope columns match every zone/line/motor
+        Zone NVARCHAR(50) NULL,
+        Line NVARCHAR(50) NULL,
+        MotorName NVARCHAR(50) NULL,
+        Enabled BIT NOT NULL DEFAULT 1,
+        CreatedAt DATETIME2 NOT NULL DEFAULT SYSDATETIME()
+    );
+END;
+GO
+
+IF OBJECT_ID('dbo.MotorAlerts', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.MotorAlerts (
+        Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        RuleId INT NOT NULL REFERENCES dbo.AlertRules (Id) ON DELETE CASCADE,
+        Zone NVARCHAR(50) NOT NULL,
+        Line NVARCHAR(50) NOT NULL,
+        MotorName NVARCHAR(50) NOT NULL,
+        Severity NVARCHAR(10) NOT NULL,
+        Message NVARCHAR(400) NOT NULL,
+        -- Log timestamps (plant-local, same as MotorLogs.[Timestamp]); EndedAt NULL = still active
+        StartedAt DATETIME2 NOT NULL,
+        EndedAt DATETIME2 NULL,
+        PeakValue FLOAT NULL,
+        CreatedAt DATETIME2 NOT NULL DEFAULT SYSDATETIME()
+    );
+END;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_MotorAlerts_Motor_Started' AND object_id = OBJECT_ID('dbo.MotorAlerts'))
+BEGIN
+    CREATE INDEX IX_MotorAlerts_Motor_Started
+    ON dbo.MotorAlerts (Zone, Line, MotorName, StartedAt)
+    INCLUDE (RuleId, Severity, EndedAt);
+END;
+GO
+
+-- Last MotorLogs.Id the evaluator has processed (single row)
+IF OBJECT_ID('dbo.AlertEngineState', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.AlertEngineState (
+        Id INT PRIMARY KEY CHECK (Id = 1),
+        LastLogId BIGINT NOT NULL
+    );
+END;
+GO
+
+-- Default rules
+IF NOT EXISTS (SELECT 1 FROM dbo.AlertRules)
+BEGIN
+    INSERT INTO dbo.AlertRules (Name, RuleType, ThresholdPercent, DurationSeconds, Severity)
+    VALUES
+        ('Current above limit', 'current_above_limit', NULL, 5, 'Critical'),
+        ('Average current above 90% of limit', 'avg_above_percent', 90, 60, 'Warning'),
+        ('Motor ON longer than 8h', 'on_too_long', NULL, 28800, 'Warning');
+END;
+GO
+
+-- Operator workflow (alert inbox): acknowledge/resolve are independent of EndedAt,
+-- which only says when the rule condition cleared
+IF COL_LENGTH('dbo.MotorAlerts', 'AcknowledgedAt') IS NULL
+BEGIN
+    ALTER TABLE dbo.MotorAlerts ADD
+        AcknowledgedAt DATETIME2 NULL,
+        AcknowledgedBy NVARCHAR(100) NULL,
+        ResolvedAt DATETIME2 NULL,
+        ResolvedBy NVARCHAR(100) NULL;
+END;
+GO
+
+IF OBJECT_ID('dbo.MotorAlertComments', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.MotorAlertComments (
+        Id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        AlertId BIGINT NOT NULL REFERENCES dbo.MotorAlerts (Id) ON DELETE CASCADE,
+        Author NVARCHAR(100) NOT NULL,
+        Body NVARCHAR(2000) NOT NULL,
+        CreatedAt DATETIME2 NOT NULL DEFAULT SYSDATETIME()
+    );
+    CREATE INDEX IX_MotorAlertComments_Alert ON dbo.MotorAlertComments (AlertId, CreatedAt);
+END;
+GO
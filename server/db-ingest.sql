@@ -0,0 +1,14 @@
+-- Id source for rows the API writes without a posted Id (the MQTT worker)
+-- Run in MotorLogDB (node server/apply-sql.js db-ingest.sql)
+
+USE MotorLogDB;
+GO
+
+-- Starts above the existing rows. Ids follow insert order, so the alert engine and live clients
+-- (which read MotorLogs by Id) also pick up late, backfilled samples.
+IF OBJECT_ID('dbo.MotorLogIds', 'SO') IS NULL
+BEGIN
+    DECLARE @start BIGINT = (SELECT ISNULL(MAX(Id), 0) + 1 FROM dbo.MotorLogs);
+    EXEC ('CREATE SEQUENCE dbo.MotorLogIds AS BIGINT START WITH ' + CAST(@start AS NVARCHAR(20)) + ' INCREMENT BY 1;');
+END;
+GO
@@ -0,0 +1,33 @@
+-- Motor registry: nameplate data per MotorID (the id the loggers write into MotorLogs)
+-- Run in MotorLogDB (node server/apply-sql.js db-motors.sql)
+
+USE MotorLogDB;
+GO
+
+IF OBJECT_ID('dbo.MotorRegistry', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.MotorRegistry (
+        MotorID INT NOT NULL PRIMARY KEY,
+        -- Nameplate values; NULL = unknown
+        RatedCurrent FLOAT NULL,
+        RatedPowerKw FLOAT NULL,
+        MotorType NVARCHAR(50) NULL,
+        Manufacturer NVARCHAR(100) NULL,
+        Location NVARCHAR(100) NULL,
+        InstallDate DATE NULL,
+        AssetTag NVARCHAR(50) NULL,
+        Description NVARCHAR(400) NULL,
+        -- Plant-local time of the last change
+        UpdatedAt DATETIME2 NOT NULL DEFAULT SYSDATETIME()
+    );
+END;
+GO
+
+-- Latest Zone/Line/MotorName of a MotorID (registry list)
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_MotorLogs_MotorID_TS' AND object_id = OBJECT_ID('dbo.MotorLogs'))
+BEGIN
+    CREATE INDEX IX_MotorLogs_MotorID_TS
+    ON dbo.MotorLogs (MotorID, [Timestamp])
+    INCLUDE (Zone, Line, MotorName);
+END;
+GO
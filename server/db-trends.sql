@@ -0,0 +1,44 @@
+-- Daily running-current aggregates and the fitted per-motor trend (predictive maintenance)
+-- Run in MotorLogDB (node server/apply-sql.js db-trends.sql)
+
+USE MotorLogDB;
+GO
+
+-- One row per motor and plant-local day; AvgRunningCurrent only over samples with the motor ON
+IF OBJECT_ID('dbo.MotorDailyStats', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.MotorDailyStats (
+        Zone NVARCHAR(50) NOT NULL,
+        Line NVARCHAR(50) NOT NULL,
+        MotorName NVARCHAR(50) NOT NULL,
+        [Day] DATE NOT NULL,
+        Samples INT NOT NULL,
+        RunningSamples INT NOT NULL,
+        AvgRunningCurrent FLOAT NULL,
+        MaxCurrentLimit FLOAT NULL,
+        CONSTRAINT PK_MotorDailyStats PRIMARY KEY (Zone, Line, MotorName, [Day])
+    );
+END;
+GO
+
+-- Latest fit per motor, replaced by every trend engine run
+IF OBJECT_ID('dbo.MotorTrends', 'U') IS NULL
+BEGIN
+    CREATE TABLE dbo.MotorTrends (
+        Zone NVARCHAR(50) NOT NULL,
+        Line NVARCHAR(50) NOT NULL,
+        MotorName NVARCHAR(50) NOT NULL,
+        -- Plant-local time of the run
+        ComputedAt DATETIME2 NOT NULL,
+        FittedDays INT NOT NULL,
+        SlopePerDay FLOAT NOT NULL,
+        CurrentLevel FLOAT NOT NULL,
+        CurrentLimit FLOAT NULL,
+        R2 FLOAT NOT NULL,
+        -- NULL = not rising (or no limit)
+        DaysUntilLimit FLOAT NULL,
+        IsDrifting BIT NOT NULL,
+        CONSTRAINT PK_MotorTrends PRIMARY KEY (Zone, Line, MotorName)
+    );
+END;
+GO
@@ -0,0 +1,34 @@
+import sql from 'mssql';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const config = {
+  user: process.env.DB_USER || 'sa',
+  password: process.env.DB_PASSWORD || 'Siemens123!',
+  server: process.env.DB_SERVER || 'localhost',
+  database: process.env.DB_NAME || 'MotorLogDB',
+  port: Number(process.env.DB_PORT || 2000),
+  options: {
+    encrypt: false,
+    trustServerCertificate: true,
+    enableKeepAlive: true,
+    connectionTimeout: 30000,
+    requestTimeout: 30000
+  }
+};
+
+// Shared connection pool for the API server and its background modules
+let poolPromise;
+export const getPool = async () => {
+  if (!poolPromise) {
+    poolPromise = sql.connect(config).catch(err => {
+      console.error('Database connection error:', err.message);
+      poolPromise = null;
+      throw err;
+    });
+  }
+  return poolPromise;
+};
+
+export { sql };
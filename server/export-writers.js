@@ -0,0 +1,83 @@
+import ExcelJS from 'exceljs';
+
+// Streaming writers for /api/motor-logs-export. Layout matches the client export
+// (services/exportService.ts): selection header lines, then the MotorLogs columns.
+export const EXPORT_COLUMNS = ['Id', 'Timestamp', 'Zone', 'Line', 'MotorName', 'ProductionWeek', 'MaxCurrentLimit', 'MotorCurrent', 'IsMotorOn', 'AvgCurrent', 'RunningTime'];
+
+// Excel's sheet limit, minus the header block
+export const XLSX_MAX_ROWS = 1_048_576 - 16;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const safeName = (value) => String(value).replace(/[^\w.-]+/g, '-');
+
+export const buildExportFileName = ({ zone, line, motor, weeks, days }, format) => {
+  const weekPart = weeks.length > 0 ? `W${weeks.join('+')}` : 'Wall';
+  const dayPart = days.length > 0 ? `D${[...days].sort().join('')}` : 'Dall';
+  return `motorlogs_${safeName(zone)}_${safeName(line)}_${safeName(motor)}_${safeName(weekPart)}_${dayPart}.${format}`;
+};
+
+const headerLines = ({ zone, line, motor, weeks, days, shifts = [], from, to }) => {
+  const lines = [
+    ['Zone', zone],
+    ['Line', line],
+    ['Motor', motor],
+    ['Weeks', weeks.length > 0 ? weeks.join(', ') : 'ALL'],
+    ['Days', days.length > 0 ? [...days].sort().join(', ') : 'ALL'],
+    ['Exported', new Date().toISOString()]
+  ];
+  if (shifts.length > 0) lines.push(['Shifts', shifts.join(', ')]);
+  if (from || to) lines.push(['Range', `${from || '...'} - ${to || '...'}`]);
+  return lines;
+};
+
+const toCells = (row) => EXPORT_COLUMNS.map(column => {
+  const value = row[column];
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value ?? '';
+});
+
+const escapeCsv = (value) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Returns { writeRow(row) -> false when the response buffer is full, end() }
+export const createExportWriter = (res, format, context) => {
+  res.set({
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${buildExportFileName(context, format)}"`,
+    'Cache-Control': 'no-cache'
+  });
+
+  if (format === 'csv') {
+    const header = headerLines(context).map(([key, value]) => `# ${key}: ${value}`);
+    res.write('\uFEFF' + [...header, EXPORT_COLUMNS.join(',')].join('\r\n') + '\r\n');
+    return {
+      writeRow: (row) => res.write(toCells(row).map(escapeCsv).join(',') + '\r\n'),
+      end: async () => { res.end(); }
+    };
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('motorlogs');
+  headerLines(context).forEach(line => sheet.addRow(line).commit());
+  sheet.addRow([]).commit();
+  const columnRow = sheet.addRow(EXPORT_COLUMNS);
+  columnRow.font = { bold: true };
+  columnRow.commit();
+
+  return {
+    writeRow: (row) => {
+      sheet.addRow(toCells(row)).commit();
+      return true;
+    },
+    end: async () => {
+      sheet.commit();
+      await workbook.commit();
+    }
+  };
+};
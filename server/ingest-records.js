@@ -0,0 +1,217 @@
+// Parsing and validation of RawMotorLog-shaped records posted by PLC gateways (POST /api/ingest/motor-logs).
+// Field names follow the MotorLogs columns; numbers may arrive as strings (CSV, PLC JSON exports).
+
+export const INGEST = {
+  maxRecords: Number(process.env.INGEST_MAX_RECORDS || 50_000),
+  maxBody: process.env.INGEST_MAX_BODY || '20mb',
+  maxErrors: 100 // Error report is capped, the counts are not
+};
+
+export const INGEST_COLUMNS = [
+  'Id', 'Timestamp', 'BufferIndex', 'MotorID', 'MotorName', 'Zone', 'Line', 'ProductionWeek',
+  'MaxCurrentLimit', 'MotorCurrent', 'IsMotorOn', 'AvgCurrent', 'RunningTime', 'RecordedAt'
+];
+
+const TIMESTAMP_RE = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,7}))?$/;
+
+// Plant-local wall clock -> "yyyy-MM-dd HH:mm:ss.fff" (CONVERT style 121), null when invalid
+const normalizeTimestamp = (value) => {
+  const match = TIMESTAMP_RE.exec(String(value ?? '').trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, fraction = ''] = match;
+  const ms = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  const d = new Date(ms);
+  // Date.UTC rolls 2026-02-30 over to March - reject instead
+  if (d.getUTCMonth() !== Number(month) - 1 || d.getUTCDate() !== Number(day) || Number(hours) > 23) return null;
+  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}.${fraction.padEnd(3, '0').slice(0, 3)}`;
+};
+
+const isBlank = (value) => value === undefined || value === null || String(value).trim() === '';
+
+const toNumber = (value) => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return NaN;
+  return Number(value.trim().replace(',', '.'));
+};
+
+const toBit = (value) => {
+  if (value === true || value === 1) return true;
+  if (value === false || value === 0) return false;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['1', 'true', 'on'].includes(text)) return true;
+  if (['0', 'false', 'off'].includes(text)) return false;
+  return null;
+};
+
+// Returns { record, errors: [{ field, message }] }; record is null when any field is invalid.
+// requireId = false: records without an Id get one from dbo.MotorLogIds on insert (MQTT worker)
+export const validateRecord = (raw, { requireId = true } = {}) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { record: null, errors: [{ field: null, message: 'record must be an object' }] };
+  }
+
+  const errors = [];
+  const fail = (field, message) => errors.push({ field, message });
+
+  const integer = (field, { optional = false } = {}) => {
+    if (isBlank(raw[field])) {
+      if (!optional) fail(field, 'is required');
+      return null;
+    }
+    const value = toNumber(raw[field]);
+    if (!Number.isSafeInteger(value)) fail(field, 'must be an integer');
+    return value;
+  };
+
+  const number = (field) => {
+    const value = toNumber(raw[field]);
+    if (!Number.isFinite(value)) fail(field, isBlank(raw[field]) ? 'is required' : 'must be a number');
+    return value;
+  };
+
+  const text = (field, maxLength) => {
+    const value = String(raw[field] ?? '').trim();
+    if (!value) fail(field, 'is required');
+    else if (value.length > maxLength) fail(field, `must be at most ${maxLength} characters`);
+    return value;
+  };
+
+  const timestamp = (field, { optional = false } = {}) => {
+    if (isBlank(raw[field])) {
+      if (!optional) fail(field, 'is required');
+      return null;
+    }
+    const value = normalizeTimestamp(raw[field]);
+    if (!value) fail(field, 'must be a plant-local timestamp yyyy-MM-dd HH:mm:ss[.fff]');
+    return value;
+  };
+
+  const record = {
+    Id: integer('Id', { optional: !requireId }),
+    Timestamp: timestamp('Timestamp'),
+    BufferIndex: integer('BufferIndex', { optional: true }),
+    MotorID: integer('MotorID'),
+    MotorName: text('MotorName', 50),
+    Zone: text('Zone', 50),
+    Line: text('Line', 50),
+    ProductionWeek: text('ProductionWeek', 20),
+    MaxCurrentLimit: number('MaxCurrentLimit'),
+    MotorCurrent: number('MotorCurrent'),
+    IsMotorOn: toBit(raw.IsMotorOn),
+    AvgCurrent: number('AvgCurrent'),
+    RunningTime: number('RunningTime'),
+    RecordedAt: timestamp('RecordedAt', { optional: true })
+  };
+  if (record.IsMotorOn === null) fail('IsMotorOn', 'must be 0/1 or true/false');
+
+  return { record: errors.length === 0 ? record : null, errors };
+};
+
+// Compared when BufferIndex cannot tell two samples of the same motor + Timestamp apart
+export const SAMPLE_VALUE_COLUMNS = ['MotorID', 'MaxCurrentLimit', 'MotorCurrent', 'IsMotorOn', 'AvgCurrent', 'RunningTime'];
+
+// The ingest duplicate rule (ingest.js runs the same rule in SQL against stored rows): same motor + Timestamp,
+// then the same BufferIndex when both have one, otherwise the same values
+export const isSameSample = (a, b) =>
+  a.Zone === b.Zone && a.Line === b.Line && a.MotorName === b.MotorName && a.Timestamp === b.Timestamp &&
+  (a.BufferIndex != null && b.BufferIndex != null
+    ? a.BufferIndex === b.BufferIndex
+    : SAMPLE_VALUE_COLUMNS.every(column => a[column] === b[column]));
+
+const timestampKey = (record) => `${record.Zone}|${record.Line}|${record.MotorName}|${record.Timestamp}`;
+
+// Per-record validation of a posted batch; repeats inside the batch count as duplicates (first one wins).
+// errors: [{ index, id, errors }] capped at INGEST.maxErrors
+export const validateBatch = (batch) => {
+  const accepted = [];
+  const errors = [];
+  const seenIds = new Set();
+  const seenSamples = new Map(); // motor + Timestamp -> accepted records
+  let rejected = 0;
+  let duplicates = 0;
+
+  batch.forEach((raw, index) => {
+    const { record, errors: fieldErrors } = validateRecord(raw);
+    if (!record) {
+      rejected++;
+      if (errors.length < INGEST.maxErrors) errors.push({ index, id: raw?.Id ?? null, errors: fieldErrors });
+      return;
+    }
+    const key = timestampKey(record);
+    const sameTimestamp = seenSamples.get(key) ?? [];
+    if (seenIds.has(record.Id) || sameTimestamp.some(seen => isSameSample(seen, record))) {
+      duplicates++;
+      return;
+    }
+    if (record.Id !== null) seenIds.add(record.Id);
+    seenSamples.set(key, [...sameTimestamp, record]);
+    accepted.push(record);
+  });
+
+  return { accepted, errors, rejected, duplicates };
+};
+
+// ISO week as used in MotorLogs.ProductionWeek: "2026-01-26 ..." -> "26W05"
+export const productionWeekOf = (timestamp) => {
+  const match = TIMESTAMP_RE.exec(timestamp);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  // Thursday of the same week decides the ISO year
+  date.setUTCDate(date.getUTCDate() + 3 - ((date.getUTCDay() + 6) % 7));
+  const isoYear = date.getUTCFullYear();
+  const week = Math.floor((date.getTime() - Date.UTC(isoYear, 0, 1)) / (7 * 86_400_000)) + 1;
+  return `${String(isoYear).slice(-2)}W${String(week).padStart(2, '0')}`;
+};
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and line breaks
+const parseCsvRows = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Header row with column names, then one record per row. Blank lines and "# ..." comment lines are skipped.
+export const parseCsvRecords = (text) => {
+  const rows = parseCsvRows(String(text).replace(/^\uFEFF/, ''))
+    .filter(row => !(row.length === 1 && row[0].trim() === '') && !row[0].startsWith('#'));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(name => name.trim());
+  const unknown = header.filter(name => !INGEST_COLUMNS.includes(name));
+  if (unknown.length > 0) throw new Error(`unknown CSV columns: ${unknown.join(', ')}`);
+
+  return rows.slice(1).map(row => Object.fromEntries(header.map((name, i) => [name, row[i]])));
+};
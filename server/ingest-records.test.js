@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateRecord, validateBatch, parseCsvRecords, isSameSample } from './ingest-records.js';
+
+// Record validation, CSV parsing and the in-batch duplicate rule - no SQL involved
+
+const raw = (overrides = {}) => ({
+  Id: 1,
+  Timestamp: '2026-10-19 08:00:00.000',
+  MotorID: 107,
+  MotorName: 'Motor 7',
+  Zone: 'Press Shop',
+  Line: 'Line 1',
+  ProductionWeek: '26W43',
+  MaxCurrentLimit: 10,
+  MotorCurrent: 4.2,
+  IsMotorOn: 1,
+  AvgCurrent: 4,
+  RunningTime: 120,
+  ...overrides
+});
+
+const fieldsOf = (errors) => errors.map(e => e.field).sort();
+
+test('accepts numbers and bits sent as strings', () => {
+  const { record, errors } = validateRecord(raw({ Id: '5', MotorCurrent: '4,5', IsMotorOn: 'true', Timestamp: '2026-10-19T08:00:00.1234567' }));
+  assert.deepEqual(errors, []);
+  assert.equal(record.Id, 5);
+  assert.equal(record.MotorCurrent, 4.5);
+  assert.equal(record.IsMotorOn, true);
+  assert.equal(record.Timestamp, '2026-10-19 08:00:00.123');
+  assert.equal(record.BufferIndex, null);
+});
+
+test('reports every missing field', () => {
+  const { record, errors } = validateRecord({});
+  assert.equal(record, null);
+  assert.deepEqual(fieldsOf(errors), [
+    'AvgCurrent', 'Id', 'IsMotorOn', 'Line', 'MaxCurrentLimit', 'MotorCurrent', 'MotorID', 'MotorName',
+    'ProductionWeek', 'RunningTime', 'Timestamp', 'Zone'
+  ]);
+  assert.ok(errors.filter(e => e.field !== 'IsMotorOn').every(e => e.message === 'is required'));
+});
+
+test('Id is optional only when requireId is false', () => {
+  assert.deepEqual(fieldsOf(validateRecord(raw({ Id: undefined })).errors), ['Id']);
+  const { record, errors } = validateRecord(raw({ Id: undefined }), { requireId: false });
+  assert.deepEqual(errors, []);
+  assert.equal(record.Id, null);
+});
+
+test('rejects bad types', () => {
+  const { record, errors } = validateRecord(raw({
+    Id: 1.5,
+    MotorID: 'seven',
+    MotorCurrent: 'high',
+    IsMotorOn: 'maybe',
+    Zone: 'x'.repeat(51),
+    Timestamp: '2026-02-30 08:00:00',
+    RecordedAt: '19.10.2026'
+  }));
+  assert.equal(record, null);
+  assert.deepEqual(fieldsOf(errors), ['Id', 'IsMotorOn', 'MotorCurrent', 'MotorID', 'RecordedAt', 'Timestamp', 'Zone']);
+  assert.equal(errors.find(e => e.field === 'MotorCurrent').message, 'must be a number');
+  assert.equal(errors.find(e => e.field === 'Zone').message, 'must be at most 50 characters');
+});
+
+test('rejects records that are not objects', () => {
+  for (const value of [null, 'text', 42, [raw()]]) {
+    assert.deepEqual(validateRecord(value), { record: null, errors: [{ field: null, message: 'record must be an object' }] });
+  }
+});
+
+test('CSV: quoted fields with commas, quotes and line breaks', () => {
+  const csv = 'Id,MotorName,Zone\n1,"Motor, ""big""","Press\nShop"\n';
+  assert.deepEqual(parseCsvRecords(csv), [{ Id: '1', MotorName: 'Motor, "big"', Zone: 'Press\nShop' }]);
+});
+
+test('CSV: CRLF line endings, BOM, blank and comment lines', () => {
+  const csv = '\uFEFFId,MotorName\r\n# exported by gateway 3\r\n1,Motor 7\r\n\r\n2,"Motor 8"\r\n';
+  assert.deepEqual(parseCsvRecords(csv), [{ Id: '1', MotorName: 'Motor 7' }, { Id: '2', MotorName: 'Motor 8' }]);
+});
+
+test('CSV: last row without a line break and empty input', () => {
+  assert.deepEqual(parseCsvRecords('Id\r\n3'), [{ Id: '3' }]);
+  assert.deepEqual(parseCsvRecords(''), []);
+});
+
+test('CSV: unknown columns are rejected', () => {
+  assert.throws(() => parseCsvRecords('Id,Temperature\n1,20'), /unknown CSV columns: Temperature/);
+});
+
+test('same sample: BufferIndex decides when both sides have one, values otherwise', () => {
+  const a = validateRecord(raw({ BufferIndex: 1 })).record;
+  assert.ok(isSameSample(a, { ...a, Id: 2 }));
+  assert.ok(!isSameSample(a, { ...a, BufferIndex: 2 }));
+  assert.ok(isSameSample(a, { ...a, BufferIndex: 1, MotorCurrent: 9 }));
+  assert.ok(isSameSample(a, { ...a, BufferIndex: null }));
+  assert.ok(!isSameSample(a, { ...a, BufferIndex: null, MotorCurrent: 9 }));
+  assert.ok(!isSameSample(a, { ...a, Timestamp: '2026-10-19 08:00:01.000' }));
+});
+
+test('in-batch duplicates: repeated Id or repeated sample, first one wins', () => {
+  const batch = [
+    raw({ Id: 1 }),
+    raw({ Id: 1, Timestamp: '2026-10-19 08:00:01.000' }), // same Id
+    raw({ Id: 2 }), // same sample as Id 1
+    raw({ Id: 3, MotorCurrent: 5 }), // same Timestamp, different values
+    raw({ Id: 4, MotorName: 'Motor 8' }), // other motor
+    raw({ Id: 5, MotorID: 'x' })
+  ];
+  const { accepted, errors, rejected, duplicates } = validateBatch(batch);
+  assert.deepEqual(accepted.map(r => r.Id), [1, 3, 4]);
+  assert.equal(duplicates, 2);
+  assert.equal(rejected, 1);
+  assert.deepEqual(errors, [{ index: 5, id: 5, errors: [{ field: 'MotorID', message: 'must be an integer' }] }]);
+});
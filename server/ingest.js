@@ -0,0 +1,161 @@
+import express from 'express';
+import { getPool, sql } from './db.js';
+import { plantNowSql } from './plant-time.js';
+import { getOptionalColumns } from './data-quality.js';
+import { INGEST, SAMPLE_VALUE_COLUMNS, validateBatch, parseCsvRecords } from './ingest-records.js';
+
+// Bulk ingestion for PLC edge gateways: batches of RawMotorLog records as JSON or CSV.
+// Valid records are bulk-loaded into a temp table and copied into dbo.MotorLogs in one statement;
+// invalid ones are reported back by batch index. Re-posting a batch is safe: a record is skipped
+// when its Id already exists, or the same motor already has the same sample (isSameSample).
+const API_KEY = process.env.INGEST_API_KEY || '';
+
+const requireApiKey = (req, res, next) => {
+  if (API_KEY && req.get('X-Api-Key') !== API_KEY) {
+    return res.status(401).json({ message: 'invalid or missing X-Api-Key' });
+  }
+  next();
+};
+
+
+const buildIncomingTable = (records) => {
+  const table = new sql.Table('#IncomingMotorLogs');
+  table.create = true;
+  table.columns.add('Id', sql.BigInt, { nullable: true });
+  table.columns.add('Timestamp', sql.NVarChar(23), { nullable: false });
+  table.columns.add('BufferIndex', sql.BigInt, { nullable: true });
+  table.columns.add('MotorID', sql.Int, { nullable: false });
+  table.columns.add('MotorName', sql.NVarChar(50), { nullable: false });
+  table.columns.add('Zone', sql.NVarChar(50), { nullable: false });
+  table.columns.add('Line', sql.NVarChar(50), { nullable: false });
+  table.columns.add('ProductionWeek', sql.NVarChar(20), { nullable: false });
+  table.columns.add('MaxCurrentLimit', sql.Float, { nullable: false });
+  table.columns.add('MotorCurrent', sql.Float, { nullable: false });
+  table.columns.add('IsMotorOn', sql.Bit, { nullable: false });
+  table.columns.add('AvgCurrent', sql.Float, { nullable: false });
+  table.columns.add('RunningTime', sql.Float, { nullable: false });
+  table.columns.add('RecordedAt', sql.NVarChar(23), { nullable: true });
+  for (const r of records) {
+    table.rows.add(
+      r.Id, r.Timestamp, r.BufferIndex, r.MotorID, r.MotorName, r.Zone, r.Line, r.ProductionWeek,
+      r.MaxCurrentLimit, r.MotorCurrent, r.IsMotorOn, r.AvgCurrent, r.RunningTime, r.RecordedAt
+    );
+  }
+  return table;
+};
+
+// BufferIndex / RecordedAt are only written when MotorLogs has them; RecordedAt defaults to the ingest time.
+// Posted Ids are kept (gateways); records without one (MQTT) get the next value of the dbo.MotorLogIds
+// sequence (server/db-ingest.sql), which is only needed when such records are written.
+// Returns the number of inserted rows.
+export const insertMotorLogs = async (pool, records, columns) => {
+  // isSameSample in SQL: rows stored without the BufferIndex column compare by values
+  const sameValues = SAMPLE_VALUE_COLUMNS.map(column => `l.${column} = i.${column}`).join(' AND ');
+  const sameSample = columns.bufferIndex
+    ? `((i.BufferIndex IS NOT NULL AND l.BufferIndex IS NOT NULL AND l.BufferIndex = i.BufferIndex)
+        OR ((i.BufferIndex IS NULL OR l.BufferIndex IS NULL) AND ${sameValues}))`
+    : sameValues;
+  const duplicateFilter = `NOT EXISTS (
+    SELECT 1 FROM dbo.MotorLogs l WITH (UPDLOCK, HOLDLOCK)
+    WHERE l.Zone = i.Zone
+      AND l.Line = i.Line
+      AND l.MotorName = i.MotorName
+      AND l.ProductionWeek = i.ProductionWeek
+      AND l.[Timestamp] = CONVERT(DATETIME2, i.[Timestamp], 121)
+      AND ${sameSample}
+  )`;
+
+  // NEXT VALUE FOR is not allowed inside ISNULL/CASE, so posted and sequence Ids are two inserts
+  const insertFrom = (idExpression, where) => `
+    INSERT INTO dbo.MotorLogs (
+      Id, [Timestamp], MotorID, MotorName, Zone, Line, ProductionWeek,
+      MaxCurrentLimit, MotorCurrent, IsMotorOn, AvgCurrent, RunningTime
+      ${columns.bufferIndex ? ', BufferIndex' : ''}
+      ${columns.recordedAt ? ', RecordedAt' : ''}
+    )
+    SELECT
+      ${idExpression},
+      CONVERT(DATETIME2, i.[Timestamp], 121), i.MotorID, i.MotorName, i.Zone, i.Line, i.ProductionWeek,
+      i.MaxCurrentLimit, i.MotorCurrent, i.IsMotorOn, i.AvgCurrent, i.RunningTime
+      ${columns.bufferIndex ? ', i.BufferIndex' : ''}
+      ${columns.recordedAt ? ', ISNULL(CONVERT(DATETIME2, i.RecordedAt, 121), CONVERT(DATETIME2, @plantNow, 121))' : ''}
+    FROM #IncomingMotorLogs i
+    WHERE ${where} AND ${duplicateFilter};
+  `;
+  const hasIds = records.some(r => r.Id !== null);
+  const needsIds = records.some(r => r.Id === null);
+
+  const transaction = new sql.Transaction(pool);
+  await transaction.begin();
+  try {
+    await new sql.Request(transaction).bulk(buildIncomingTable(records));
+    const result = await new sql.Request(transaction)
+      .input('plantNow', sql.NVarChar, plantNowSql())
+      .query(`
+        ${hasIds ? insertFrom('i.Id', `i.Id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM dbo.MotorLogs l WITH (UPDLOCK, HOLDLOCK) WHERE l.Id = i.Id)`) : ''}
+        ${needsIds ? insertFrom('NEXT VALUE FOR dbo.MotorLogIds OVER (ORDER BY i.[Timestamp], i.BufferIndex)', 'i.Id IS NULL') : ''}
+
+        DROP TABLE #IncomingMotorLogs;
+      `);
+    await transaction.commit();
+    return result.rowsAffected.reduce((sum, n) => sum + n, 0);
+  } catch (err) {
+    await transaction.rollback();
+    throw err;
+  }
+};
+
+// JSON: an array of records or { records: [...] }; CSV: header row + one record per line
+const readBatch = (req) => {
+  if (typeof req.body === 'string') return parseCsvRecords(req.body);
+  if (Array.isArray(req.body)) return req.body;
+  if (Array.isArray(req.body?.records)) return req.body.records;
+  return null;
+};
+
+// Registered before the app-wide JSON parser - batches need a larger body limit
+export const registerIngestRoutes = (app) => {
+  app.post(
+    '/api/ingest/motor-logs',
+    requireApiKey,
+    express.json({ limit: INGEST.maxBody }),
+    express.text({ type: ['text/csv', 'text/plain'], limit: INGEST.maxBody }),
+    async (req, res) => {
+      let batch;
+      try {
+        batch = readBatch(req);
+      } catch (err) {
+        return res.status(400).json({ message: err.message });
+      }
+      if (!batch) return res.status(400).json({ message: 'body must be a JSON array, { records: [...] } or text/csv' });
+      if (batch.length === 0) return res.status(400).json({ message: 'batch is empty' });
+      if (batch.length > INGEST.maxRecords) {
+        return res.status(413).json({ message: `batch must have at most ${INGEST.maxRecords} records` });
+      }
+
+      const { accepted, errors, rejected, duplicates } = validateBatch(batch);
+
+      try {
+        let inserted = 0;
+        if (accepted.length > 0) {
+          const pool = await getPool();
+          const columns = await getOptionalColumns(pool);
+          inserted = await insertMotorLogs(pool, accepted, columns);
+        }
+
+        res.json({
+          received: batch.length,
+          inserted,
+          duplicates: duplicates + accepted.length - inserted,
+          rejected,
+          errors,
+          errorsTruncated: rejected > errors.length
+        });
+      } catch (err) {
+        console.error('ingest error:', err.message);
+        res.status(500).json({ message: err.message });
+      }
+    }
+  );
+};
@@ -0,0 +1,161 @@
+import { getPool, sql } from './db.js';
+
+// Server-Sent Events push of new MotorLogs rows for one motor.
+// One poller per subscribed motor is shared by all of its clients; rows are
+// tracked by Id so every client only receives rows after the last Id it saw.
+const POLL_MS = Number(process.env.LIVE_STREAM_POLL_MS || 2000);
+const HEARTBEAT_MS = Number(process.env.LIVE_STREAM_HEARTBEAT_MS || 15000);
+const BATCH_LIMIT = Number(process.env.LIVE_STREAM_BATCH_LIMIT || 5000);
+
+const channels = new Map();
+
+const fetchRowsAfter = async ({ zone, line, motor }, afterId) => {
+  const pool = await getPool();
+  const request = pool.request();
+  request.input('zone', sql.NVarChar, zone);
+  request.input('line', sql.NVarChar, line);
+  request.input('motor', sql.NVarChar, motor);
+  request.input('afterId', sql.BigInt, afterId);
+  request.input('limit', sql.Int, BATCH_LIMIT);
+
+  const result = await request.query(`
+    SELECT TOP (@limit)
+      [Id],
+      FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
+      [MotorName],
+      [Zone],
+      [Line],
+      [ProductionWeek],
+      [MaxCurrentLimit],
+      [MotorCurrent],
+      [IsMotorOn],
+      [AvgCurrent],
+      [RunningTime]
+    FROM [dbo].[MotorLogs]
+    WHERE [MotorName] = @motor
+      AND [Zone] = @zone
+      AND [Line] = @line
+      AND [Id] > @afterId
+    ORDER BY [Id] ASC;
+  `);
+  return result.recordset;
+};
+
+const fetchMaxId = async ({ zone, line, motor }) => {
+  const pool = await getPool();
+  const request = pool.request();
+  request.input('zone', sql.NVarChar, zone);
+  request.input('line', sql.NVarChar, line);
+  request.input('motor', sql.NVarChar, motor);
+
+  const result = await request.query(`
+    SELECT ISNULL(MAX([Id]), 0) AS MaxId
+    FROM [dbo].[MotorLogs]
+    WHERE [MotorName] = @motor AND [Zone] = @zone AND [Line] = @line;
+  `);
+  return Number(result.recordset[0].MaxId);
+};
+
+const send = (res, rows) => {
+  const lastId = rows[rows.length - 1].Id;
+  res.write(`id: ${lastId}\nevent: logs\ndata: ${JSON.stringify(rows)}\n\n`);
+};
+
+const pollChannel = async (key, channel) => {
+  if (channel.polling) return;
+  channel.polling = true;
+  try {
+    const rows = await fetchRowsAfter(channel.motor, channel.lastId);
+    if (rows.length > 0) {
+      channel.lastId = Number(rows[rows.length - 1].Id);
+      channel.clients.forEach(res => send(res, rows));
+    }
+  } catch (err) {
+    console.error(`live-stream poll error (${key}):`, err.message);
+    channel.clients.forEach(res => res.write(`event: poll-error\ndata: ${JSON.stringify({ message: err.message })}\n\n`));
+  } finally {
+    channel.polling = false;
+  }
+};
+
+const getChannel = async (motor) => {
+  const key = `${motor.zone}:${motor.line}:${motor.motor}`;
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = { motor, clients: new Set(), lastId: await fetchMaxId(motor), polling: false, timer: null };
+    // Another connection may have created it while we waited for MAX(Id)
+    if (channels.has(key)) return { key, channel: channels.get(key) };
+    channel.timer = setInterval(() => pollChannel(key, channel), POLL_MS);
+    channels.set(key, channel);
+  }
+  return { key, channel };
+};
+
+// Stops the poller once the channel has no clients left
+const releaseChannel = (key, channel) => {
+  if (channel.clients.size > 0) return;
+  clearInterval(channel.timer);
+  if (channels.get(key) === channel) channels.delete(key);
+};
+
+export const registerLiveStream = (app) => {
+  app.get('/api/motor-logs-stream', async (req, res) => {
+    const { zone, line, motor } = req.query;
+    if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+    // EventSource resends the last event id on reconnect - it is newer than the URL's afterId
+    const afterId = Number(req.get('Last-Event-ID') ?? req.query.afterId ?? NaN);
+
+    // The client may leave while the channel is being set up; its close event must not be missed
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+
+    let subscription;
+    do {
+      try {
+        subscription = await getChannel({ zone, line, motor });
+      } catch (err) {
+        if (closed) return;
+        return res.status(500).json({ message: err.message });
+      }
+      if (closed) {
+        releaseChannel(subscription.key, subscription.channel);
+        return;
+      }
+      // Its last client may have left meanwhile (poller stopped) - join a live channel instead
+    } while (channels.get(subscription.key) !== subscription.channel);
+    const { key, channel } = subscription;
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${POLL_MS * 2}\n\n`);
+
+    channel.clients.add(res);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      channel.clients.delete(res);
+      releaseChannel(key, channel);
+    });
+
+    // Catch up on rows the client missed before it joined the shared poller;
+    // anything newer than joinedAt arrives through the poller (clients dedupe by Id)
+    const joinedAt = channel.lastId;
+    if (!Number.isNaN(afterId) && afterId < joinedAt) {
+      try {
+        const missed = (await fetchRowsAfter(channel.motor, afterId))
+          .filter(row => Number(row.Id) <= joinedAt);
+        if (missed.length > 0 && !res.writableEnded) send(res, missed);
+      } catch (err) {
+        console.error(`live-stream catch-up error (${key}):`, err.message);
+      }
+    }
+  });
+};
@@ -0,0 +1,10 @@
+import { HEALTH_DEFAULTS, scoreMotorHealth as scoreHealth } from '../shared/motor-health.js';
+
+// Health score settings for /api/motor-health, the scoring itself lives in shared/motor-health.js
+export const HEALTH = {
+  ...HEALTH_DEFAULTS,
+  defaultDays: Number(process.env.HEALTH_WINDOW_DAYS || HEALTH_DEFAULTS.defaultDays),
+  gapSeconds: Number(process.env.HEALTH_GAP_SECONDS || HEALTH_DEFAULTS.gapSeconds)
+};
+
+export const scoreMotorHealth = (rows, nowMs, days) => scoreHealth(rows, nowMs, days, HEALTH);
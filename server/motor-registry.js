@@ -0,0 +1,217 @@
+import { getPool, sql } from './db.js';
+import { plantNowSql } from './plant-time.js';
+
+// Motor registry: nameplate data keyed by the MotorID the loggers write into MotorLogs.
+// The hierarchy (zone/line/motor name) is not stored here - a motor's MotorID comes from its latest log.
+// Table from server/db-motors.sql.
+
+const TEXT_FIELDS = {
+  motorType: 50,
+  manufacturer: 100,
+  location: 100,
+  assetTag: 50,
+  description: 400
+};
+
+const DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// SQL Server "Invalid object name" - db-motors.sql not applied yet
+const isMissingTable = (err) => err?.number === 208;
+
+// Validate a registry entry from the REST API; returns { info } or { error }
+export const normalizeMotorInfo = (body = {}) => {
+  const info = {};
+
+  for (const field of ['ratedCurrent', 'ratedPowerKw']) {
+    const value = body[field];
+    if (value === undefined || value === null || value === '') {
+      info[field] = null;
+    } else if (Number(value) > 0) {
+      info[field] = Number(value);
+    } else {
+      return { error: `${field} must be a number > 0` };
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(TEXT_FIELDS)) {
+    const value = String(body[field] ?? '').trim();
+    if (value.length > maxLength) return { error: `${field} must be at most ${maxLength} characters` };
+    info[field] = value || null;
+  }
+
+  const installDate = String(body.installDate ?? '').trim();
+  if (installDate) {
+    const match = DATE_RE.exec(installDate);
+    const date = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    if (!date || date.getUTCDate() !== Number(match[3]) || date.getUTCMonth() !== Number(match[2]) - 1) {
+      return { error: 'installDate must be yyyy-MM-dd' };
+    }
+  }
+  info.installDate = installDate || null;
+
+  return { info };
+};
+
+const REGISTRY_COLUMNS = `
+  r.MotorID AS motorId,
+  r.RatedCurrent AS ratedCurrent,
+  r.RatedPowerKw AS ratedPowerKw,
+  r.MotorType AS motorType,
+  r.Manufacturer AS manufacturer,
+  r.Location AS location,
+  FORMAT(r.InstallDate, 'yyyy-MM-dd') AS installDate,
+  r.AssetTag AS assetTag,
+  r.Description AS description,
+  FORMAT(r.UpdatedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS updatedAt
+`;
+
+// MotorID of a motor from the hierarchy and its registry entry. registryAvailable = false when the table is not installed.
+// The latest log is found by a backward seek on IX_MotorLogs_ZoneLineMotor_TS (ordered by its key: ProductionWeek, [Timestamp]).
+export const findMotorRegistryEntry = async (pool, { zone, line, motor }) => {
+  const request = pool.request()
+    .input('zone', sql.NVarChar, zone)
+    .input('line', sql.NVarChar, line)
+    .input('motor', sql.NVarChar, motor);
+
+  const idResult = await request.query(`
+    SELECT TOP 1 MotorID
+    FROM dbo.MotorLogs
+    WHERE Zone = @zone AND Line = @line AND MotorName = @motor AND MotorID IS NOT NULL
+    ORDER BY ProductionWeek DESC, [Timestamp] DESC;
+  `);
+  const motorId = idResult.recordset[0]?.MotorID ?? null;
+  if (motorId === null) return { registryAvailable: true, motorId, info: null };
+
+  try {
+    const result = await pool.request()
+      .input('motorId', sql.Int, motorId)
+      .query(`SELECT ${REGISTRY_COLUMNS} FROM dbo.MotorRegistry r WHERE r.MotorID = @motorId;`);
+    return { registryAvailable: true, motorId, info: result.recordset[0] ?? null };
+  } catch (err) {
+    if (isMissingTable(err)) return { registryAvailable: false, motorId, info: null };
+    throw err;
+  }
+};
+
+const parseMotorId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+export const registerMotorRegistryRoutes = (app) => {
+  // Every registered motor with where its MotorID last logged (zone/line/motorName null = no logs)
+  app.get('/api/motor-registry', async (_req, res) => {
+    try {
+      const pool = await getPool();
+      const result = await pool.request().query(`
+        SELECT ${REGISTRY_COLUMNS}, l.Zone AS zone, l.Line AS line, l.MotorName AS motorName
+        FROM dbo.MotorRegistry r
+        OUTER APPLY (
+          SELECT TOP 1 Zone, Line, MotorName
+          FROM dbo.MotorLogs
+          WHERE MotorID = r.MotorID
+          ORDER BY [Timestamp] DESC
+        ) l
+        ORDER BY r.MotorID;
+      `);
+      res.json(result.recordset);
+    } catch (err) {
+      console.error('motor-registry error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // Registry entry of a motor picked in the hierarchy (motor page header)
+  app.get('/api/motor-registry/lookup', async (req, res) => {
+    const { zone, line, motor } = req.query;
+    if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+    try {
+      const pool = await getPool();
+      res.json(await findMotorRegistryEntry(pool, { zone, line, motor }));
+    } catch (err) {
+      console.error('motor-registry lookup error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  app.get('/api/motor-registry/:motorId', async (req, res) => {
+    const motorId = parseMotorId(req.params.motorId);
+    if (motorId === null) return res.status(400).json({ message: 'invalid MotorID' });
+
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('motorId', sql.Int, motorId)
+        .query(`SELECT ${REGISTRY_COLUMNS} FROM dbo.MotorRegistry r WHERE r.MotorID = @motorId;`);
+      if (result.recordset.length === 0) return res.status(404).json({ message: 'motor not registered' });
+      res.json(result.recordset[0]);
+    } catch (err) {
+      console.error('motor-registry get error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // Create or replace the entry (201 when it was new)
+  app.put('/api/motor-registry/:motorId', async (req, res) => {
+    const motorId = parseMotorId(req.params.motorId);
+    if (motorId === null) return res.status(400).json({ message: 'invalid MotorID' });
+    const { info, error } = normalizeMotorInfo(req.body);
+    if (error) return res.status(400).json({ message: error });
+
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('motorId', sql.Int, motorId)
+        .input('ratedCurrent', sql.Float, info.ratedCurrent)
+        .input('ratedPowerKw', sql.Float, info.ratedPowerKw)
+        .input('motorType', sql.NVarChar, info.motorType)
+        .input('manufacturer', sql.NVarChar, info.manufacturer)
+        .input('location', sql.NVarChar, info.location)
+        .input('installDate', sql.NVarChar, info.installDate)
+        .input('assetTag', sql.NVarChar, info.assetTag)
+        .input('description', sql.NVarChar, info.description)
+        .input('plantNow', sql.NVarChar, plantNowSql())
+        .query(`
+          DECLARE @actions TABLE (Action NVARCHAR(10));
+
+          MERGE dbo.MotorRegistry WITH (HOLDLOCK) AS t
+          USING (SELECT @motorId AS MotorID) AS s ON t.MotorID = s.MotorID
+          WHEN MATCHED THEN UPDATE SET
+            RatedCurrent = @ratedCurrent, RatedPowerKw = @ratedPowerKw, MotorType = @motorType,
+            Manufacturer = @manufacturer, Location = @location, InstallDate = CONVERT(DATE, @installDate, 23),
+            AssetTag = @assetTag, Description = @description, UpdatedAt = CONVERT(DATETIME2, @plantNow, 121)
+          WHEN NOT MATCHED THEN INSERT
+            (MotorID, RatedCurrent, RatedPowerKw, MotorType, Manufacturer, Location, InstallDate, AssetTag, Description, UpdatedAt)
+            VALUES (@motorId, @ratedCurrent, @ratedPowerKw, @motorType, @manufacturer, @location,
+              CONVERT(DATE, @installDate, 23), @assetTag, @description, CONVERT(DATETIME2, @plantNow, 121))
+          OUTPUT $action INTO @actions;
+
+          SELECT Action FROM @actions;
+          SELECT ${REGISTRY_COLUMNS} FROM dbo.MotorRegistry r WHERE r.MotorID = @motorId;
+        `);
+      const created = result.recordsets[0][0]?.Action === 'INSERT';
+      res.status(created ? 201 : 200).json(result.recordsets[1][0]);
+    } catch (err) {
+      console.error('motor-registry save error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  app.delete('/api/motor-registry/:motorId', async (req, res) => {
+    const motorId = parseMotorId(req.params.motorId);
+    if (motorId === null) return res.status(400).json({ message: 'invalid MotorID' });
+
+    try {
+      const pool = await getPool();
+      const result = await pool.request()
+        .input('motorId', sql.Int, motorId)
+        .query('DELETE FROM dbo.MotorRegistry WHERE MotorID = @motorId;');
+      if (result.rowsAffected[0] === 0) return res.status(404).json({ message: 'motor not registered' });
+      res.status(204).end();
+    } catch (err) {
+      console.error('motor-registry delete error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+};
@@ -0,0 +1,235 @@
+import mqtt from 'mqtt';
+import { getPool } from './db.js';
+import { plantNowSql, toPlantNaiveMs } from './plant-time.js';
+import { getOptionalColumns } from './data-quality.js';
+import { insertMotorLogs } from './ingest.js';
+import { validateRecord, productionWeekOf } from './ingest-records.js';
+
+// Optional worker: subscribes to PLC telemetry topics, maps each message to RawMotorLog fields,
+// buffers the samples and batch-writes them to dbo.MotorLogs (Ids from dbo.MotorLogIds).
+// Enabled when MQTT_URL is set; its counters and lag are reported on /api/health.
+
+// "MotorCurrent=current,IsMotorOn=running" -> { MotorCurrent: 'current', IsMotorOn: 'running' }
+const parseFieldMap = (value) => Object.fromEntries(
+  value.split(',')
+    .map(pair => pair.split('=').map(part => part.trim()))
+    .filter(([field, key]) => field && key)
+);
+
+export const MQTT_INGEST = {
+  url: process.env.MQTT_URL || '',
+  username: process.env.MQTT_USERNAME || undefined,
+  password: process.env.MQTT_PASSWORD || undefined,
+  clientId: process.env.MQTT_CLIENT_ID || 'motor-analytics-ingest', // Stable id keeps the persistent session across restarts
+  topics: (process.env.MQTT_TOPICS || 'plant/+/+/+/telemetry').split(',').map(t => t.trim()).filter(Boolean),
+  // {Field} segments fill RawMotorLog fields the payload does not carry
+  topicPattern: process.env.MQTT_TOPIC_PATTERN || 'plant/{Zone}/{Line}/{MotorName}/telemetry',
+  fieldMap: parseFieldMap(process.env.MQTT_FIELD_MAP || ''),
+  qos: Number(process.env.MQTT_QOS || 1),
+  batchSize: Number(process.env.MQTT_BATCH_SIZE || 500),
+  flushMs: Number(process.env.MQTT_FLUSH_MS || 1000),
+  maxBuffer: Number(process.env.MQTT_MAX_BUFFER || 50_000) // Oldest samples are dropped beyond this while SQL is down
+};
+
+const PAYLOAD_FIELDS = [
+  'Timestamp', 'BufferIndex', 'MotorID', 'MotorName', 'Zone', 'Line', 'ProductionWeek',
+  'MaxCurrentLimit', 'MotorCurrent', 'IsMotorOn', 'AvgCurrent', 'RunningTime'
+];
+
+const topicValues = (topic, pattern) => {
+  const parts = topic.split('/');
+  const values = {};
+  pattern.split('/').forEach((segment, i) => {
+    const match = /^\{(\w+)\}$/.exec(segment);
+    if (match && parts[i]) values[match[1]] = parts[i];
+  });
+  return values;
+};
+
+// Epoch ms or an ISO string with an offset is an instant -> plant wall clock; anything else is plant-local already
+const toPlantTimestamp = (value) => {
+  if (typeof value === 'number') return plantNowSql(toPlantNaiveMs(value));
+  if (typeof value === 'string' && /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? value : plantNowSql(toPlantNaiveMs(ms));
+  }
+  return value;
+};
+
+// One message (a sample object or an array of them) -> raw records for validateRecord.
+// Missing Timestamp = receive time, ProductionWeek from the timestamp. MotorID must come from the payload
+// or the topic ({MotorID} segment) - motor names repeat across lines, so it is never derived from the name.
+export const mapMqttMessage = (topic, payload, receivedNaiveMs, config = MQTT_INGEST) => {
+  const body = JSON.parse(payload.toString());
+  const samples = Array.isArray(body) ? body : [body];
+  const fromTopic = topicValues(topic, config.topicPattern);
+  const receivedAt = plantNowSql(receivedNaiveMs);
+
+  return samples.map(sample => {
+    const raw = { ...fromTopic };
+    for (const field of PAYLOAD_FIELDS) {
+      const value = sample?.[config.fieldMap[field] ?? field];
+      if (value !== undefined && value !== null) raw[field] = value;
+    }
+    raw.Timestamp = raw.Timestamp === undefined ? receivedAt : toPlantTimestamp(raw.Timestamp);
+    raw.RecordedAt = receivedAt;
+    raw.ProductionWeek ??= productionWeekOf(String(raw.Timestamp)) ?? undefined;
+    return raw;
+  });
+};
+
+const writeToSql = async (records) => {
+  const pool = await getPool();
+  const columns = await getOptionalColumns(pool);
+  return insertMotorLogs(pool, records, columns);
+};
+
+// connect / write are injectable so the worker can run against a stand-in broker or without SQL
+export const createMqttIngest = ({ config = MQTT_INGEST, connect = mqtt.connect, write = writeToSql } = {}) => {
+  let client = null;
+  let timer = null;
+  let flushing = null; // In-flight flush
+  let writing = []; // Batch taken off the buffer, not confirmed written yet
+  const buffer = [];
+  let lastError = null;
+  const stats = {
+    connected: false,
+    messages: 0,
+    written: 0,
+    rejected: 0,
+    dropped: 0,
+    lastMessageAt: null,
+    lastWriteAt: null
+  };
+
+  const reportError = (message) => {
+    // Log once per distinct error instead of every message / flush
+    if (message !== lastError) console.error('mqtt-ingest error:', message);
+    lastError = message;
+  };
+
+  // Drop the oldest samples beyond maxBuffer
+  const trimBuffer = () => {
+    const excess = buffer.length - config.maxBuffer;
+    if (excess > 0) {
+      stats.dropped += excess;
+      buffer.splice(0, excess);
+    }
+  };
+
+  const enqueue = (records) => {
+    buffer.push(...records);
+    trimBuffer();
+    if (buffer.length >= config.batchSize) flush();
+  };
+
+  // Each batch leaves the buffer before the write, so samples trimmed meanwhile are never the ones written.
+  // A failed batch goes back to the front and is retried on the next flush.
+  const writeBuffered = async () => {
+    try {
+      while (buffer.length > 0) {
+        writing = buffer.splice(0, config.batchSize);
+        try {
+          await write(writing);
+        } catch (err) {
+          buffer.unshift(...writing);
+          trimBuffer();
+          throw err;
+        }
+        stats.written += writing.length;
+        stats.lastWriteAt = plantNowSql();
+      }
+      lastError = null;
+    } catch (err) {
+      reportError(err.message);
+    } finally {
+      writing = [];
+    }
+  };
+
+  // One flush at a time; resolves when the in-flight flush is done
+  const flush = () => {
+    if (!flushing && buffer.length > 0) {
+      flushing = writeBuffered().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing ?? Promise.resolve();
+  };
+
+  const handleMessage = (topic, payload) => {
+    stats.messages++;
+    stats.lastMessageAt = plantNowSql();
+    let raws;
+    try {
+      raws = mapMqttMessage(topic, payload, toPlantNaiveMs(), config);
+    } catch (err) {
+      stats.rejected++;
+      reportError(`invalid payload on ${topic}: ${err.message}`);
+      return;
+    }
+
+    const records = [];
+    for (const raw of raws) {
+      const { record, errors } = validateRecord(raw, { requireId: false });
+      if (record) {
+        records.push(record);
+      } else {
+        stats.rejected++;
+        reportError(`rejected sample on ${topic}: ${errors.map(e => `${e.field} ${e.message}`).join(', ')}`);
+      }
+    }
+    enqueue(records);
+  };
+
+  return {
+    start() {
+      client = connect(config.url, {
+        clientId: config.clientId,
+        username: config.username,
+        password: config.password,
+        clean: false // Persistent session - the broker keeps QoS 1 messages while we are away
+      });
+      client.on('connect', () => {
+        stats.connected = true;
+        client.subscribe(config.topics, { qos: config.qos }, (err) => err && reportError(`subscribe failed: ${err.message}`));
+      });
+      client.on('close', () => { stats.connected = false; });
+      client.on('error', (err) => reportError(err.message));
+      client.on('message', handleMessage);
+      timer = setInterval(flush, config.flushMs);
+    },
+
+    // Writes what is still buffered (after a flush that was already running) before disconnecting
+    async stop() {
+      clearInterval(timer);
+      await flushing;
+      await flush();
+      await client?.endAsync();
+    },
+
+    // lagSeconds: age of the oldest sample not yet written to SQL
+    status() {
+      const oldest = (writing[0] ?? buffer[0])?.Timestamp;
+      const lagMs = oldest ? toPlantNaiveMs() - Date.parse(`${oldest.replace(' ', 'T')}Z`) : 0;
+      return {
+        ...stats,
+        topics: config.topics,
+        buffered: writing.length + buffer.length,
+        lagSeconds: Math.max(0, Math.round(lagMs / 1000)),
+        lastError
+      };
+    }
+  };
+};
+
+let worker = null;
+
+export const startMqttIngest = () => {
+  worker = createMqttIngest();
+  worker.start();
+  return worker;
+};
+
+// null when the worker is not running (MQTT_URL unset)
+export const getMqttIngestStatus = () => worker?.status() ?? null;
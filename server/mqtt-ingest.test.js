@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { createMqttIngest, MQTT_INGEST } from './mqtt-ingest.js';
+
+// Worker against a stand-in broker (fake connect) and a recording write instead of SQL
+
+const TOPIC = 'plant/Press Shop/Line 1/Motor 7/telemetry';
+
+const sample = (n) => Buffer.from(JSON.stringify({
+  Timestamp: `2026-10-19 08:00:${String(n).padStart(2, '0')}.000`,
+  MotorID: 107,
+  MaxCurrentLimit: 10,
+  MotorCurrent: n,
+  IsMotorOn: 1,
+  AvgCurrent: n,
+  RunningTime: n
+}));
+
+const createBroker = () => {
+  const client = new EventEmitter();
+  client.subscriptions = [];
+  client.ended = false;
+  client.subscribe = (topics, _options, callback) => {
+    client.subscriptions.push(...topics);
+    callback?.(null);
+  };
+  client.endAsync = async () => {
+    client.ended = true;
+  };
+  return { client, connect: () => client };
+};
+
+// write() resolves immediately unless a test holds it with hold()
+const createWriter = () => {
+  const batches = [];
+  let pending = null;
+  const writer = {
+    batches,
+    written: () => batches.flat().map(r => r.MotorCurrent),
+    hold() {
+      let release;
+      let fail;
+      pending = new Promise((resolve, reject) => {
+        release = resolve;
+        fail = reject;
+      });
+      return { release: () => release(), fail: (err) => fail(err) };
+    },
+    write: async (records) => {
+      const wait = pending;
+      pending = null;
+      if (wait) await wait;
+      batches.push(records);
+    }
+  };
+  return writer;
+};
+
+const startWorker = (overrides = {}) => {
+  const broker = createBroker();
+  const writer = createWriter();
+  const config = { ...MQTT_INGEST, batchSize: 3, flushMs: 60_000, maxBuffer: 100, ...overrides };
+  const worker = createMqttIngest({ config, connect: broker.connect, write: writer.write });
+  worker.start();
+  broker.client.emit('connect');
+  return { worker, client: broker.client, writer };
+};
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('subscribes to the configured topics on connect', async () => {
+  const { worker, client } = startWorker({ topics: ['plant/+/+/+/telemetry'] });
+  assert.deepEqual(client.subscriptions, ['plant/+/+/+/telemetry']);
+  assert.equal(worker.status().connected, true);
+  await worker.stop();
+});
+
+test('writes a batch once batchSize samples are buffered', async () => {
+  const { worker, client, writer } = startWorker();
+  client.emit('message', TOPIC, sample(1));
+  client.emit('message', TOPIC, sample(2));
+  await settle();
+  assert.equal(writer.batches.length, 0);
+
+  client.emit('message', TOPIC, sample(3));
+  await settle();
+  assert.deepEqual(writer.written(), [1, 2, 3]);
+
+  const [record] = writer.batches[0];
+  assert.equal(record.Zone, 'Press Shop');
+  assert.equal(record.MotorName, 'Motor 7');
+  assert.equal(record.MotorID, 107);
+  assert.equal(worker.status().written, 3);
+  await worker.stop();
+});
+
+test('flushes a partial batch on the interval', async () => {
+  const { worker, client, writer } = startWorker({ flushMs: 20 });
+  client.emit('message', TOPIC, sample(1));
+  await new Promise(resolve => setTimeout(resolve, 60));
+  assert.deepEqual(writer.written(), [1]);
+  assert.equal(worker.status().buffered, 0);
+  await worker.stop();
+});
+
+test('rejects malformed payloads and invalid samples without buffering them', async () => {
+  const { worker, client } = startWorker();
+  client.emit('message', TOPIC, Buffer.from('{not json'));
+  client.emit('message', TOPIC, Buffer.from(JSON.stringify({ MotorCurrent: 'abc' })));
+
+  const status = worker.status();
+  assert.equal(status.messages, 2);
+  assert.equal(status.rejected, 2);
+  assert.equal(status.buffered, 0);
+  assert.match(status.lastError, /rejected sample/);
+  await worker.stop();
+});
+
+test('rejects samples without a MotorID instead of deriving it from the motor name', async () => {
+  const { worker, client } = startWorker();
+  const { MotorID, ...withoutId } = JSON.parse(sample(1).toString());
+  client.emit('message', TOPIC, Buffer.from(JSON.stringify(withoutId)));
+
+  const status = worker.status();
+  assert.equal(status.rejected, 1);
+  assert.equal(status.buffered, 0);
+  assert.match(status.lastError, /MotorID/);
+  await worker.stop();
+});
+
+test('takes MotorID from a {MotorID} topic segment', async () => {
+  const { worker, client, writer } = startWorker({ batchSize: 1, topicPattern: 'plant/{Zone}/{Line}/{MotorName}/{MotorID}/telemetry' });
+  const { MotorID, ...withoutId } = JSON.parse(sample(1).toString());
+  client.emit('message', 'plant/Press Shop/Line 1/Motor 7/215/telemetry', Buffer.from(JSON.stringify(withoutId)));
+  await settle();
+
+  assert.equal(writer.batches[0][0].MotorID, 215);
+  await worker.stop();
+});
+
+test('buffer overflow during a write drops only the oldest unwritten samples', async () => {
+  const { worker, client, writer } = startWorker({ batchSize: 2, maxBuffer: 4 });
+  const write = writer.hold();
+  client.emit('message', TOPIC, sample(1));
+  client.emit('message', TOPIC, sample(2)); // Batch [1, 2] is being written
+  for (let n = 3; n <= 7; n++) client.emit('message', TOPIC, sample(n)); // 5 samples, room for 4
+
+  assert.equal(worker.status().dropped, 1);
+  write.release();
+  await worker.stop();
+
+  assert.deepEqual(writer.written(), [1, 2, 4, 5, 6, 7]);
+  assert.equal(worker.status().written, 6);
+});
+
+test('a failed write goes back to the front of the buffer and is retried', async () => {
+  const { worker, client, writer } = startWorker({ batchSize: 2 });
+  const write = writer.hold();
+  client.emit('message', TOPIC, sample(1));
+  client.emit('message', TOPIC, sample(2));
+  client.emit('message', TOPIC, sample(3));
+  write.fail(new Error('SQL down'));
+  await settle();
+
+  const status = worker.status();
+  assert.equal(status.buffered, 3);
+  assert.equal(status.lastError, 'SQL down');
+
+  await worker.stop();
+  assert.deepEqual(writer.written(), [1, 2, 3]);
+  assert.equal(worker.status().lastError, null);
+});
+
+test('stop writes the buffered samples and disconnects', async () => {
+  const { worker, client, writer } = startWorker();
+  client.emit('message', TOPIC, sample(1));
+  await worker.stop();
+
+  assert.deepEqual(writer.written(), [1]);
+  assert.equal(client.ended, true);
+});
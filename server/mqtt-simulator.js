@@ -0,0 +1,45 @@
+import mqtt from 'mqtt';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Publishes fake PLC telemetry for a few motors, to try the MQTT ingest worker against a local broker:
+//   docker run -d -p 1883:1883 eclipse-mosquitto:2 mosquitto -c /mosquitto-no-auth.conf
+//   node server/mqtt-simulator.js [motorCount] [intervalMs]
+const url = process.env.MQTT_URL || 'mqtt://localhost:1883';
+const motorCount = Number(process.argv[2] || 4);
+const intervalMs = Number(process.argv[3] || 1000);
+const zone = process.env.MQTT_SIM_ZONE || 'SimZone';
+const line = process.env.MQTT_SIM_LINE || 'SimLine';
+const firstMotorId = Number(process.env.MQTT_SIM_FIRST_MOTOR_ID || 9001); // Kept clear of the real MotorIDs
+
+const motors = Array.from({ length: motorCount }, (_, i) => ({ id: firstMotorId + i, name: `Motor ${i + 1}`, isOn: true, runningTime: 0 }));
+
+const client = mqtt.connect(url, { clientId: `motor-simulator-${process.pid}` });
+
+client.on('connect', () => {
+  console.log(`✓ Connected to ${url} - publishing ${motorCount} motors every ${intervalMs} ms (Ctrl+C to stop)`);
+
+  setInterval(() => {
+    for (const motor of motors) {
+      // Occasional start/stop, current around 6 A with noise while running
+      if (Math.random() < 0.02) motor.isOn = !motor.isOn;
+      if (motor.isOn) motor.runningTime += intervalMs / 1000;
+      const sample = {
+        Timestamp: Date.now(),
+        MotorID: motor.id,
+        MaxCurrentLimit: 7.5,
+        MotorCurrent: motor.isOn ? Number((6 + Math.random() - 0.5).toFixed(2)) : 0,
+        IsMotorOn: motor.isOn ? 1 : 0,
+        AvgCurrent: 0,
+        RunningTime: Number(motor.runningTime.toFixed(1))
+      };
+      client.publish(`plant/${zone}/${line}/${motor.name}/telemetry`, JSON.stringify(sample), { qos: 1 });
+    }
+  }, intervalMs);
+});
+
+client.on('error', (err) => {
+  console.error('✗ MQTT error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+// Plant timezone. MotorLogs timestamps are naive plant-local wall-clock values, so "now"
+// must be the plant's wall clock too - not the SQL server's GETDATE() or the API host's zone.
+// PLANT_TIMEZONE is an IANA name (e.g. Europe/Warsaw); unset or invalid -> the API host's zone.
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const loadPlantTimezone = () => {
+  const hostZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const configured = process.env.PLANT_TIMEZONE;
+  if (!configured) return hostZone;
+  if (!isValidTimeZone(configured)) {
+    console.warn(`Invalid PLANT_TIMEZONE "${configured}" - using ${hostZone}`);
+    return hostZone;
+  }
+  return configured;
+};
+
+export const PLANT_TIMEZONE = loadPlantTimezone();
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: PLANT_TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+// Instant -> plant wall clock as naive UTC ms (same scale as row.Timestamp.getTime())
+export const toPlantNaiveMs = (instantMs = Date.now()) => {
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instantMs)).map(p => [p.type, p.value]));
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+    instantMs % 1000
+  );
+};
+
+// Plant "now" (or a given naive ms) as "yyyy-MM-dd HH:mm:ss.fff" - pass as NVarChar and CONVERT(DATETIME2, @plantNow, 121) in SQL
+export const plantNowSql = (naiveMs = toPlantNaiveMs()) => new Date(naiveMs).toISOString().replace('T', ' ').replace('Z', '');
@@ -1,40 +1,45 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import sql from 'mssql';
+import { getPool, sql } from './db.js';
+import { STORAGE_CLIENT, getStorage } from './storage/index.js';
+import { bindLogFilter } from './storage/mssql.js';
+import { registerLiveStream } from './live-stream.js';
+import { registerAlertRoutes, startAlertEngine } from './alert-engine.js';
+import { registerTrendRoutes, startTrendEngine } from './trend-engine.js';
+import { registerIngestRoutes } from './ingest.js';
+import { registerMotorRegistryRoutes, findMotorRegistryEntry } from './motor-registry.js';
+import { startMqttIngest, getMqttIngestStatus } from './mqtt-ingest.js';
+import { computeCycleStats } from '../shared/cycle-stats.js';
+import { createExportWriter, XLSX_MAX_ROWS } from './export-writers.js';
+import { PLANT_TIMEZONE, plantNowSql, toPlantNaiveMs } from './plant-time.js';
+import { HEALTH, scoreMotorHealth } from './motor-health.js';
+import { ANOMALY, createAnomalyDetector } from './anomaly-detection.js';
+import { DATA_QUALITY, getOptionalColumns, bindQualityInputs, orderedQualityColumns, QUALITY_AGGREGATES, mapQualityRow } from './data-quality.js';
+import { SHIFTS, buildShiftClause, shiftNameExpression, parseShiftNames, unknownShifts } from './shifts.js';
+import { ZONE_STATUS_DEFAULTS, deriveZoneStatus } from '../shared/zone-status.js';
+import { downsampleBuckets } from '../shared/downsample.js';
 
 dotenv.config();
 
 const app = express();
-app.use(cors());
-app.use(express.json());
+app.use(cors({ exposedHeaders: ['X-Downsampled'] }));
 
-const config = {
-  user: process.env.DB_USER || 'sa',
-  password: process.env.DB_PASSWORD || 'Siemens123!',
-  server: process.env.DB_SERVER || 'localhost',
-  database: process.env.DB_NAME || 'MotorLogDB',
-  port: Number(process.env.DB_PORT || 2000),
-  options: {
-    encrypt: false,
-    trustServerCertificate: true,
-    enableKeepAlive: true,
-    connectionTimeout: 30000,
-    requestTimeout: 30000
-  }
-};
+// Only the routes behind the storage layer (server/storage) work without SQL Server
+const PORTABLE_ROUTES = [
+  '/api/health', '/api/config', '/api/shifts',
+  '/api/zones', '/api/lines', '/api/motors', '/api/weeks', '/api/motor-logs', '/api/motor-summary', '/api/motor-logs-latest'
+];
+if (STORAGE_CLIENT !== 'mssql') {
+  app.use('/api', (req, res, next) => {
+    if (PORTABLE_ROUTES.includes(req.originalUrl.split('?')[0])) return next();
+    res.status(501).json({ message: `not available with DB_CLIENT=${STORAGE_CLIENT} (SQL Server only)` });
+  });
+}
 
-let poolPromise;
-const getPool = async () => {
-  if (!poolPromise) {
-    poolPromise = sql.connect(config).catch(err => {
-      console.error('Database connection error:', err.message);
-      poolPromise = null;
-      throw err;
-    });
-  }
-  return poolPromise;
-};
+// Bulk ingestion from PLC gateways (parses its own JSON/CSV bodies)
+registerIngestRoutes(app);
+app.use(express.json());
 
 // Lightweight metadata cache (zones/lines/motors/weeks) to avoid repeated aggregates
 const metadataCache = new Map();
@@ -43,7 +48,18 @@ const TTL = {
   zones: Number(process.env.METADATA_TTL_ZONES_MS || 60_000),
   lines: Number(process.env.METADATA_TTL_LINES_MS || 30_000),
   motors: Number(process.env.METADATA_TTL_MOTORS_MS || 30_000),
-  weeks: Number(process.env.METADATA_TTL_WEEKS_MS || 300_000)
+  weeks: Number(process.env.METADATA_TTL_WEEKS_MS || 300_000),
+  health: Number(process.env.HEALTH_TTL_MS || 60_000),
+  overview: Number(process.env.OVERVIEW_TTL_MS || 5_000)
+};
+
+// Zone health thresholds (shared/zone-status.js) - a motor is stale when it has logged nothing for ZONE_STALE_MINUTES
+const ZONE_STATUS = {
+  windowMinutes: Number(process.env.ZONE_STATUS_WINDOW_MINUTES || ZONE_STATUS_DEFAULTS.windowMinutes),
+  staleMinutes: Number(process.env.ZONE_STALE_MINUTES || ZONE_STATUS_DEFAULTS.staleMinutes),
+  warningBreaches: Number(process.env.ZONE_WARNING_BREACHES || ZONE_STATUS_DEFAULTS.warningBreaches),
+  criticalBreaches: Number(process.env.ZONE_CRITICAL_BREACHES || ZONE_STATUS_DEFAULTS.criticalBreaches),
+  criticalStaleRatio: Number(process.env.ZONE_CRITICAL_STALE_RATIO || ZONE_STATUS_DEFAULTS.criticalStaleRatio)
 };
 
 const getCached = async (key, ttl, fetcher) => {
@@ -68,31 +84,50 @@ const getCached = async (key, ttl, fetcher) => {
   return promise;
 };
 
+// mqtt: ingest worker counters and lag, only when MQTT_URL is set
 app.get('/api/health', async (_req, res) => {
+  const mqtt = getMqttIngestStatus();
   try {
-    const pool = await getPool();
-    await pool.request().query('SELECT 1');
-    res.json({ status: 'ok' });
+    const storage = await getStorage();
+    await storage.ping();
+    res.json({ status: 'ok', storage: STORAGE_CLIENT, ...(mqtt && { mqtt }) });
   } catch (err) {
-    res.status(500).json({ status: 'error', message: err.message });
+    res.status(500).json({ status: 'error', message: err.message, ...(mqtt && { mqtt }) });
   }
 });
 
+// Client settings the UI must share with the API
+app.get('/api/config', (_req, res) => {
+  res.json({ plantTimezone: PLANT_TIMEZONE, liveMaxWindowMinutes: LIVE_WINDOW.maxMinutes, storage: STORAGE_CLIENT });
+});
+
 app.get('/api/zones', async (_req, res) => {
   try {
     const zones = await getCached('zones', TTL.zones, async () => {
-      const pool = await getPool();
-      // FAST: Use Indexed View V_MotorHierarchy
-      const result = await pool.request().query(`
-        SELECT 
-          Zone AS name,
-          COUNT(DISTINCT Line) AS lineCount,
-          COUNT(DISTINCT MotorName) AS motorCount
-        FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
-        GROUP BY Zone
-        ORDER BY Zone;
-      `);
-      return result.recordset.map(r => ({ ...r, status: 'Healthy' }));
+      const storage = await getStorage();
+      const result = await storage.listZones();
+      const health = await storage.listZoneMotorStatus({
+        plantNow: plantNowSql(),
+        windowMinutes: ZONE_STATUS.windowMinutes,
+        staleMinutes: ZONE_STATUS.staleMinutes,
+        lookbackMinutes: Math.max(ZONE_STATUS.windowMinutes, ZONE_STATUS.staleMinutes)
+      });
+
+      const motorsByZone = new Map();
+      for (const row of health) {
+        if (!motorsByZone.has(row.zone)) motorsByZone.set(row.zone, []);
+        motorsByZone.get(row.zone).push({ breaches: row.breaches, isStale: row.isStale });
+      }
+
+      return result.map(r => {
+        const motors = motorsByZone.get(r.name) || [];
+        return {
+          ...r,
+          status: deriveZoneStatus(motors, ZONE_STATUS),
+          breachCount: motors.reduce((sum, m) => sum + m.breaches, 0),
+          staleMotorCount: motors.filter(m => m.isStale).length
+        };
+      });
     });
 
     res.json(zones);
@@ -101,28 +136,100 @@ app.get('/api/zones', async (_req, res) => {
   }
 });
 
-app.get('/api/lines', async (req, res) => {
-  const zone = req.query.zone;
-  if (!zone) return res.status(400).json({ message: 'zone is required' });
+// Overview wall: motors without a sample in the lookback window show as "no data"
+const OVERVIEW_LOOKBACK_MINUTES = Number(process.env.OVERVIEW_LOOKBACK_MINUTES || 24 * 60);
+
+// Unresolved alerts per motor; null when the alert tables are not installed
+const fetchOverviewAlerts = async (pool) => {
+  try {
+    const result = await pool.request().query(`
+      SELECT
+        Zone,
+        Line,
+        MotorName,
+        COUNT(*) AS ActiveAlerts,
+        MAX(CASE WHEN Severity = 'Critical' THEN 1 ELSE 0 END) AS HasCritical
+      FROM dbo.MotorAlerts
+      WHERE ResolvedAt IS NULL
+      GROUP BY Zone, Line, MotorName;
+    `);
+    return new Map(result.recordset.map(r => [`${r.Zone}|${r.Line}|${r.MotorName}`, r]));
+  } catch {
+    return null;
+  }
+};
+
+// Latest sample of every motor in one batch (wall of tiles, refreshed every few seconds by each screen)
+app.get('/api/overview', async (_req, res) => {
   try {
-    const lines = await getCached(`lines:${zone}`, TTL.lines, async () => {
+    const overview = await getCached('overview', TTL.overview, async () => {
       const pool = await getPool();
+      const plantNow = plantNowSql();
       const request = pool.request();
-      request.input('zone', sql.NVarChar, zone);
-      // FAST: Use Indexed View V_MotorHierarchy
-      const result = await request.query(`
-        SELECT 
-          Line AS name,
-          @zone AS zone,
-          COUNT(DISTINCT MotorName) AS motorCount
-        FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
-        WHERE Zone = @zone
-        GROUP BY Line
-        ORDER BY Line;
-      `);
-      return result.recordset;
+      request.input('plantNow', sql.NVarChar, plantNow);
+      request.input('lookbackMinutes', sql.Int, OVERVIEW_LOOKBACK_MINUTES);
+
+      // Average-only reports (MotorCurrent = 0, AvgCurrent > 0) show their average instead of 0 A
+      const [latest, alerts] = await Promise.all([
+        request.query(`
+          DECLARE @now DATETIME2 = CONVERT(DATETIME2, @plantNow, 121);
+
+          SELECT
+            h.Zone AS zone,
+            h.Line AS line,
+            h.MotorName AS motorName,
+            FORMAT(s.[Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS lastTimestamp,
+            DATEDIFF(SECOND, s.[Timestamp], @now) AS ageSeconds,
+            s.IsMotorOn AS isOn,
+            CASE WHEN s.MotorCurrent = 0 AND s.AvgCurrent > 0 THEN s.AvgCurrent ELSE s.MotorCurrent END AS [current],
+            s.MaxCurrentLimit AS currentLimit
+          FROM dbo.V_MotorHierarchy h WITH (NOEXPAND)
+          OUTER APPLY (
+            SELECT TOP 1 l.[Timestamp], l.IsMotorOn, l.MotorCurrent, l.AvgCurrent, l.MaxCurrentLimit
+            FROM dbo.MotorLogs l
+            WHERE l.Zone = h.Zone
+              AND l.Line = h.Line
+              AND l.MotorName = h.MotorName
+              AND l.[Timestamp] >= DATEADD(MINUTE, -@lookbackMinutes, @now)
+            ORDER BY l.[Timestamp] DESC
+          ) s
+          ORDER BY h.Zone, h.Line, h.MotorName;
+        `),
+        fetchOverviewAlerts(pool)
+      ]);
+
+      const motors = latest.recordset.map(row => {
+        const alert = alerts?.get(`${row.zone}|${row.line}|${row.motorName}`);
+        return {
+          ...row,
+          isOn: row.isOn === null ? null : Boolean(row.isOn),
+          isStale: row.ageSeconds === null || row.ageSeconds > ZONE_STATUS.staleMinutes * 60,
+          activeAlerts: alert ? alert.ActiveAlerts : 0,
+          alertSeverity: alert ? (alert.HasCritical === 1 ? 'Critical' : 'Warning') : null
+        };
+      });
+
+      return {
+        generatedAt: plantNow,
+        staleSeconds: ZONE_STATUS.staleMinutes * 60,
+        alertsAvailable: alerts !== null,
+        motors
+      };
     });
 
+    res.json(overview);
+  } catch (err) {
+    console.error('overview error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+app.get('/api/lines', async (req, res) => {
+  const zone = req.query.zone;
+  if (!zone) return res.status(400).json({ message: 'zone is required' });
+  try {
+    const lines = await getCached(`lines:${zone}`, TTL.lines, async () => (await getStorage()).listLines(zone));
+
     res.json(lines);
   } catch (err) {
     res.status(500).json({ message: err.message });
@@ -133,20 +240,7 @@ app.get('/api/motors', async (req, res) => {
   const { zone, line } = req.query;
   if (!zone || !line) return res.status(400).json({ message: 'zone and line are required' });
   try {
-    const motors = await getCached(`motors:${zone}:${line}`, TTL.motors, async () => {
-      const pool = await getPool();
-      const request = pool.request();
-      request.input('zone', sql.NVarChar, zone);
-      request.input('line', sql.NVarChar, line);
-      // FAST: Use Indexed View V_MotorHierarchy
-      const result = await request.query(`
-        SELECT MotorName
-        FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
-        WHERE Zone = @zone AND Line = @line
-        ORDER BY MotorName;
-      `);
-      return result.recordset.map(r => r.MotorName);
-    });
+    const motors = await getCached(`motors:${zone}:${line}`, TTL.motors, async () => (await getStorage()).listMotors(zone, line));
 
     res.json(motors);
   } catch (err) {
@@ -156,16 +250,7 @@ app.get('/api/motors', async (req, res) => {
 
 app.get('/api/weeks', async (_req, res) => {
   try {
-    const weeks = await getCached('weeks', TTL.weeks, async () => {
-      const pool = await getPool();
-      const result = await pool.request().query(`
-        SELECT DISTINCT ProductionWeek
-        FROM dbo.MotorLogs
-        WHERE ProductionWeek IS NOT NULL
-        ORDER BY ProductionWeek;
-      `);
-      return result.recordset.map(r => r.ProductionWeek);
-    });
+    const weeks = await getCached('weeks', TTL.weeks, async () => (await getStorage()).listWeeks());
 
     res.json(weeks);
   } catch (err) {
@@ -173,109 +258,613 @@ app.get('/api/weeks', async (_req, res) => {
   }
 });
 
-app.get('/api/motor-logs', async (req, res) => {
-  const { zone, line, motor, weeks = '', day = 'ALL' } = req.query;
-  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+// Timestamps are naive plant-local values: accept 'yyyy-MM-dd HH:mm:ss[.fff]' (or with 'T')
+// and return the ODBC canonical form understood by CONVERT(DATETIME2, @x, 121)
+const toSqlTimestamp = (value) => {
+  if (!value) return null;
+  const match = String(value).trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?)Z?$/);
+  if (!match) return null;
+  const time = match[2].length === 5 ? `${match[2]}:00` : match[2];
+  return `${match[1]} ${time}`;
+};
+
+const hasInvalidRange = ({ from, to }) =>
+  (from !== undefined && !toSqlTimestamp(from)) ||
+  (to !== undefined && !toSqlTimestamp(to)) ||
+  (from !== undefined && to !== undefined && toSqlTimestamp(from) > toSqlTimestamp(to));
+
+const hasUnknownShift = ({ shift }) => unknownShifts(parseShiftNames(shift)).length > 0;
+
+// 400 for a malformed from/to range or an unknown shift, ahead of every route that takes the log filter
+const validateLogFilter = (req, res, next) => {
+  if (hasInvalidRange(req.query)) return res.status(400).json({ message: 'from/to must be yyyy-MM-dd HH:mm:ss, from not after to' });
+  if (hasUnknownShift(req.query)) return res.status(400).json({ message: `shift must be one of ${SHIFTS.map(s => s.name).join(', ')}` });
+  next();
+};
 
-  const weekList = String(weeks).split(',').map(w => w.trim()).filter(Boolean);
-  const dayList = (String(day) === 'ALL' || !day)
+// Shared motor + week/day (+ optional from/to and shifts) filter used by every endpoint that reads one motor's logs.
+// days: 1 = Monday ... 7 = Sunday; from/to normalized for CONVERT(..., 121)
+const parseLogFilter = ({ zone, line, motor, weeks = '', day = 'ALL', from, to, shift }) => ({
+  zone,
+  line,
+  motor,
+  weeks: String(weeks).split(',').map(w => w.trim()).filter(Boolean),
+  days: (String(day) === 'ALL' || !day)
     ? []
-    : String(day).split(',').map(d => Number(d.trim())).filter(n => !Number.isNaN(n));
+    : String(day).split(',').map(d => Number(d.trim())).filter(n => !Number.isNaN(n)),
+  from: from ? toSqlTimestamp(from) : null,
+  to: to ? toSqlTimestamp(to) : null,
+  shifts: parseShiftNames(shift)
+});
+
+// SQL Server routes: the filter as clauses on `request`
+const applyLogFilters = (request, query) => {
+  const filter = parseLogFilter(query);
+  return { ...bindLogFilter(request, filter), weekList: filter.weeks, dayList: filter.days, shiftList: filter.shifts };
+};
+
+// Downsampling rule: shared/downsample.js
+const MAX_POINTS_FLOOR = 50;
+
+app.get('/api/motor-logs', validateLogFilter, async (req, res) => {
+  const { zone, line, motor, maxPoints } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+  const pointLimit = maxPoints === undefined ? null : Math.floor(Number(maxPoints));
+  if (pointLimit !== null && !(pointLimit >= MAX_POINTS_FLOOR)) {
+    return res.status(400).json({ message: `maxPoints must be a number >= ${MAX_POINTS_FLOOR}` });
+  }
+
+  try {
+    const storage = await getStorage();
+    const buckets = pointLimit === null ? null : downsampleBuckets(pointLimit);
+    const { rows, total } = await storage.getMotorLogs(parseLogFilter(req.query), pointLimit, buckets);
+
+    // Without maxPoints ALL matching data is returned without limit
+    res.set('X-Downsampled', pointLimit !== null && total > pointLimit ? '1' : '0');
+    res.json(rows);
+  } catch (err) {
+    console.error('motor-logs error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+// KPI summary for one motor over the same week/day filter as /api/motor-logs
+app.get('/api/motor-summary', validateLogFilter, async (req, res) => {
+  const { zone, line, motor } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+  try {
+    const storage = await getStorage();
+    // Load against the nameplate current needs the motor registry (SQL Server only; null when not registered)
+    const [row, registry] = await Promise.all([
+      storage.getMotorSummary(parseLogFilter(req.query)),
+      STORAGE_CLIENT === 'mssql' ? getPool().then(pool => findMotorRegistryEntry(pool, { zone, line, motor })) : null
+    ]);
+
+    const avgRunningCurrent = row.avgRunningCurrent == null ? null : Number(row.avgRunningCurrent);
+    const ratedCurrent = registry?.info?.ratedCurrent ?? null;
+    res.json({
+      totalRunningTime: Number(row.totalRunningTime) || 0,
+      peakCurrent: Number(row.peakCurrent) || 0,
+      averageEfficiency: Number(row.averageEfficiency) || 0,
+      cycles: Number(row.cycles) || 0,
+      maxLimitBreaches: Number(row.maxLimitBreaches) || 0,
+      avgRunningCurrent,
+      ratedCurrent,
+      ratedLoadPercent: ratedCurrent && avgRunningCurrent !== null ? avgRunningCurrent * 100 / ratedCurrent : null
+    });
+  } catch (err) {
+    console.error('motor-summary error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+const CYCLE_GROUPINGS = ['hour', 'shift', 'day'];
+
+// ON/OFF cycle statistics over the same filters as /api/motor-logs; groupBy = hour | shift | day
+app.get('/api/motor-cycles', validateLogFilter, async (req, res) => {
+  const { zone, line, motor, groupBy = 'hour' } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+  if (!CYCLE_GROUPINGS.includes(groupBy)) return res.status(400).json({ message: `groupBy must be one of ${CYCLE_GROUPINGS.join(', ')}` });
 
   try {
     const pool = await getPool();
     const request = pool.request();
-    request.input('zone', sql.NVarChar, zone);
-    request.input('line', sql.NVarChar, line);
-    request.input('motor', sql.NVarChar, motor);
-
-    let weekClause = '';
-    if (weekList.length > 0) {
-      weekClause = `AND ProductionWeek IN (${weekList.map((_, i) => `@week${i}`).join(',')})`;
-      weekList.forEach((w, i) => request.input(`week${i}`, sql.NVarChar, w));
-    }
+    const { weekClause, dayClause, rangeClause, shiftClause } = applyLogFilters(request, req.query);
+
+    // Only state changes matter, plus the last sample which closes the final segment
+    const result = await request.query(`
+      SET DATEFIRST 1;
+
+      WITH Ordered AS (
+        SELECT
+          [Timestamp],
+          CAST([IsMotorOn] AS INT) AS IsOn,
+          LAG(CAST([IsMotorOn] AS INT), 1, -1) OVER (ORDER BY [Timestamp], [Id]) AS PrevOn,
+          LEAD([Id]) OVER (ORDER BY [Timestamp], [Id]) AS NextId
+        FROM [dbo].[MotorLogs]
+        WHERE [MotorName] = @motor
+          AND [Zone] = @zone
+          AND [Line] = @line
+          ${weekClause}
+          ${dayClause}
+          ${rangeClause}
+          ${shiftClause}
+      )
+      SELECT [Timestamp], IsOn
+      FROM Ordered
+      WHERE IsOn <> PrevOn OR NextId IS NULL
+      ORDER BY [Timestamp];
+    `);
+
+    const points = result.recordset.map(row => ({ timestampMs: row.Timestamp.getTime(), value: row.IsOn }));
+    res.json(computeCycleStats(points, groupBy, SHIFTS));
+  } catch (err) {
+    console.error('motor-cycles error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+const toDetectorRow = (row) => ({
+  timestampMs: row.Timestamp.getTime(),
+  motorCurrent: Number(row.MotorCurrent) || 0,
+  avgCurrent: Number(row.AvgCurrent) || 0,
+  isOn: row.IsMotorOn ? 1 : 0
+});
+
+// Current anomalies (spikes, plateaus, current while OFF, zero current while ON) over the same filters as /api/motor-logs.
+// Full-resolution rows are streamed through the detector; with `from` the baseline is seeded from the samples before it.
+app.get('/api/motor-anomalies', validateLogFilter, async (req, res) => {
+  const { zone, line, motor } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+  try {
+    const pool = await getPool();
+    const detector = createAnomalyDetector();
 
-    // Use DATEPART for day filtering (DayOfWeek column may not exist)
-    let dayClause = '';
-    if (dayList.length > 0) {
-      dayClause = `AND DATEPART(WEEKDAY, [Timestamp]) IN (${dayList.map((_, i) => `@day${i}`).join(',')})`;
-      dayList.forEach((d, i) => request.input(`day${i}`, sql.Int, d));
+    if (req.query.from) {
+      const seed = await pool.request()
+        .input('zone', sql.NVarChar, zone)
+        .input('line', sql.NVarChar, line)
+        .input('motor', sql.NVarChar, motor)
+        .input('from', sql.NVarChar, toSqlTimestamp(req.query.from))
+        .input('baselineSamples', sql.Int, ANOMALY.baselineSamples)
+        .query(`
+          SELECT TOP (@baselineSamples) [Timestamp], [MotorCurrent], [AvgCurrent], [IsMotorOn]
+          FROM [dbo].[MotorLogs]
+          WHERE [MotorName] = @motor
+            AND [Zone] = @zone
+            AND [Line] = @line
+            AND [Timestamp] < CONVERT(DATETIME2, @from, 121)
+            AND [IsMotorOn] = 1
+            AND [MotorCurrent] > 0
+          ORDER BY [Timestamp] DESC, [Id] DESC;
+        `);
+      seed.recordset.reverse().forEach(row => detector.seed(toDetectorRow(row)));
     }
 
-    // Return ALL matching data without limit
-    const query = `
+    const request = pool.request();
+    request.stream = true;
+    const { weekClause, dayClause, rangeClause, shiftClause } = applyLogFilters(request, req.query);
+
+    await new Promise((resolve, reject) => {
+      request.on('row', (row) => detector.push(toDetectorRow(row)));
+      request.on('error', reject);
+      request.on('done', resolve);
+      req.on('close', () => {
+        if (!res.writableEnded) request.cancel();
+      });
+
+      request.query(`
+        SET DATEFIRST 1;
+
+        SELECT [Timestamp], [MotorCurrent], [AvgCurrent], [IsMotorOn]
+        FROM [dbo].[MotorLogs]
+        WHERE [MotorName] = @motor
+          AND [Zone] = @zone
+          AND [Line] = @line
+          ${weekClause}
+          ${dayClause}
+          ${rangeClause}
+          ${shiftClause}
+        ORDER BY [Timestamp] ASC, [Id] ASC;
+      `);
+    });
+
+    res.json(detector.finish());
+  } catch (err) {
+    console.error('motor-anomalies error:', err.message);
+    if (!res.headersSent) res.status(500).json({ message: err.message });
+  }
+});
+
+// Configured plant shifts (SHIFTS env) - used by the shift filter and the shift report
+app.get('/api/shifts', (_req, res) => {
+  res.json(SHIFTS);
+});
+
+// Running time, cycles and breaches per shift for every motor of a line (or one motor), same filters as /api/motor-logs
+app.get('/api/shift-summary', validateLogFilter, async (req, res) => {
+  const { zone, line, motor } = req.query;
+  if (!zone || !line) return res.status(400).json({ message: 'zone and line are required' });
+
+  try {
+    const pool = await getPool();
+    const request = pool.request();
+    const { weekClause, dayClause, rangeClause, shiftClause } = applyLogFilters(request, { ...req.query, motor: motor || '' });
+    const shiftName = shiftNameExpression(request, sql);
+
+    // Same running time / cycle / breach definitions as /api/motor-summary, attributed to the shift of each sample
+    const result = await request.query(`
       SET DATEFIRST 1;
-      
+
+      WITH Ordered AS (
+        SELECT
+          [MotorName],
+          [Timestamp],
+          [MaxCurrentLimit],
+          [MotorCurrent],
+          [AvgCurrent],
+          CAST([IsMotorOn] AS INT) AS IsOn,
+          ${shiftName} AS ShiftName,
+          LAG(CAST([IsMotorOn] AS INT), 1, -1) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS PrevOn,
+          LEAD([Timestamp]) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS NextTimestamp
+        FROM [dbo].[MotorLogs]
+        WHERE [Zone] = @zone
+          AND [Line] = @line
+          ${motor ? 'AND [MotorName] = @motor' : ''}
+          ${weekClause}
+          ${dayClause}
+          ${rangeClause}
+          ${shiftClause}
+      )
       SELECT
-        [Id],
-        FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
-        [MotorName],
-        [Zone],
-        [Line],
-        [ProductionWeek],
-        [MaxCurrentLimit],
-        [MotorCurrent],
-        [IsMotorOn],
-        [AvgCurrent],
-        [RunningTime]
-      FROM [dbo].[MotorLogs]
-      WHERE [MotorName] = @motor
-        AND [Zone] = @zone
-        AND [Line] = @line
-        ${weekClause}
-        ${dayClause}
-      ORDER BY [Timestamp] ASC;
-    `;
+        [MotorName] AS motorName,
+        ShiftName AS shift,
+        COUNT(*) AS samples,
+        ISNULL(SUM(CASE WHEN IsOn = 1 AND NextTimestamp IS NOT NULL
+          THEN DATEDIFF_BIG(MILLISECOND, [Timestamp], NextTimestamp) ELSE 0 END), 0) / 1000.0 AS runningTime,
+        SUM(CASE WHEN IsOn = 1 AND PrevOn = 0 THEN 1 ELSE 0 END) AS cycles,
+        SUM(CASE WHEN [MotorCurrent] > [MaxCurrentLimit] OR [AvgCurrent] > [MaxCurrentLimit] THEN 1 ELSE 0 END) AS maxLimitBreaches
+      FROM Ordered
+      GROUP BY [MotorName], ShiftName
+      ORDER BY [MotorName], ShiftName;
+    `);
+
+    res.json(result.recordset.map(row => ({
+      motorName: row.motorName,
+      shift: row.shift ?? null,
+      samples: row.samples,
+      runningTime: Number(row.runningTime) || 0,
+      cycles: row.cycles || 0,
+      maxLimitBreaches: row.maxLimitBreaches || 0
+    })));
+  } catch (err) {
+    console.error('shift-summary error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+// Data quality per motor of a line (or one motor), same filters as /api/motor-logs.
+// Neighbours are taken over the week/range selection before the day/shift filter,
+// so the gap between two selected days is not reported as a logging gap.
+app.get('/api/data-quality', validateLogFilter, async (req, res) => {
+  const { zone, line, motor } = req.query;
+  if (!zone || !line) return res.status(400).json({ message: 'zone and line are required' });
+
+  try {
+    const pool = await getPool();
+    const columns = await getOptionalColumns(pool);
+    const request = pool.request();
+    const { weekClause, dayClause, rangeClause, shiftClause } = applyLogFilters(request, { ...req.query, motor: motor || '' });
+    bindQualityInputs(request, sql);
+
+    const result = await request.query(`
+      SET DATEFIRST 1;
 
-    const result = await request.query(query);
+      WITH Ordered AS (
+        SELECT
+          [MotorName],
+          [Timestamp],
+          [MaxCurrentLimit],
+          [MotorCurrent],
+          [AvgCurrent],
+          [RunningTime],
+          CAST([IsMotorOn] AS INT) AS IsOn,
+          LAG([Timestamp]) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS PrevTimestamp,
+          ${orderedQualityColumns(columns)}
+        FROM [dbo].[MotorLogs]
+        WHERE [Zone] = @zone
+          AND [Line] = @line
+          ${motor ? 'AND [MotorName] = @motor' : ''}
+          ${weekClause}
+          ${rangeClause}
+      )
+      SELECT
+        [MotorName] AS motorName,
+        ${QUALITY_AGGREGATES}
+      FROM Ordered
+      WHERE 1 = 1
+        ${dayClause}
+        ${shiftClause}
+      GROUP BY [MotorName]
+      ORDER BY [MotorName];
+    `);
 
-    res.json(result.recordset);
+    res.json({
+      checks: columns,
+      thresholds: { gapSeconds: DATA_QUALITY.gapSeconds, lagSeconds: DATA_QUALITY.lagSeconds },
+      motors: result.recordset.map(row => mapQualityRow(row, columns))
+    });
   } catch (err) {
-    console.error('motor-logs error:', err.message);
+    console.error('data-quality error:', err.message);
     res.status(500).json({ message: err.message });
   }
 });
 
-// Endpoint for auto-refresh mode - returns only last 15 minutes of data
-app.get('/api/motor-logs-latest', async (req, res) => {
-  const { zone, line, motor, minutes = 15 } = req.query;
+// Logging gaps of one motor (for shading the charts), same selection rules as /api/data-quality
+app.get('/api/data-gaps', validateLogFilter, async (req, res) => {
+  const { zone, line, motor } = req.query;
   if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
 
   try {
     const pool = await getPool();
     const request = pool.request();
-    request.input('zone', sql.NVarChar, zone);
-    request.input('line', sql.NVarChar, line);
-    request.input('motor', sql.NVarChar, motor);
-    request.input('minutes', sql.Int, Number(minutes) || 15);
+    const { weekClause, dayClause, rangeClause, shiftClause } = applyLogFilters(request, req.query);
+    request.input('gapSeconds', sql.Int, DATA_QUALITY.gapSeconds);
+    request.input('maxGaps', sql.Int, DATA_QUALITY.maxGaps);
 
     const result = await request.query(`
-      SELECT
-        [Id],
-        FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
-        [MotorName],
-        [Zone],
-        [Line],
-        [ProductionWeek],
-        [MaxCurrentLimit],
-        [MotorCurrent],
-        [IsMotorOn],
-        [AvgCurrent],
-        [RunningTime]
-      FROM [dbo].[MotorLogs]
-      WHERE [MotorName] = @motor
-        AND [Zone] = @zone
-        AND [Line] = @line
-        AND [Timestamp] >= DATEADD(MINUTE, -@minutes, GETDATE())
-      ORDER BY [Timestamp] ASC;
+      SET DATEFIRST 1;
+
+      WITH Ordered AS (
+        SELECT
+          [Timestamp],
+          LAG([Timestamp]) OVER (ORDER BY [Timestamp], [Id]) AS PrevTimestamp,
+          LAG(CAST([IsMotorOn] AS INT)) OVER (ORDER BY [Timestamp], [Id]) AS PrevOn
+        FROM [dbo].[MotorLogs]
+        WHERE [MotorName] = @motor
+          AND [Zone] = @zone
+          AND [Line] = @line
+          ${weekClause}
+          ${rangeClause}
+      )
+      SELECT TOP (@maxGaps)
+        FORMAT(PrevTimestamp, 'yyyy-MM-dd HH:mm:ss.fff') AS start,
+        FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [end],
+        DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) AS seconds,
+        PrevOn AS onBefore
+      FROM Ordered
+      WHERE DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) > @gapSeconds
+        ${dayClause}
+        ${shiftClause}
+      ORDER BY [Timestamp];
     `);
 
-    res.json(result.recordset);
+    res.json(result.recordset.map(row => ({
+      start: row.start,
+      end: row.end,
+      seconds: Number(row.seconds),
+      onBefore: row.onBefore === 1
+    })));
+  } catch (err) {
+    console.error('data-gaps error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+// Health score of every motor of a line over the last `days` (plant clock), worst first
+app.get('/api/motor-health', async (req, res) => {
+  const { zone, line, days = String(HEALTH.defaultDays) } = req.query;
+  if (!zone || !line) return res.status(400).json({ message: 'zone and line are required' });
+  const windowDays = /^\d+$/.test(String(days)) ? Number(days) : NaN;
+  if (!(windowDays >= 1 && windowDays <= HEALTH.maxDays)) {
+    return res.status(400).json({ message: `days must be an integer between 1 and ${HEALTH.maxDays}` });
+  }
+
+  try {
+    const motors = await getCached(`health:${zone}:${line}:${windowDays}`, TTL.health, async () => {
+      const nowMs = toPlantNaiveMs();
+      const pool = await getPool();
+      const request = pool.request();
+      request.input('zone', sql.NVarChar, zone);
+      request.input('line', sql.NVarChar, line);
+      request.input('days', sql.Int, windowDays);
+      request.input('gapSeconds', sql.Int, HEALTH.gapSeconds);
+      request.input('plantNow', sql.NVarChar, plantNowSql(nowMs));
+
+      // Load = current as % of the limit while ON, compared between the two halves of the window
+      const result = await request.query(`
+        DECLARE @now DATETIME2 = CONVERT(DATETIME2, @plantNow, 121);
+        DECLARE @from DATETIME2 = DATEADD(DAY, -@days, @now);
+        DECLARE @mid DATETIME2 = DATEADD(HOUR, -12 * @days, @now);
+
+        WITH Ordered AS (
+          SELECT
+            [MotorName],
+            [Timestamp],
+            [MaxCurrentLimit],
+            [MotorCurrent],
+            [AvgCurrent],
+            CAST([IsMotorOn] AS INT) AS IsOn,
+            LAG(CAST([IsMotorOn] AS INT), 1, -1) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS PrevOn,
+            LAG([Timestamp]) OVER (PARTITION BY [MotorName] ORDER BY [Timestamp], [Id]) AS PrevTimestamp
+          FROM [dbo].[MotorLogs]
+          WHERE [Zone] = @zone
+            AND [Line] = @line
+            AND [Timestamp] >= @from
+            AND [Timestamp] <= @now
+        ),
+        Stats AS (
+          SELECT
+            [MotorName],
+            COUNT(*) AS samples,
+            SUM(CASE WHEN [MotorCurrent] > [MaxCurrentLimit] OR [AvgCurrent] > [MaxCurrentLimit] THEN 1 ELSE 0 END) AS breaches,
+            SUM(CASE WHEN IsOn = 1 AND PrevOn = 0 THEN 1 ELSE 0 END) AS cycles,
+            AVG(CASE WHEN IsOn = 1 AND [MaxCurrentLimit] > 0 AND [Timestamp] < @mid
+              THEN [MotorCurrent] * 100.0 / [MaxCurrentLimit] END) AS earlierLoad,
+            AVG(CASE WHEN IsOn = 1 AND [MaxCurrentLimit] > 0 AND [Timestamp] >= @mid
+              THEN [MotorCurrent] * 100.0 / [MaxCurrentLimit] END) AS recentLoad,
+            ISNULL(SUM(CASE WHEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) > @gapSeconds
+              THEN DATEDIFF_BIG(SECOND, PrevTimestamp, [Timestamp]) ELSE 0 END), 0) AS innerGapSeconds,
+            MIN([Timestamp]) AS firstTimestamp,
+            MAX([Timestamp]) AS lastTimestamp
+          FROM Ordered
+          GROUP BY [MotorName]
+        )
+        SELECT
+          h.MotorName AS motorName,
+          ISNULL(s.samples, 0) AS samples,
+          ISNULL(s.breaches, 0) AS breaches,
+          ISNULL(s.cycles, 0) AS cycles,
+          s.earlierLoad,
+          s.recentLoad,
+          ISNULL(s.innerGapSeconds, 0) AS innerGapSeconds,
+          s.firstTimestamp,
+          s.lastTimestamp,
+          FORMAT(s.lastTimestamp, 'yyyy-MM-dd HH:mm:ss.fff') AS lastTimestampText
+        FROM dbo.V_MotorHierarchy h WITH (NOEXPAND)
+        LEFT JOIN Stats s ON s.MotorName = h.MotorName
+        WHERE h.Zone = @zone AND h.Line = @line;
+      `);
+
+      return scoreMotorHealth(result.recordset.map(row => ({
+        ...row,
+        innerGapSeconds: Number(row.innerGapSeconds) || 0,
+        earlierLoad: row.earlierLoad == null ? null : Number(row.earlierLoad),
+        recentLoad: row.recentLoad == null ? null : Number(row.recentLoad)
+      })), nowMs, windowDays);
+    });
+
+    res.json(motors);
+  } catch (err) {
+    console.error('motor-health error:', err.message);
+    res.status(500).json({ message: err.message });
+  }
+});
+
+const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+// Full-resolution export streamed straight from dbo.MotorLogs (same filters as /api/motor-logs)
+app.get('/api/motor-logs-export', validateLogFilter, async (req, res) => {
+  const { zone, line, motor, format = 'csv' } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+  if (!EXPORT_FORMATS.includes(format)) return res.status(400).json({ message: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+
+  let writer = null;
+  try {
+    const pool = await getPool();
+    const request = pool.request();
+    request.stream = true;
+    const { weekClause, dayClause, rangeClause, shiftClause, weekList, dayList, shiftList } = applyLogFilters(request, req.query);
+    request.input('maxRows', sql.Int, XLSX_MAX_ROWS);
+
+    // The header goes out with the first row, so query errors can still become a JSON 500
+    const context = { zone, line, motor, weeks: weekList, days: dayList, shifts: shiftList, from: req.query.from, to: req.query.to };
+    const ensureWriter = () => {
+      if (!writer) writer = createExportWriter(res, format, context);
+      return writer;
+    };
+
+    await new Promise((resolve, reject) => {
+      // Respect backpressure - pause the SQL stream until the client catches up. mssql still emits
+      // the rows it has buffered after pause(), so only the first full write arms the drain listener.
+      let paused = false;
+      request.on('row', (row) => {
+        if (!ensureWriter().writeRow(row) && !paused) {
+          paused = true;
+          request.pause();
+          res.once('drain', () => {
+            paused = false;
+            request.resume();
+          });
+        }
+      });
+      request.on('error', reject);
+      request.on('done', resolve);
+      req.on('close', () => {
+        if (!res.writableEnded) request.cancel();
+      });
+
+      // CONVERT instead of FORMAT - much cheaper over millions of rows
+      request.query(`
+        SET DATEFIRST 1;
+
+        SELECT ${format === 'xlsx' ? 'TOP (@maxRows)' : ''}
+          [Id],
+          CONVERT(VARCHAR(23), [Timestamp], 121) AS [Timestamp],
+          [Zone],
+          [Line],
+          [MotorName],
+          [ProductionWeek],
+          [MaxCurrentLimit],
+          [MotorCurrent],
+          [IsMotorOn],
+          [AvgCurrent],
+          [RunningTime]
+        FROM [dbo].[MotorLogs]
+        WHERE [MotorName] = @motor
+          AND [Zone] = @zone
+          AND [Line] = @line
+          ${weekClause}
+          ${dayClause}
+          ${rangeClause}
+          ${shiftClause}
+        ORDER BY [Timestamp] ASC, [Id] ASC;
+      `);
+    });
+
+    await ensureWriter().end();
+  } catch (err) {
+    console.error('motor-logs-export error:', err.message);
+    if (!writer) return res.status(500).json({ message: err.message });
+    // Mid-stream failure: abort so the download is visibly broken instead of silently truncated
+    res.destroy(err);
+  }
+});
+
+// AUTO mode live window bounds (minutes)
+const LIVE_WINDOW = {
+  defaultMinutes: 10,
+  maxMinutes: Number(process.env.LIVE_MAX_WINDOW_MINUTES || 240)
+};
+
+// Endpoint for auto-refresh mode - returns only the last `minutes` of data (default 10, the client's default window)
+app.get('/api/motor-logs-latest', async (req, res) => {
+  const { zone, line, motor, minutes = String(LIVE_WINDOW.defaultMinutes) } = req.query;
+  if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+  const windowMinutes = /^\d+$/.test(String(minutes)) ? Number(minutes) : NaN;
+  if (!(windowMinutes >= 1 && windowMinutes <= LIVE_WINDOW.maxMinutes)) {
+    return res.status(400).json({ message: `minutes must be an integer between 1 and ${LIVE_WINDOW.maxMinutes}` });
+  }
+
+  try {
+    const storage = await getStorage();
+    const rows = await storage.getLatestMotorLogs({ zone, line, motor, minutes: windowMinutes, plantNow: plantNowSql() });
+    res.json(rows);
   } catch (err) {
     res.status(500).json({ message: err.message });
   }
 });
 
+// Live push of new rows for AUTO mode (SSE)
+registerLiveStream(app);
+
+// Alert rules CRUD + alert list; the engine evaluates new rows in the background
+registerAlertRoutes(app);
+if (STORAGE_CLIENT === 'mssql' && process.env.ALERT_ENGINE_ENABLED !== 'false') startAlertEngine();
+
+// Daily running-current aggregates + drift fit per motor (predictive maintenance)
+registerTrendRoutes(app);
+if (STORAGE_CLIENT === 'mssql' && process.env.TREND_ENGINE_ENABLED !== 'false') startTrendEngine();
+
+// Nameplate data per MotorID (motor page header, rated load in the summary)
+registerMotorRegistryRoutes(app);
+
+// PLC telemetry over MQTT -> MotorLogs (optional worker)
+if (STORAGE_CLIENT === 'mssql' && process.env.MQTT_URL) startMqttIngest();
+
 const port = Number(process.env.API_PORT || 4000);
 app.listen(port, () => {
   console.log(`API listening on http://localhost:${port}`);
@@ -0,0 +1,72 @@
+import { DEFAULT_SHIFTS } from '../shared/cycle-stats.js';
+
+// Plant shift definitions. SHIFTS=A=06:00-14:00,B=14:00-22:00,C=22:00-06:00
+// (end earlier than start = the shift crosses midnight). Unset or invalid -> DEFAULT_SHIFTS.
+
+const SHIFT_RE = /^([\w .-]{1,20})=(\d{2}):(\d{2})-(\d{2}):(\d{2})$/;
+
+const validTime = (h, m) => Number(h) < 24 && Number(m) < 60;
+
+export const parseShiftDefinitions = (text) => {
+  const entries = String(text || '').split(',').map(s => s.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const shifts = [];
+  for (const entry of entries) {
+    const match = entry.match(SHIFT_RE);
+    if (!match || !validTime(match[2], match[3]) || !validTime(match[4], match[5])) return null;
+    const name = match[1].trim();
+    if (shifts.some(s => s.name === name)) return null;
+    shifts.push({ name, start: `${match[2]}:${match[3]}`, end: `${match[4]}:${match[5]}` });
+  }
+  return shifts;
+};
+
+const loadShifts = () => {
+  if (!process.env.SHIFTS) return DEFAULT_SHIFTS;
+  const parsed = parseShiftDefinitions(process.env.SHIFTS);
+  if (!parsed) {
+    console.warn(`Invalid SHIFTS "${process.env.SHIFTS}" - using the default A/B/C shifts`);
+    return DEFAULT_SHIFTS;
+  }
+  return parsed;
+};
+
+export const SHIFTS = loadShifts();
+
+const toMinutes = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Minute of the day of the (naive, plant-local) timestamp - T-SQL; other storage backends pass their own
+const MINUTE_OF_DAY = '(DATEPART(HOUR, [Timestamp]) * 60 + DATEPART(MINUTE, [Timestamp]))';
+
+// SQL condition for one shift; minutes are validated integers from the config, safe to inline
+const shiftCondition = (shift, minuteOfDay = MINUTE_OF_DAY) => {
+  const start = toMinutes(shift.start);
+  const end = toMinutes(shift.end);
+  if (start === end) return '1 = 1';
+  return start < end
+    ? `(${minuteOfDay} >= ${start} AND ${minuteOfDay} < ${end})`
+    : `(${minuteOfDay} >= ${start} OR ${minuteOfDay} < ${end})`;
+};
+
+// "AND (...)" restricting samples to the named shifts; '' when no shift is requested.
+// The weekday filter still applies to the sample's calendar day (night-shift hours after midnight count to the next day).
+export const buildShiftClause = (names, minuteOfDay = MINUTE_OF_DAY) => {
+  const selected = SHIFTS.filter(s => names.includes(s.name));
+  if (selected.length === 0) return '';
+  return `AND (${selected.map(s => shiftCondition(s, minuteOfDay)).join(' OR ')})`;
+};
+
+// CASE expression naming the shift of each sample (NULL outside every shift); names are passed as parameters
+export const shiftNameExpression = (request, sqlTypes) => {
+  SHIFTS.forEach((s, i) => request.input(`shiftName${i}`, sqlTypes.NVarChar, s.name));
+  return `CASE ${SHIFTS.map((s, i) => `WHEN ${shiftCondition(s)} THEN @shiftName${i}`).join(' ')} END`;
+};
+
+export const parseShiftNames = (value) =>
+  String(value || '').split(',').map(s => s.trim()).filter(Boolean);
+
+export const unknownShifts = (names) => names.filter(name => !SHIFTS.some(s => s.name === name));
@@ -0,0 +1,41 @@
+// Storage backend behind the hierarchy and log-reading routes (/api/zones, /api/lines, /api/motors,
+// /api/weeks, /api/motor-logs, /api/motor-summary, /api/motor-logs-latest). DB_CLIENT selects it:
+// mssql (default), postgres or sqlite. Every other route still talks to SQL Server directly.
+//
+// A backend's createStorage() returns:
+//   ping()
+//   listZones() -> [{ name, lineCount, motorCount }]
+//   listZoneMotorStatus({ plantNow, windowMinutes, staleMinutes, lookbackMinutes }) -> [{ zone, breaches, isStale }]
+//   listLines(zone) -> [{ name, zone, motorCount }]
+//   listMotors(zone, line) -> [motorName]
+//   listWeeks() -> [productionWeek]
+//   getMotorLogs(filter, maxPoints | null, buckets) -> { rows, total }
+//   getMotorSummary(filter) -> { totalRunningTime, peakCurrent, averageEfficiency, avgRunningCurrent, cycles, maxLimitBreaches }
+//   getLatestMotorLogs({ zone, line, motor, minutes, plantNow }) -> rows
+
+const BACKENDS = {
+  mssql: './mssql.js',
+  postgres: './postgres.js',
+  sqlite: './sqlite.js'
+};
+
+export const STORAGE_CLIENT = (process.env.DB_CLIENT || 'mssql').trim().toLowerCase();
+
+if (!BACKENDS[STORAGE_CLIENT]) {
+  throw new Error(`Unknown DB_CLIENT "${STORAGE_CLIENT}" - use ${Object.keys(BACKENDS).join(', ')}`);
+}
+
+// Driver modules are loaded on first use, so only the selected one has to be installed
+let storagePromise;
+export const getStorage = () => {
+  if (!storagePromise) {
+    storagePromise = import(BACKENDS[STORAGE_CLIENT])
+      .then(module => module.createStorage())
+      .catch(err => {
+        console.error('Storage initialization error:', err.message);
+        storagePromise = null;
+        throw err;
+      });
+  }
+  return storagePromise;
+};
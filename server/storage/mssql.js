@@ -0,0 +1,313 @@
+import { getPool, sql } from '../db.js';
+import { buildShiftClause } from '../shifts.js';
+
+// SQL Server backend (default). Hierarchy reads go through the indexed view V_MotorHierarchy (server/db-view.sql).
+
+// Week/day/range/shift clauses for one motor's logs; binds @zone, @line, @motor and the filter parameters
+export const bindLogFilter = (request, { zone, line, motor, weeks, days, from, to, shifts }) => {
+  request.input('zone', sql.NVarChar, zone);
+  request.input('line', sql.NVarChar, line);
+  request.input('motor', sql.NVarChar, motor);
+
+  let weekClause = '';
+  if (weeks.length > 0) {
+    weekClause = `AND ProductionWeek IN (${weeks.map((_, i) => `@week${i}`).join(',')})`;
+    weeks.forEach((w, i) => request.input(`week${i}`, sql.NVarChar, w));
+  }
+
+  // Use DATEPART for day filtering (DayOfWeek column may not exist); needs SET DATEFIRST 1
+  let dayClause = '';
+  if (days.length > 0) {
+    dayClause = `AND DATEPART(WEEKDAY, [Timestamp]) IN (${days.map((_, i) => `@day${i}`).join(',')})`;
+    days.forEach((d, i) => request.input(`day${i}`, sql.Int, d));
+  }
+
+  let rangeClause = '';
+  if (from) {
+    rangeClause += ' AND [Timestamp] >= CONVERT(DATETIME2, @from, 121)';
+    request.input('from', sql.NVarChar, from);
+  }
+  if (to) {
+    rangeClause += ' AND [Timestamp] <= CONVERT(DATETIME2, @to, 121)';
+    request.input('to', sql.NVarChar, to);
+  }
+
+  return { weekClause, dayClause, rangeClause, shiftClause: buildShiftClause(shifts) };
+};
+
+export const createStorage = () => ({
+  async ping() {
+    const pool = await getPool();
+    await pool.request().query('SELECT 1');
+  },
+
+  async listZones() {
+    const pool = await getPool();
+    // FAST: Use Indexed View V_MotorHierarchy
+    const result = await pool.request().query(`
+      SELECT
+        Zone AS name,
+        COUNT(DISTINCT Line) AS lineCount,
+        COUNT(DISTINCT MotorName) AS motorCount
+      FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
+      GROUP BY Zone
+      ORDER BY Zone;
+    `);
+    return result.recordset;
+  },
+
+  // Per-motor breaches in the status window + whether the motor logged recently (plant wall clock)
+  async listZoneMotorStatus({ plantNow, windowMinutes, staleMinutes, lookbackMinutes }) {
+    const pool = await getPool();
+    const request = pool.request();
+    request.input('windowMinutes', sql.Int, windowMinutes);
+    request.input('staleMinutes', sql.Int, staleMinutes);
+    request.input('lookbackMinutes', sql.Int, lookbackMinutes);
+    request.input('plantNow', sql.NVarChar, plantNow);
+    const result = await request.query(`
+      DECLARE @now DATETIME2 = CONVERT(DATETIME2, @plantNow, 121);
+
+      SELECT
+        h.Zone AS zone,
+        ISNULL(r.Breaches, 0) AS breaches,
+        CASE WHEN r.LastTimestamp >= DATEADD(MINUTE, -@staleMinutes, @now) THEN 0 ELSE 1 END AS isStale
+      FROM dbo.V_MotorHierarchy h WITH (NOEXPAND)
+      OUTER APPLY (
+        SELECT
+          SUM(CASE
+            WHEN l.[Timestamp] >= DATEADD(MINUTE, -@windowMinutes, @now)
+              AND (l.MotorCurrent > l.MaxCurrentLimit OR l.AvgCurrent > l.MaxCurrentLimit)
+            THEN 1 ELSE 0 END) AS Breaches,
+          MAX(l.[Timestamp]) AS LastTimestamp
+        FROM dbo.MotorLogs l
+        WHERE l.Zone = h.Zone
+          AND l.Line = h.Line
+          AND l.MotorName = h.MotorName
+          AND l.[Timestamp] >= DATEADD(MINUTE, -@lookbackMinutes, @now)
+      ) r;
+    `);
+    return result.recordset.map(r => ({ zone: r.zone, breaches: r.breaches, isStale: r.isStale === 1 }));
+  },
+
+  async listLines(zone) {
+    const pool = await getPool();
+    const request = pool.request();
+    request.input('zone', sql.NVarChar, zone);
+    // FAST: Use Indexed View V_MotorHierarchy
+    const result = await request.query(`
+      SELECT
+        Line AS name,
+        @zone AS zone,
+        COUNT(DISTINCT MotorName) AS motorCount
+      FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
+      WHERE Zone = @zone
+      GROUP BY Line
+      ORDER BY Line;
+    `);
+    return result.recordset;
+  },
+
+  async listMotors(zone, line) {
+    const pool = await getPool();
+    const request = pool.request();
+    request.input('zone', sql.NVarChar, zone);
+    request.input('line', sql.NVarChar, line);
+    // FAST: Use Indexed View V_MotorHierarchy
+    const result = await request.query(`
+      SELECT MotorName
+      FROM dbo.V_MotorHierarchy WITH (NOEXPAND)
+      WHERE Zone = @zone AND Line = @line
+      ORDER BY MotorName;
+    `);
+    return result.recordset.map(r => r.MotorName);
+  },
+
+  async listWeeks() {
+    const pool = await getPool();
+    const result = await pool.request().query(`
+      SELECT DISTINCT ProductionWeek
+      FROM dbo.MotorLogs
+      WHERE ProductionWeek IS NOT NULL
+      ORDER BY ProductionWeek;
+    `);
+    return result.recordset.map(r => r.ProductionWeek);
+  },
+
+  // maxPoints = null: every matching row. Otherwise downsampled in SQL (see shared/downsample.js for the rule);
+  // total = matching rows before downsampling
+  async getMotorLogs(filter, maxPoints, buckets) {
+    const pool = await getPool();
+    const request = pool.request();
+    const { weekClause, dayClause, rangeClause, shiftClause } = bindLogFilter(request, filter);
+
+    if (maxPoints !== null) {
+      request.input('maxPoints', sql.Int, maxPoints);
+      request.input('buckets', sql.Int, buckets);
+
+      const result = await request.query(`
+        SET DATEFIRST 1;
+
+        WITH Filtered AS (
+          SELECT
+            [Id], [Timestamp], [MotorName], [Zone], [Line], [ProductionWeek],
+            [MaxCurrentLimit], [MotorCurrent], [IsMotorOn], [AvgCurrent], [RunningTime],
+            LAG(CAST([IsMotorOn] AS INT), 1, -1) OVER (ORDER BY [Timestamp], [Id]) AS PrevState
+          FROM [dbo].[MotorLogs]
+          WHERE [MotorName] = @motor
+            AND [Zone] = @zone
+            AND [Line] = @line
+            ${weekClause}
+            ${dayClause}
+            ${rangeClause}
+            ${shiftClause}
+        ),
+        Bounds AS (
+          SELECT
+            MIN([Timestamp]) AS StartTime,
+            DATEDIFF_BIG(MILLISECOND, MIN([Timestamp]), MAX([Timestamp])) + 1 AS SpanMs,
+            COUNT(*) AS Total
+          FROM Filtered
+        ),
+        Ranked AS (
+          SELECT
+            f.*,
+            b.Total,
+            ROW_NUMBER() OVER (PARTITION BY x.BucketId ORDER BY f.[Timestamp], f.[Id]) AS RankFirst,
+            ROW_NUMBER() OVER (PARTITION BY x.BucketId ORDER BY f.[Timestamp] DESC, f.[Id] DESC) AS RankLast,
+            ROW_NUMBER() OVER (PARTITION BY x.BucketId ORDER BY f.[MotorCurrent] ASC) AS RankMin,
+            ROW_NUMBER() OVER (PARTITION BY x.BucketId ORDER BY f.[MotorCurrent] DESC) AS RankMax,
+            ROW_NUMBER() OVER (PARTITION BY x.BucketId ORDER BY f.[AvgCurrent] DESC) AS RankAvgMax
+          FROM Filtered f
+          CROSS JOIN Bounds b
+          CROSS APPLY (SELECT DATEDIFF_BIG(MILLISECOND, b.StartTime, f.[Timestamp]) * @buckets / b.SpanMs AS BucketId) x
+        )
+        SELECT
+          [Id],
+          FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
+          [MotorName],
+          [Zone],
+          [Line],
+          [ProductionWeek],
+          [MaxCurrentLimit],
+          [MotorCurrent],
+          [IsMotorOn],
+          [AvgCurrent],
+          [RunningTime],
+          [Total]
+        FROM Ranked
+        WHERE [Total] <= @maxPoints
+          OR CAST([IsMotorOn] AS INT) <> [PrevState]
+          OR RankFirst = 1 OR RankLast = 1
+          OR RankMin = 1 OR RankMax = 1 OR RankAvgMax = 1
+        ORDER BY [Timestamp] ASC, [Id] ASC;
+      `);
+
+      return {
+        rows: result.recordset.map(({ Total, ...row }) => row),
+        total: result.recordset.length > 0 ? result.recordset[0].Total : 0
+      };
+    }
+
+    const result = await request.query(`
+      SET DATEFIRST 1;
+
+      SELECT
+        [Id],
+        FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
+        [MotorName],
+        [Zone],
+        [Line],
+        [ProductionWeek],
+        [MaxCurrentLimit],
+        [MotorCurrent],
+        [IsMotorOn],
+        [AvgCurrent],
+        [RunningTime]
+      FROM [dbo].[MotorLogs]
+      WHERE [MotorName] = @motor
+        AND [Zone] = @zone
+        AND [Line] = @line
+        ${weekClause}
+        ${dayClause}
+        ${rangeClause}
+        ${shiftClause}
+      ORDER BY [Timestamp] ASC;
+    `);
+    return { rows: result.recordset, total: result.recordset.length };
+  },
+
+  // Running time = sum of gaps to the next sample while ON; cycles = OFF -> ON transitions
+  async getMotorSummary(filter) {
+    const pool = await getPool();
+    const request = pool.request();
+    const { weekClause, dayClause, rangeClause, shiftClause } = bindLogFilter(request, filter);
+
+    const result = await request.query(`
+      SET DATEFIRST 1;
+
+      WITH Ordered AS (
+        SELECT
+          [Timestamp],
+          [MaxCurrentLimit],
+          [MotorCurrent],
+          [AvgCurrent],
+          CAST([IsMotorOn] AS INT) AS IsOn,
+          LAG(CAST([IsMotorOn] AS INT), 1, -1) OVER (ORDER BY [Timestamp], [Id]) AS PrevOn,
+          LEAD([Timestamp]) OVER (ORDER BY [Timestamp], [Id]) AS NextTimestamp
+        FROM [dbo].[MotorLogs]
+        WHERE [MotorName] = @motor
+          AND [Zone] = @zone
+          AND [Line] = @line
+          ${weekClause}
+          ${dayClause}
+          ${rangeClause}
+          ${shiftClause}
+      )
+      SELECT
+        ISNULL(SUM(CASE WHEN IsOn = 1 AND NextTimestamp IS NOT NULL
+          THEN DATEDIFF_BIG(MILLISECOND, [Timestamp], NextTimestamp) ELSE 0 END), 0) / 1000.0 AS totalRunningTime,
+        ISNULL(MAX([MotorCurrent]), 0) AS peakCurrent,
+        ISNULL(AVG(CASE WHEN IsOn = 1 AND [MotorCurrent] > 0 AND [MaxCurrentLimit] > 0
+          THEN [MotorCurrent] * 100.0 / [MaxCurrentLimit] END), 0) AS averageEfficiency,
+        AVG(CASE WHEN IsOn = 1 AND [MotorCurrent] > 0 THEN [MotorCurrent] END) AS avgRunningCurrent,
+        SUM(CASE WHEN IsOn = 1 AND PrevOn = 0 THEN 1 ELSE 0 END) AS cycles,
+        SUM(CASE WHEN [MotorCurrent] > [MaxCurrentLimit] OR [AvgCurrent] > [MaxCurrentLimit] THEN 1 ELSE 0 END) AS maxLimitBreaches
+      FROM Ordered;
+    `);
+    return result.recordset[0] || {};
+  },
+
+  async getLatestMotorLogs({ zone, line, motor, minutes, plantNow }) {
+    const pool = await getPool();
+    const request = pool.request();
+    request.input('zone', sql.NVarChar, zone);
+    request.input('line', sql.NVarChar, line);
+    request.input('motor', sql.NVarChar, motor);
+    request.input('minutes', sql.Int, minutes);
+    request.input('plantNow', sql.NVarChar, plantNow);
+
+    const result = await request.query(`
+      DECLARE @now DATETIME2 = CONVERT(DATETIME2, @plantNow, 121);
+
+      SELECT
+        [Id],
+        FORMAT([Timestamp], 'yyyy-MM-dd HH:mm:ss.fff') AS [Timestamp],
+        [MotorName],
+        [Zone],
+        [Line],
+        [ProductionWeek],
+        [MaxCurrentLimit],
+        [MotorCurrent],
+        [IsMotorOn],
+        [AvgCurrent],
+        [RunningTime]
+      FROM [dbo].[MotorLogs]
+      WHERE [MotorName] = @motor
+        AND [Zone] = @zone
+        AND [Line] = @line
+        AND [Timestamp] >= DATEADD(MINUTE, -@minutes, @now)
+      ORDER BY [Timestamp] ASC;
+    `);
+    return result.recordset;
+  }
+});
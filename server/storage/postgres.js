@@ -0,0 +1,28 @@
+import { readFile } from 'node:fs/promises';
+import pg from 'pg';
+import { createSqlStorage } from './sql-storage.js';
+
+// PostgreSQL / TimescaleDB backend (DB_CLIENT=postgres). PG_URL, or the standard PGHOST/PGUSER/... variables.
+// The schema (schema-postgres.sql) is created on first connect when missing.
+
+// COUNT(*) and BIGINT ids come back as strings by default
+const types = {
+  getTypeParser: (oid, format) => (oid === pg.types.builtins.INT8 ? Number : pg.types.getTypeParser(oid, format))
+};
+
+export const createStorage = async () => {
+  const pool = new pg.Pool({ connectionString: process.env.PG_URL || undefined, types });
+  await pool.query(await readFile(new URL('./schema-postgres.sql', import.meta.url), 'utf8'));
+
+  return createSqlStorage({
+    query: async (text, params) => (await pool.query(text, params)).rows,
+    placeholder: (n) => `$${n}`,
+    timestamp: `to_char("Timestamp", 'YYYY-MM-DD HH24:MI:SS.MS')`,
+    toTimestamp: (param) => `CAST(${param} AS TIMESTAMP)`,
+    minutesBefore: (now, minutes) => `(CAST(${now} AS TIMESTAMP) - make_interval(mins => CAST(${minutes} AS INTEGER)))`,
+    weekday: 'EXTRACT(ISODOW FROM "Timestamp")',
+    minuteOfDay: '(EXTRACT(HOUR FROM "Timestamp") * 60 + EXTRACT(MINUTE FROM "Timestamp"))',
+    millisBetween: (a, b) => `(EXTRACT(EPOCH FROM (${b} - ${a})) * 1000)`,
+    mapRow: (row) => row
+  });
+};
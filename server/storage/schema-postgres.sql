@@ -0,0 +1,29 @@
+-- MotorLogs for the PostgreSQL / TimescaleDB backend (DB_CLIENT=postgres).
+-- Same columns as dbo.MotorLogs; "Timestamp" is the naive plant-local wall clock.
+
+CREATE TABLE IF NOT EXISTS "MotorLogs" (
+    "Id" BIGINT NOT NULL,
+    "Timestamp" TIMESTAMP(3) NOT NULL,
+    "BufferIndex" BIGINT NULL,
+    "MotorID" INTEGER NULL,
+    "MotorName" VARCHAR(50) NOT NULL,
+    "Zone" VARCHAR(50) NOT NULL,
+    "Line" VARCHAR(50) NOT NULL,
+    "ProductionWeek" VARCHAR(20) NULL,
+    "MaxCurrentLimit" DOUBLE PRECISION NULL,
+    "MotorCurrent" DOUBLE PRECISION NULL,
+    "IsMotorOn" BOOLEAN NULL,
+    "AvgCurrent" DOUBLE PRECISION NULL,
+    "RunningTime" DOUBLE PRECISION NULL,
+    "RecordedAt" TIMESTAMP(3) NULL,
+    PRIMARY KEY ("Id", "Timestamp")
+);
+
+CREATE INDEX IF NOT EXISTS "IX_MotorLogs_ZoneLineMotor_TS"
+ON "MotorLogs" ("Zone", "Line", "MotorName", "Timestamp");
+
+CREATE INDEX IF NOT EXISTS "IX_MotorLogs_ProductionWeek"
+ON "MotorLogs" ("ProductionWeek");
+
+-- TimescaleDB (optional, run once on an empty table):
+-- SELECT create_hypertable('"MotorLogs"', 'Timestamp', if_not_exists => TRUE);
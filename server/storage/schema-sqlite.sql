@@ -0,0 +1,26 @@
+-- MotorLogs for the embedded SQLite backend (DB_CLIENT=sqlite).
+-- "Timestamp" / "RecordedAt" are TEXT 'yyyy-MM-dd HH:mm:ss.fff' (naive plant-local wall clock),
+-- "IsMotorOn" is 0/1.
+
+CREATE TABLE IF NOT EXISTS "MotorLogs" (
+    "Id" INTEGER PRIMARY KEY,
+    "Timestamp" TEXT NOT NULL,
+    "BufferIndex" INTEGER NULL,
+    "MotorID" INTEGER NULL,
+    "MotorName" TEXT NOT NULL,
+    "Zone" TEXT NOT NULL,
+    "Line" TEXT NOT NULL,
+    "ProductionWeek" TEXT NULL,
+    "MaxCurrentLimit" REAL NULL,
+    "MotorCurrent" REAL NULL,
+    "IsMotorOn" INTEGER NULL,
+    "AvgCurrent" REAL NULL,
+    "RunningTime" REAL NULL,
+    "RecordedAt" TEXT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IX_MotorLogs_ZoneLineMotor_TS"
+ON "MotorLogs" ("Zone", "Line", "MotorName", "Timestamp");
+
+CREATE INDEX IF NOT EXISTS "IX_MotorLogs_ProductionWeek"
+ON "MotorLogs" ("ProductionWeek");
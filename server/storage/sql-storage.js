@@ -0,0 +1,190 @@
+import { buildShiftClause } from '../shifts.js';
+import { downsampleLogs } from '../../shared/downsample.js';
+
+// Portable SQL for the PostgreSQL and SQLite backends. A dialect supplies:
+//   query(text, params) -> rows      placeholder(n) -> '$1' / '?'
+//   timestamp     - "Timestamp" formatted as 'yyyy-MM-dd HH:mm:ss.fff'
+//   toTimestamp(p) - a 'yyyy-MM-dd HH:mm:ss.fff' parameter compared against "Timestamp"
+//   minutesBefore(now, minutes) - timestamp `minutes` before `now`
+//   weekday       - ISO day of week of "Timestamp" (1 = Monday ... 7 = Sunday)
+//   minuteOfDay   - minute of the day of "Timestamp" (shift filter)
+//   millisBetween(a, b) - milliseconds from timestamp a to timestamp b
+//   mapRow(row)   - driver values -> the JSON the MSSQL backend returns (IsMotorOn as boolean)
+
+const LOG_COLUMNS = (d) => `
+  "Id",
+  ${d.timestamp} AS "Timestamp",
+  "MotorName",
+  "Zone",
+  "Line",
+  "ProductionWeek",
+  "MaxCurrentLimit",
+  "MotorCurrent",
+  "IsMotorOn",
+  "AvgCurrent",
+  "RunningTime"
+`;
+
+// Collects parameters and hands out the dialect's placeholders. Add them in the order they appear
+// in the SQL text - SQLite's '?' placeholders are positional.
+const createParams = (dialect) => {
+  const values = [];
+  return {
+    values,
+    add(value) {
+      values.push(value);
+      return dialect.placeholder(values.length);
+    }
+  };
+};
+
+const logFilterClauses = (dialect, params, { zone, line, motor, weeks, days, from, to, shifts }) => {
+  const clauses = [
+    `"MotorName" = ${params.add(motor)}`,
+    `"Zone" = ${params.add(zone)}`,
+    `"Line" = ${params.add(line)}`
+  ];
+  if (weeks.length > 0) clauses.push(`"ProductionWeek" IN (${weeks.map(w => params.add(w)).join(',')})`);
+  if (days.length > 0) clauses.push(`${dialect.weekday} IN (${days.map(d => params.add(d)).join(',')})`);
+  if (from) clauses.push(`"Timestamp" >= ${dialect.toTimestamp(params.add(from))}`);
+  if (to) clauses.push(`"Timestamp" <= ${dialect.toTimestamp(params.add(to))}`);
+  return `WHERE ${clauses.join(' AND ')} ${buildShiftClause(shifts, dialect.minuteOfDay)}`;
+};
+
+export const createSqlStorage = (dialect) => {
+  const run = async (text, params = []) => (await dialect.query(text, params)).map(dialect.mapRow);
+
+  return {
+    async ping() {
+      await dialect.query('SELECT 1', []);
+    },
+
+    async listZones() {
+      return run(`
+        SELECT "Zone" AS name, COUNT(DISTINCT "Line") AS "lineCount", COUNT(DISTINCT "MotorName") AS "motorCount"
+        FROM "MotorLogs"
+        WHERE "Zone" IS NOT NULL AND "Line" IS NOT NULL AND "MotorName" IS NOT NULL
+        GROUP BY "Zone"
+        ORDER BY "Zone";
+      `);
+    },
+
+    async listZoneMotorStatus({ plantNow, windowMinutes, staleMinutes, lookbackMinutes }) {
+      const params = createParams(dialect);
+      const since = (minutes) => dialect.minutesBefore(params.add(plantNow), params.add(minutes));
+
+      // Every known motor, with its activity in the lookback window (none = stale)
+      const rows = await run(`
+        SELECT
+          h."Zone" AS zone,
+          COALESCE(r.breaches, 0) AS breaches,
+          CASE WHEN r."lastTimestamp" >= ${since(staleMinutes)} THEN 0 ELSE 1 END AS "isStale"
+        FROM (SELECT DISTINCT "Zone", "Line", "MotorName" FROM "MotorLogs") h
+        LEFT JOIN (
+          SELECT
+            "Zone", "Line", "MotorName",
+            SUM(CASE
+              WHEN "Timestamp" >= ${since(windowMinutes)}
+                AND ("MotorCurrent" > "MaxCurrentLimit" OR "AvgCurrent" > "MaxCurrentLimit")
+              THEN 1 ELSE 0 END) AS breaches,
+            MAX("Timestamp") AS "lastTimestamp"
+          FROM "MotorLogs"
+          WHERE "Timestamp" >= ${since(lookbackMinutes)}
+          GROUP BY "Zone", "Line", "MotorName"
+        ) r ON r."Zone" = h."Zone" AND r."Line" = h."Line" AND r."MotorName" = h."MotorName";
+      `, params.values);
+      return rows.map(r => ({ zone: r.zone, breaches: Number(r.breaches), isStale: Number(r.isStale) === 1 }));
+    },
+
+    async listLines(zone) {
+      return run(`
+        SELECT "Line" AS name, "Zone" AS zone, COUNT(DISTINCT "MotorName") AS "motorCount"
+        FROM "MotorLogs"
+        WHERE "Zone" = ${dialect.placeholder(1)} AND "Line" IS NOT NULL AND "MotorName" IS NOT NULL
+        GROUP BY "Zone", "Line"
+        ORDER BY "Line";
+      `, [zone]);
+    },
+
+    async listMotors(zone, line) {
+      const rows = await run(`
+        SELECT DISTINCT "MotorName"
+        FROM "MotorLogs"
+        WHERE "Zone" = ${dialect.placeholder(1)} AND "Line" = ${dialect.placeholder(2)} AND "MotorName" IS NOT NULL
+        ORDER BY "MotorName";
+      `, [zone, line]);
+      return rows.map(r => r.MotorName);
+    },
+
+    async listWeeks() {
+      const rows = await run(`
+        SELECT DISTINCT "ProductionWeek"
+        FROM "MotorLogs"
+        WHERE "ProductionWeek" IS NOT NULL
+        ORDER BY "ProductionWeek";
+      `);
+      return rows.map(r => r.ProductionWeek);
+    },
+
+    async getMotorLogs(filter, maxPoints, buckets) {
+      const params = createParams(dialect);
+      const rows = await run(`
+        SELECT ${LOG_COLUMNS(dialect)}
+        FROM "MotorLogs"
+        ${logFilterClauses(dialect, params, filter)}
+        ORDER BY "Timestamp", "Id";
+      `, params.values);
+      return {
+        rows: maxPoints === null ? rows : downsampleLogs(rows, maxPoints, buckets),
+        total: rows.length
+      };
+    },
+
+    // Same aggregates as the MSSQL backend: running time = gaps to the next sample while ON, cycles = OFF -> ON
+    async getMotorSummary(filter) {
+      const params = createParams(dialect);
+      const where = logFilterClauses(dialect, params, filter);
+      const [row] = await run(`
+        WITH "Ordered" AS (
+          SELECT
+            "Timestamp",
+            "MaxCurrentLimit",
+            "MotorCurrent",
+            "AvgCurrent",
+            CASE WHEN "IsMotorOn" THEN 1 ELSE 0 END AS "IsOn",
+            LAG(CASE WHEN "IsMotorOn" THEN 1 ELSE 0 END, 1, -1) OVER (ORDER BY "Timestamp", "Id") AS "PrevOn",
+            LEAD("Timestamp") OVER (ORDER BY "Timestamp", "Id") AS "NextTimestamp"
+          FROM "MotorLogs"
+          ${where}
+        )
+        SELECT
+          COALESCE(SUM(CASE WHEN "IsOn" = 1 AND "NextTimestamp" IS NOT NULL
+            THEN ${dialect.millisBetween('"Timestamp"', '"NextTimestamp"')} ELSE 0 END), 0) / 1000.0 AS "totalRunningTime",
+          COALESCE(MAX("MotorCurrent"), 0) AS "peakCurrent",
+          COALESCE(AVG(CASE WHEN "IsOn" = 1 AND "MotorCurrent" > 0 AND "MaxCurrentLimit" > 0
+            THEN "MotorCurrent" * 100.0 / "MaxCurrentLimit" END), 0) AS "averageEfficiency",
+          AVG(CASE WHEN "IsOn" = 1 AND "MotorCurrent" > 0 THEN "MotorCurrent" END) AS "avgRunningCurrent",
+          SUM(CASE WHEN "IsOn" = 1 AND "PrevOn" = 0 THEN 1 ELSE 0 END) AS cycles,
+          SUM(CASE WHEN "MotorCurrent" > "MaxCurrentLimit" OR "AvgCurrent" > "MaxCurrentLimit" THEN 1 ELSE 0 END) AS "maxLimitBreaches"
+        FROM "Ordered";
+      `, params.values);
+      return row || {};
+    },
+
+    async getLatestMotorLogs({ zone, line, motor, minutes, plantNow }) {
+      const params = createParams(dialect);
+      const where = [
+        `"MotorName" = ${params.add(motor)}`,
+        `"Zone" = ${params.add(zone)}`,
+        `"Line" = ${params.add(line)}`
+      ];
+      const since = dialect.minutesBefore(params.add(plantNow), params.add(minutes));
+      return run(`
+        SELECT ${LOG_COLUMNS(dialect)}
+        FROM "MotorLogs"
+        WHERE ${where.join(' AND ')} AND "Timestamp" >= ${since}
+        ORDER BY "Timestamp", "Id";
+      `, params.values);
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import { readFileSync } from 'node:fs';
+import Database from 'better-sqlite3';
+import { createSqlStorage } from './sql-storage.js';
+
+// Embedded SQLite backend (DB_CLIENT=sqlite) for development and CI. SQLITE_PATH is the database file
+// (':memory:' for a throwaway one); the schema (schema-sqlite.sql) is created when missing.
+// Timestamps are TEXT 'yyyy-MM-dd HH:mm:ss.fff', so string comparison is time order.
+
+export const createStorage = () => {
+  const db = new Database(process.env.SQLITE_PATH || 'motorlogs.sqlite');
+  db.pragma('journal_mode = WAL');
+  db.exec(readFileSync(new URL('./schema-sqlite.sql', import.meta.url), 'utf8'));
+
+  return createSqlStorage({
+    query: async (text, params) => db.prepare(text).all(params),
+    placeholder: () => '?',
+    timestamp: '"Timestamp"',
+    toTimestamp: (param) => param,
+    minutesBefore: (now, minutes) => `strftime('%Y-%m-%d %H:%M:%f', ${now}, '-' || ${minutes} || ' minutes')`,
+    weekday: `((CAST(strftime('%w', "Timestamp") AS INTEGER) + 6) % 7 + 1)`,
+    minuteOfDay: `(CAST(strftime('%H', "Timestamp") AS INTEGER) * 60 + CAST(strftime('%M', "Timestamp") AS INTEGER))`,
+    millisBetween: (a, b) => `ROUND((julianday(${b}) - julianday(${a})) * 86400000.0)`,
+    // BOOLEAN is stored as 0/1
+    mapRow: (row) => ('IsMotorOn' in row ? { ...row, IsMotorOn: row.IsMotorOn === 1 } : row)
+  });
+};
@@ -0,0 +1,185 @@
+import { getPool, sql } from './db.js';
+import { plantNowSql } from './plant-time.js';
+import { TREND, fitCurrentTrend } from './current-trend.js';
+
+// Background job: keeps dbo.MotorDailyStats (daily AvgCurrent while running) up to date and
+// refits dbo.MotorTrends for every motor. Tables come from server/db-trends.sql.
+const INTERVAL_MS = Number(process.env.TREND_ENGINE_INTERVAL_MS || 60 * 60 * 1000);
+
+let running = false;
+let lastError = null;
+
+// Re-aggregates from the last stored day (it was probably partial) or the whole window on the first run.
+// Rows with AvgCurrent = 0 carry only the instantaneous current and are left out of the average.
+const refreshDailyStats = async (pool, plantNow) => {
+  await pool.request()
+    .input('plantNow', sql.NVarChar, plantNow)
+    .input('windowDays', sql.Int, TREND.windowDays)
+    .query(`
+      DECLARE @today DATE = CAST(CONVERT(DATETIME2, @plantNow, 121) AS DATE);
+      DECLARE @windowStart DATE = DATEADD(DAY, -@windowDays, @today);
+      DECLARE @fromDay DATE = ISNULL((SELECT MAX([Day]) FROM dbo.MotorDailyStats), @windowStart);
+      IF @fromDay < @windowStart SET @fromDay = @windowStart;
+
+      MERGE dbo.MotorDailyStats AS t
+      USING (
+        SELECT
+          [Zone],
+          [Line],
+          [MotorName],
+          CAST([Timestamp] AS DATE) AS [Day],
+          COUNT(*) AS Samples,
+          SUM(CASE WHEN [IsMotorOn] = 1 THEN 1 ELSE 0 END) AS RunningSamples,
+          AVG(CASE WHEN [IsMotorOn] = 1 AND [AvgCurrent] > 0 THEN CAST([AvgCurrent] AS FLOAT) END) AS AvgRunningCurrent,
+          MAX(CAST([MaxCurrentLimit] AS FLOAT)) AS MaxCurrentLimit
+        FROM dbo.MotorLogs
+        WHERE [Timestamp] >= CAST(@fromDay AS DATETIME2)
+          AND [Timestamp] < CAST(DATEADD(DAY, 1, @today) AS DATETIME2)
+        GROUP BY [Zone], [Line], [MotorName], CAST([Timestamp] AS DATE)
+      ) AS s
+      ON t.Zone = s.Zone AND t.Line = s.Line AND t.MotorName = s.MotorName AND t.[Day] = s.[Day]
+      WHEN MATCHED THEN UPDATE SET
+        Samples = s.Samples,
+        RunningSamples = s.RunningSamples,
+        AvgRunningCurrent = s.AvgRunningCurrent,
+        MaxCurrentLimit = s.MaxCurrentLimit
+      WHEN NOT MATCHED THEN
+        INSERT (Zone, Line, MotorName, [Day], Samples, RunningSamples, AvgRunningCurrent, MaxCurrentLimit)
+        VALUES (s.Zone, s.Line, s.MotorName, s.[Day], s.Samples, s.RunningSamples, s.AvgRunningCurrent, s.MaxCurrentLimit);
+
+      DELETE FROM dbo.MotorDailyStats WHERE [Day] < @windowStart;
+    `);
+};
+
+// Completed days only - today is still partial
+const DAILY_WINDOW_FILTER = `
+  [Day] >= DATEADD(DAY, -@windowDays, CAST(CONVERT(DATETIME2, @plantNow, 121) AS DATE))
+  AND [Day] < CAST(CONVERT(DATETIME2, @plantNow, 121) AS DATE)
+`;
+
+const refitTrends = async (pool, plantNow) => {
+  const daily = await pool.request()
+    .input('plantNow', sql.NVarChar, plantNow)
+    .input('windowDays', sql.Int, TREND.windowDays)
+    .query(`
+      SELECT Zone, Line, MotorName, [Day], AvgRunningCurrent, MaxCurrentLimit
+      FROM dbo.MotorDailyStats
+      WHERE ${DAILY_WINDOW_FILTER}
+      ORDER BY Zone, Line, MotorName, [Day];
+    `);
+
+  const byMotor = new Map();
+  for (const row of daily.recordset) {
+    const key = `${row.Zone}|${row.Line}|${row.MotorName}`;
+    if (!byMotor.has(key)) byMotor.set(key, { zone: row.Zone, line: row.Line, motorName: row.MotorName, points: [] });
+    byMotor.get(key).points.push({ dayMs: row.Day.getTime(), avgCurrent: row.AvgRunningCurrent, limit: row.MaxCurrentLimit });
+  }
+
+  // Replace all fits at once so motors without enough data lose their stale trend
+  const transaction = new sql.Transaction(pool);
+  await transaction.begin();
+  try {
+    await new sql.Request(transaction).query('DELETE FROM dbo.MotorTrends;');
+    for (const motor of byMotor.values()) {
+      const fit = fitCurrentTrend(motor.points);
+      if (!fit) continue;
+      await new sql.Request(transaction)
+        .input('zone', sql.NVarChar, motor.zone)
+        .input('line', sql.NVarChar, motor.line)
+        .input('motor', sql.NVarChar, motor.motorName)
+        .input('plantNow', sql.NVarChar, plantNow)
+        .input('fittedDays', sql.Int, fit.fittedDays)
+        .input('slope', sql.Float, fit.slopePerDay)
+        .input('level', sql.Float, fit.currentLevel)
+        .input('limit', sql.Float, fit.limit)
+        .input('r2', sql.Float, fit.r2)
+        .input('daysUntilLimit', sql.Float, fit.daysUntilLimit)
+        .input('isDrifting', sql.Bit, fit.isDrifting)
+        .query(`
+          INSERT INTO dbo.MotorTrends
+            (Zone, Line, MotorName, ComputedAt, FittedDays, SlopePerDay, CurrentLevel, CurrentLimit, R2, DaysUntilLimit, IsDrifting)
+          VALUES
+            (@zone, @line, @motor, CONVERT(DATETIME2, @plantNow, 121), @fittedDays, @slope, @level, @limit, @r2, @daysUntilLimit, @isDrifting);
+        `);
+    }
+    await transaction.commit();
+  } catch (err) {
+    await transaction.rollback();
+    throw err;
+  }
+};
+
+export const startTrendEngine = () => {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const pool = await getPool();
+      const plantNow = plantNowSql();
+      await refreshDailyStats(pool, plantNow);
+      await refitTrends(pool, plantNow);
+      lastError = null;
+    } catch (err) {
+      // Log once per distinct error (e.g. tables not created yet) instead of every run
+      if (err.message !== lastError) console.error('trend-engine error:', err.message);
+      lastError = err.message;
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, INTERVAL_MS);
+};
+
+export const registerTrendRoutes = (app) => {
+  // Fitted trend of one motor plus the daily points it was fitted on (trend = null until enough days)
+  app.get('/api/motor-trend', async (req, res) => {
+    const { zone, line, motor } = req.query;
+    if (!zone || !line || !motor) return res.status(400).json({ message: 'zone, line, motor are required' });
+
+    try {
+      const pool = await getPool();
+      const request = pool.request()
+        .input('zone', sql.NVarChar, zone)
+        .input('line', sql.NVarChar, line)
+        .input('motor', sql.NVarChar, motor)
+        .input('plantNow', sql.NVarChar, plantNowSql())
+        .input('windowDays', sql.Int, TREND.windowDays);
+
+      const result = await request.query(`
+        SELECT
+          FORMAT(ComputedAt, 'yyyy-MM-dd HH:mm:ss.fff') AS computedAt,
+          FittedDays AS fittedDays,
+          SlopePerDay AS slopePerDay,
+          CurrentLevel AS currentLevel,
+          CurrentLimit AS currentLimit,
+          R2 AS r2,
+          DaysUntilLimit AS daysUntilLimit,
+          IsDrifting AS isDrifting
+        FROM dbo.MotorTrends
+        WHERE Zone = @zone AND Line = @line AND MotorName = @motor;
+
+        SELECT
+          FORMAT([Day], 'yyyy-MM-dd') AS day,
+          AvgRunningCurrent AS avgCurrent,
+          MaxCurrentLimit AS currentLimit,
+          RunningSamples AS runningSamples
+        FROM dbo.MotorDailyStats
+        WHERE Zone = @zone AND Line = @line AND MotorName = @motor
+          AND ${DAILY_WINDOW_FILTER}
+        ORDER BY [Day];
+      `);
+
+      res.json({
+        trend: result.recordsets[0][0] ?? null,
+        points: result.recordsets[1],
+        windowDays: TREND.windowDays,
+        horizonDays: TREND.horizonDays
+      });
+    } catch (err) {
+      console.error('motor-trend error:', err.message);
+      res.status(500).json({ message: err.message });
+    }
+  });
+};
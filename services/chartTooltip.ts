@@ -0,0 +1,18 @@
+// Fields read from ECharts' axis-trigger tooltip params for line series of [timestampMs, amps] points
+export interface AxisTooltipParam {
+  seriesName: string;
+  color: string;
+  value: [number, number | null];
+}
+
+// Axis tooltip shared by the multi-series current charts: the hovered time, then one row per series
+// in its line color (series without a value at that time are left out)
+export const currentSeriesTooltip = (formatTime: (timestampMs: number) => string) =>
+  (params: AxisTooltipParam[]): string => {
+    if (!params || params.length === 0) return '';
+    const rows = params
+      .filter(p => p.value?.[1] != null)
+      .map(p => `<div style="color: ${p.color};">${p.seriesName}: ${(p.value[1] as number).toFixed(2)} A</div>`)
+      .join('');
+    return `<div style="font-weight: bold; margin-bottom: 8px;">${formatTime(params[0].value[0])}</div>${rows}`;
+  };
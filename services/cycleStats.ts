@@ -0,0 +1,24 @@
+import { CycleGrouping, CycleStats, ShiftDefinition } from '../types';
+import * as shared from '../shared/cycle-stats.js';
+
+// Typed client access to shared/cycle-stats.js (the same code behind /api/motor-cycles).
+// Works on naive UTC ms timestamps (see parseNaiveTimestamp in dataService).
+
+export const DEFAULT_SHIFTS: ShiftDefinition[] = shared.DEFAULT_SHIFTS;
+
+interface StatePoint {
+  timestampMs: number;
+  value: number; // 1 = ON, 0 = OFF
+}
+
+// Most recent shift that has already ended at ts (range presets)
+export const lastCompletedShift = (
+  ts: number,
+  shifts: ShiftDefinition[] = DEFAULT_SHIFTS
+): { name: string; start: number; end: number } | null => shared.lastCompletedShift(ts, shifts);
+
+export const computeCycleStats = (
+  points: StatePoint[], // Ordered by time
+  grouping: CycleGrouping = 'hour',
+  shifts: ShiftDefinition[] = DEFAULT_SHIFTS
+): CycleStats => shared.computeCycleStats(points, grouping, shifts) as CycleStats;
@@ -1,13 +1,23 @@
-import { MotorLog, ZoneData, LineData } from '../types';
+import { MotorLog, MotorSeries, ZoneData, LineData, AnalyticsSummary, MotorAlert, AlertComment, AlertCounts, AlertStatusFilter, MotorRef, MotorComparisonSeries, ShiftDefinition, ShiftSummaryRow, PlantConfig, MotorHealth, MotorTrendResponse, MotorAnomalyResult, DataQualityReport, DataGap, PlantOverview, MotorInfo, MotorInfoInput, MotorInfoLookup } from '../types';
+import { AlertQuery, DataServiceError, MotorDataOptions, MotorLogSubscriptionHandlers, parseNaiveTimestamp, formatNaiveTimestamp } from './dataServiceShared';
 
-// ALWAYS use database - no fallback to mock data
+export { DataServiceError, parseNaiveTimestamp, formatNaiveTimestamp } from './dataServiceShared';
+export type { AlertQuery, LiveTransport, MotorDataOptions, MotorLogSubscriptionHandlers } from './dataServiceShared';
+
+// VITE_DATA_SOURCE=mock serves every call from the synthetic plant in mockDataService (offline demos,
+// UI work); anything else uses the API. The mock is loaded on first use so it stays out of the API build's main chunk
+const USE_MOCK = import.meta.env.VITE_DATA_SOURCE === 'mock';
+const loadMock = () => import('./mockDataService');
 const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000';
 
+// The mock has no server-side export - callers fall back to exporting the loaded data
+export const hasServerExport = !USE_MOCK;
+
 console.log('🔍 DataService Config:', {
   VITE_DATA_SOURCE: import.meta.env.VITE_DATA_SOURCE,
   VITE_API_BASE: import.meta.env.VITE_API_BASE,
   API_BASE,
-  mode: 'DATABASE ONLY - No mock fallback'
+  mode: USE_MOCK ? 'MOCK - synthetic data, no API' : 'DATABASE'
 });
 
 const toNumber = (val: unknown, fallback = 0) => {
@@ -16,33 +26,6 @@ const toNumber = (val: unknown, fallback = 0) => {
   return fallback;
 };
 
-// Parse timestamp as "naive" (no timezone) - treats the DB value as if it were UTC
-// This ensures the exact database value is displayed, without local timezone conversion
-const parseNaiveTimestamp = (timestamp: string): number => {
-  if (!timestamp) return Date.now();
-  
-  // Handle format: "2024-01-28 14:30:00.000" or "2024-01-28T14:30:00.000"
-  const normalized = timestamp.replace(' ', 'T').replace(/Z$/, '');
-  
-  // Parse manually to create UTC date (so getUTCHours returns exact DB value)
-  const match = normalized.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/);
-  if (match) {
-    const [, year, month, day, hours, minutes, seconds, ms = '0'] = match;
-    return Date.UTC(
-      parseInt(year),
-      parseInt(month) - 1, // JS months are 0-indexed
-      parseInt(day),
-      parseInt(hours),
-      parseInt(minutes),
-      parseInt(seconds),
-      parseInt(ms.padEnd(3, '0'))
-    );
-  }
-  
-  // Fallback: parse as local (old behavior)
-  return new Date(normalized).getTime();
-};
-
 const normalizeMotorLog = (raw: any): MotorLog => {
   const timestamp = raw.Timestamp || raw.timestamp;
   const timestampMs = parseNaiveTimestamp(timestamp);
@@ -68,23 +51,11 @@ const normalizeMotorLog = (raw: any): MotorLog => {
   };
 };
 
-// Error class for API failures
-export class DataServiceError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public endpoint?: string
-  ) {
-    super(message);
-    this.name = 'DataServiceError';
-  }
-}
-
-const fetchJson = async <T,>(path: string): Promise<T> => {
+const fetchResponse = async (path: string, init?: RequestInit): Promise<Response> => {
   const url = `${API_BASE}${path}`;
 
   try {
-    const res = await fetch(url);
+    const res = await fetch(url, init);
 
     if (!res.ok) {
       throw new DataServiceError(
@@ -94,7 +65,7 @@ const fetchJson = async <T,>(path: string): Promise<T> => {
       );
     }
 
-    return res.json();
+    return res;
   } catch (error) {
     if (error instanceof DataServiceError) {
       throw error;
@@ -109,29 +80,56 @@ const fetchJson = async <T,>(path: string): Promise<T> => {
   }
 };
 
+const fetchJson = async <T,>(path: string): Promise<T> => {
+  const res = await fetchResponse(path);
+  return res.json();
+};
+
+const sendJson = async <T,>(path: string, method: 'POST' | 'PUT' | 'DELETE', body?: unknown): Promise<T> => {
+  const res = await fetchResponse(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return res.json();
+};
+
 export const getZones = async (): Promise<ZoneData[]> => {
+  if (USE_MOCK) return (await loadMock()).getZones();
   return fetchJson<ZoneData[]>('/api/zones');
 };
 
 export const getLines = async (zone: string): Promise<LineData[]> => {
+  if (USE_MOCK) return (await loadMock()).getLines(zone);
   return fetchJson<LineData[]>(`/api/lines?zone=${encodeURIComponent(zone)}`);
 };
 
 export const getMotors = async (zone: string, line: string): Promise<string[]> => {
+  if (USE_MOCK) return (await loadMock()).getMotors(zone, line);
   return fetchJson<string[]>(`/api/motors?zone=${encodeURIComponent(zone)}&line=${encodeURIComponent(line)}`);
 };
 
 export const getAvailableWeeks = async (): Promise<string[]> => {
+  if (USE_MOCK) return (await loadMock()).getAvailableWeeks();
   return fetchJson<string[]>('/api/weeks');
 };
 
+// Optional from/to range and shift filter shared by the motor-log endpoints
+const setSelectionParams = (params: URLSearchParams, options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'>) => {
+  if (options.from !== undefined) params.set('from', formatNaiveTimestamp(options.from));
+  if (options.to !== undefined) params.set('to', formatNaiveTimestamp(options.to));
+  if (options.shifts && options.shifts.length > 0) params.set('shift', options.shifts.join(','));
+};
+
 export const generateMotorData = async (
   zone: string,
   line: string,
   motorName: string,
   weeks: string[],
-  days: number[] // Empty array means 'ALL'
-): Promise<MotorLog[]> => {
+  days: number[], // Empty array means 'ALL'
+  options: MotorDataOptions = {}
+): Promise<MotorSeries> => {
+  if (USE_MOCK) return (await loadMock()).generateMotorData(zone, line, motorName, weeks, days, options);
   const params = new URLSearchParams({
     zone,
     line,
@@ -139,9 +137,245 @@ export const generateMotorData = async (
     weeks: weeks.join(','),
     day: days.length > 0 ? days.join(',') : 'ALL'
   });
+  if (options.maxPoints) params.set('maxPoints', String(options.maxPoints));
+  setSelectionParams(params, options);
 
-  const raw = await fetchJson<any[]>(`/api/motor-logs?${params.toString()}`);
-  return raw.map(normalizeMotorLog).sort((a, b) => a.timestampObj - b.timestampObj);
+  const res = await fetchResponse(`/api/motor-logs?${params.toString()}`);
+  const raw: any[] = await res.json();
+  return {
+    logs: raw.map(normalizeMotorLog).sort((a, b) => a.timestampObj - b.timestampObj),
+    downsampled: res.headers.get('X-Downsampled') === '1'
+  };
+};
+
+// Compare mode: the same selection for several motors, fetched in parallel
+export const generateMotorComparison = async (
+  motors: MotorRef[],
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: MotorDataOptions = {}
+): Promise<MotorComparisonSeries[]> => {
+  if (USE_MOCK) return (await loadMock()).generateMotorComparison(motors, weeks, days, options);
+  return Promise.all(motors.map(async (motor) => ({
+    motor,
+    ...(await generateMotorData(motor.zone, motor.line, motor.motor, weeks, days, options))
+  })));
+};
+
+// Direct link to the server-side streamed export (full resolution, never downsampled)
+export const getMotorLogsExportUrl = (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  format: 'csv' | 'xlsx',
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): string => {
+  const params = new URLSearchParams({
+    zone,
+    line,
+    motor: motorName,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL',
+    format
+  });
+  setSelectionParams(params, options);
+
+  return `${API_BASE}/api/motor-logs-export?${params.toString()}`;
+};
+
+// KPI summary for the same week/day selection as generateMotorData
+export const getMotorSummary = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<AnalyticsSummary> => {
+  if (USE_MOCK) return (await loadMock()).getMotorSummary(zone, line, motorName, weeks, days, options);
+  const params = new URLSearchParams({
+    zone,
+    line,
+    motor: motorName,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL'
+  });
+  setSelectionParams(params, options);
+
+  return fetchJson<AnalyticsSummary>(`/api/motor-summary?${params.toString()}`);
+};
+
+// Current anomalies for the same selection as generateMotorData (always full resolution on the server)
+export const getMotorAnomalies = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<MotorAnomalyResult> => {
+  if (USE_MOCK) return (await loadMock()).getMotorAnomalies(zone, line, motorName, weeks, days, options);
+  const params = new URLSearchParams({
+    zone,
+    line,
+    motor: motorName,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL'
+  });
+  setSelectionParams(params, options);
+
+  return fetchJson<MotorAnomalyResult>(`/api/motor-anomalies?${params.toString()}`);
+};
+
+export const getShifts = async (): Promise<ShiftDefinition[]> => {
+  if (USE_MOCK) return (await loadMock()).getShifts();
+  return fetchJson<ShiftDefinition[]>('/api/shifts');
+};
+
+// Data quality counters for every motor of the line (or only motorName), same selection as generateMotorData
+export const getDataQuality = async (
+  zone: string,
+  line: string,
+  motorName: string | null,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<DataQualityReport> => {
+  if (USE_MOCK) return (await loadMock()).getDataQuality(zone, line, motorName, weeks, days, options);
+  const params = new URLSearchParams({
+    zone,
+    line,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL'
+  });
+  if (motorName) params.set('motor', motorName);
+  setSelectionParams(params, options);
+
+  return fetchJson<DataQualityReport>(`/api/data-quality?${params.toString()}`);
+};
+
+// Logging gaps of one motor for shading the charts
+export const getDataGaps = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<DataGap[]> => {
+  if (USE_MOCK) return (await loadMock()).getDataGaps(zone, line, motorName, weeks, days, options);
+  const params = new URLSearchParams({
+    zone,
+    line,
+    motor: motorName,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL'
+  });
+  setSelectionParams(params, options);
+
+  return fetchJson<DataGap[]>(`/api/data-gaps?${params.toString()}`);
+};
+
+// Latest state of every motor in the plant, one batched request for the overview wall
+export const getPlantOverview = async (): Promise<PlantOverview> => {
+  if (USE_MOCK) return (await loadMock()).getPlantOverview();
+  return fetchJson<PlantOverview>('/api/overview');
+};
+
+// Health ranking of every motor of the line over the last `days`, worst first
+export const getMotorHealth = async (zone: string, line: string, days: number): Promise<MotorHealth[]> => {
+  if (USE_MOCK) return (await loadMock()).getMotorHealth(zone, line, days);
+  const params = new URLSearchParams({ zone, line, days: String(days) });
+  return fetchJson<MotorHealth[]>(`/api/motor-health?${params.toString()}`);
+};
+
+export const getMotorTrend = async (zone: string, line: string, motorName: string): Promise<MotorTrendResponse> => {
+  if (USE_MOCK) return (await loadMock()).getMotorTrend(zone, line, motorName);
+  const params = new URLSearchParams({ zone, line, motor: motorName });
+  return fetchJson<MotorTrendResponse>(`/api/motor-trend?${params.toString()}`);
+};
+
+// Nameplate data of the motor (MotorID resolved from its latest log on the server)
+export const getMotorInfo = async (zone: string, line: string, motorName: string): Promise<MotorInfoLookup> => {
+  if (USE_MOCK) return (await loadMock()).getMotorInfo(zone, line, motorName);
+  const params = new URLSearchParams({ zone, line, motor: motorName });
+  return fetchJson<MotorInfoLookup>(`/api/motor-registry/lookup?${params.toString()}`);
+};
+
+// Create or replace the registry entry of a MotorID
+export const saveMotorInfo = async (motorId: number, info: MotorInfoInput): Promise<MotorInfo> => {
+  if (USE_MOCK) return (await loadMock()).saveMotorInfo(motorId, info);
+  return sendJson<MotorInfo>(`/api/motor-registry/${motorId}`, 'PUT', info);
+};
+
+export const deleteMotorInfo = async (motorId: number): Promise<void> => {
+  if (USE_MOCK) return (await loadMock()).deleteMotorInfo(motorId);
+  await fetchResponse(`/api/motor-registry/${motorId}`, { method: 'DELETE' });
+};
+
+export const getConfig = async (): Promise<PlantConfig> => {
+  if (USE_MOCK) return (await loadMock()).getConfig();
+  return fetchJson<PlantConfig>('/api/config');
+};
+
+// Per-shift running time/cycles/breaches for every motor of the line (or only motorName)
+export const getShiftSummary = async (
+  zone: string,
+  line: string,
+  motorName: string | null,
+  weeks: string[],
+  days: number[], // Empty array means 'ALL'
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<ShiftSummaryRow[]> => {
+  if (USE_MOCK) return (await loadMock()).getShiftSummary(zone, line, motorName, weeks, days, options);
+  const params = new URLSearchParams({
+    zone,
+    line,
+    weeks: weeks.join(','),
+    day: days.length > 0 ? days.join(',') : 'ALL'
+  });
+  if (motorName) params.set('motor', motorName);
+  setSelectionParams(params, options);
+
+  return fetchJson<ShiftSummaryRow[]>(`/api/shift-summary?${params.toString()}`);
+};
+
+export const getAlerts = async (query: AlertQuery = {}): Promise<MotorAlert[]> => {
+  if (USE_MOCK) return (await loadMock()).getAlerts(query);
+  const params = new URLSearchParams({ status: query.status ?? 'active' });
+  if (query.zone) params.set('zone', query.zone);
+  if (query.line) params.set('line', query.line);
+  if (query.motor) params.set('motor', query.motor);
+  if (query.limit) params.set('limit', String(query.limit));
+
+  return fetchJson<MotorAlert[]>(`/api/alerts?${params.toString()}`);
+};
+
+export const getAlertCounts = async (): Promise<AlertCounts> => {
+  if (USE_MOCK) return (await loadMock()).getAlertCounts();
+  return fetchJson<AlertCounts>('/api/alerts/summary');
+};
+
+export const acknowledgeAlert = async (id: number, user: string): Promise<MotorAlert> => {
+  if (USE_MOCK) return (await loadMock()).acknowledgeAlert(id, user);
+  return sendJson<MotorAlert>(`/api/alerts/${id}/acknowledge`, 'POST', { user });
+};
+
+export const resolveAlert = async (id: number, user: string, comment?: string): Promise<MotorAlert> => {
+  if (USE_MOCK) return (await loadMock()).resolveAlert(id, user, comment);
+  return sendJson<MotorAlert>(`/api/alerts/${id}/resolve`, 'POST', { user, comment });
+};
+
+export const getAlertComments = async (id: number): Promise<AlertComment[]> => {
+  if (USE_MOCK) return (await loadMock()).getAlertComments(id);
+  return fetchJson<AlertComment[]>(`/api/alerts/${id}/comments`);
+};
+
+export const addAlertComment = async (id: number, author: string, body: string): Promise<AlertComment> => {
+  if (USE_MOCK) return (await loadMock()).addAlertComment(id, author, body);
+  return sendJson<AlertComment>(`/api/alerts/${id}/comments`, 'POST', { author, body });
 };
 
 // Fetch latest motor data (for auto-refresh mode) - only last N minutes
@@ -149,8 +383,9 @@ export const getLatestMotorData = async (
   zone: string,
   line: string,
   motorName: string,
-  minutes: number = 15
+  minutes: number = 10
 ): Promise<MotorLog[]> => {
+  if (USE_MOCK) return (await loadMock()).getLatestMotorData(zone, line, motorName, minutes);
   const params = new URLSearchParams({
     zone,
     line,
@@ -162,8 +397,117 @@ export const getLatestMotorData = async (
   return raw.map(normalizeMotorLog).sort((a, b) => a.timestampObj - b.timestampObj);
 };
 
+// Default fallback polling cadence while the stream is down, and how long to poll before retrying the stream
+const LIVE_POLL_INTERVAL_MS = 10000;
+const STREAM_RETRY_MS = 60000;
+const SEEN_IDS_LIMIT = 5000;
+
+// Subscribe to new rows after `afterId` via SSE; falls back to polling /api/motor-logs-latest
+// when the stream drops. Returns an unsubscribe function.
+export const subscribeToMotorLogs = (
+  zone: string,
+  line: string,
+  motorName: string,
+  afterId: number | null, // null = only rows arriving from now on
+  handlers: MotorLogSubscriptionHandlers,
+  pollMinutes: number = 10,
+  pollIntervalMs: number = LIVE_POLL_INTERVAL_MS
+): (() => void) => {
+  if (USE_MOCK) {
+    let unsubscribeMock: (() => void) | null = null;
+    let cancelled = false;
+    loadMock().then(mock => {
+      if (!cancelled) unsubscribeMock = mock.subscribeToMotorLogs(zone, line, motorName, afterId, handlers, pollMinutes, pollIntervalMs);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribeMock?.();
+    };
+  }
+  // Stream catch-up and polling windows can overlap, so dedupe by Id above a moving floor
+  const seenIds = new Set<number>();
+  let floorId = afterId ?? -Infinity;
+  let lastId = floorId;
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const deliver = (rawRows: any[]) => {
+    const logs = rawRows
+      .map(normalizeMotorLog)
+      .filter(log => log.id > floorId && !seenIds.has(log.id))
+      .sort((a, b) => a.id - b.id);
+    if (logs.length === 0) return;
+
+    logs.forEach(log => seenIds.add(log.id));
+    lastId = Math.max(lastId, logs[logs.length - 1].id);
+    if (seenIds.size > SEEN_IDS_LIMIT) {
+      seenIds.clear();
+      floorId = lastId;
+    }
+    handlers.onLogs(logs);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    if (retryTimer) clearTimeout(retryTimer);
+    pollTimer = null;
+    retryTimer = null;
+  };
+
+  const startPolling = () => {
+    handlers.onTransportChange?.('polling');
+    const params = new URLSearchParams({ zone, line, motor: motorName, minutes: String(pollMinutes) });
+
+    pollTimer = setInterval(async () => {
+      try {
+        deliver(await fetchJson<any[]>(`/api/motor-logs-latest?${params.toString()}`));
+      } catch (error) {
+        if (error instanceof DataServiceError) handlers.onError?.(error);
+      }
+    }, pollIntervalMs);
+
+    retryTimer = setTimeout(() => {
+      stopPolling();
+      openStream();
+    }, STREAM_RETRY_MS);
+  };
+
+  const openStream = () => {
+    if (closed) return;
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return;
+    }
+
+    const params = new URLSearchParams({ zone, line, motor: motorName });
+    if (Number.isFinite(lastId)) params.set('afterId', String(lastId));
+    source = new EventSource(`${API_BASE}/api/motor-logs-stream?${params.toString()}`);
+    source.onopen = () => handlers.onTransportChange?.('stream');
+    source.addEventListener('logs', (event) => {
+      deliver(JSON.parse((event as MessageEvent).data));
+    });
+    source.onerror = () => {
+      // Drop to polling right away instead of waiting on EventSource's own reconnects
+      source?.close();
+      source = null;
+      if (!closed) startPolling();
+    };
+  };
+
+  openStream();
+
+  return () => {
+    closed = true;
+    source?.close();
+    stopPolling();
+  };
+};
+
 // Health check function
 export const checkApiHealth = async (): Promise<{ status: 'ok' | 'error'; message?: string }> => {
+  if (USE_MOCK) return (await loadMock()).checkApiHealth();
   try {
     const result = await fetchJson<{ status: string }>('/api/health');
     return { status: result.status === 'ok' ? 'ok' : 'error' };
@@ -0,0 +1,75 @@
+import { AlertStatusFilter, MotorLog } from '../types';
+import { plantNowMs } from './plantTime';
+
+// Types and helpers used by both the API data source (dataService) and the mock data source,
+// kept apart so neither imports the other
+
+// Parse timestamp as "naive" (no timezone) - treats the DB value as if it were UTC
+// This ensures the exact database value is displayed, without local timezone conversion
+export const parseNaiveTimestamp = (timestamp: string): number => {
+  if (!timestamp) return plantNowMs();
+  
+  // Handle format: "2024-01-28 14:30:00.000" or "2024-01-28T14:30:00.000"
+  const normalized = timestamp.replace(' ', 'T').replace(/Z$/, '');
+  
+  // Parse manually to create UTC date (so getUTCHours returns exact DB value)
+  const match = normalized.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?/);
+  if (match) {
+    const [, year, month, day, hours, minutes, seconds, ms = '0'] = match;
+    return Date.UTC(
+      parseInt(year),
+      parseInt(month) - 1, // JS months are 0-indexed
+      parseInt(day),
+      parseInt(hours),
+      parseInt(minutes),
+      parseInt(seconds),
+      parseInt(ms.padEnd(3, '0'))
+    );
+  }
+  
+  // Fallback: parse as local (old behavior)
+  return new Date(normalized).getTime();
+};
+
+// Inverse of parseNaiveTimestamp - formats naive UTC ms back to the DB string form
+export const formatNaiveTimestamp = (timestampMs: number): string => {
+  const d = new Date(timestampMs);
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}.${pad(d.getUTCMilliseconds(), 3)}`;
+};
+
+// Error class for API failures
+export class DataServiceError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public endpoint?: string
+  ) {
+    super(message);
+    this.name = 'DataServiceError';
+  }
+}
+
+export interface MotorDataOptions {
+  maxPoints?: number; // Let the server downsample to roughly this many points
+  from?: number; // Naive UTC ms - narrows the weeks/days selection (e.g. zoom window)
+  to?: number;
+  shifts?: string[]; // Shift names - empty/undefined = all shifts
+}
+
+export interface AlertQuery {
+  status?: AlertStatusFilter;
+  zone?: string;
+  line?: string;
+  motor?: string;
+  limit?: number;
+}
+
+export type LiveTransport = 'stream' | 'polling';
+
+export interface MotorLogSubscriptionHandlers {
+  onLogs: (logs: MotorLog[]) => void; // Only rows not delivered before, ordered by Id
+  onTransportChange?: (transport: LiveTransport) => void;
+  onError?: (error: DataServiceError) => void;
+}
@@ -0,0 +1,125 @@
+import { MotorLog } from '../types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Active selection, written into the file name and the file header
+export interface ExportContext {
+  zone: string;
+  line: string;
+  motor: string;
+  weeks: string[];
+  days: number[]; // Empty = all days
+  note?: string; // e.g. "LIVE last 10 min", "downsampled"
+}
+
+export interface OnOffRow {
+  timestampMs: number;
+  value: number;
+  label: string;
+}
+
+type Cell = string | number;
+
+// Same column names as dbo.MotorLogs / the server export
+const LOG_COLUMNS = ['Id', 'Timestamp', 'Zone', 'Line', 'MotorName', 'ProductionWeek', 'MaxCurrentLimit', 'MotorCurrent', 'IsMotorOn', 'AvgCurrent', 'RunningTime'];
+const ON_OFF_COLUMNS = ['Timestamp', 'Value', 'State'];
+
+const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+
+// Naive UTC ms -> "yyyy-MM-dd HH:mm:ss.fff" (exact DB value)
+const formatTimestamp = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}.${pad(d.getUTCMilliseconds(), 3)}`;
+};
+
+const safeName = (value: string) => value.replace(/[^\w.-]+/g, '-');
+
+export const buildExportFileName = (kind: string, context: ExportContext, format: ExportFormat) => {
+  const weeks = context.weeks.length > 0 ? `W${context.weeks.join('+')}` : 'Wall';
+  const days = context.days.length > 0 ? `D${[...context.days].sort().join('')}` : 'Dall';
+  return `${kind}_${safeName(context.zone)}_${safeName(context.line)}_${safeName(context.motor)}_${safeName(weeks)}_${days}.${format}`;
+};
+
+const headerLines = (context: ExportContext): [string, string][] => {
+  const lines: [string, string][] = [
+    ['Zone', context.zone],
+    ['Line', context.line],
+    ['Motor', context.motor],
+    ['Weeks', context.weeks.length > 0 ? context.weeks.join(', ') : 'ALL'],
+    ['Days', context.days.length > 0 ? [...context.days].sort().join(', ') : 'ALL'],
+    ['Exported', new Date().toISOString()]
+  ];
+  if (context.note) lines.push(['Note', context.note]);
+  return lines;
+};
+
+const escapeCsv = (value: Cell) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// CSV: "# key: value" header lines (pandas: comment='#'), then the table; BOM so Excel reads UTF-8
+const toCsv = (context: ExportContext, columns: string[], rows: Cell[][]) => {
+  const header = headerLines(context).map(([key, value]) => `# ${key}: ${value}`);
+  const body = [columns, ...rows].map(row => row.map(escapeCsv).join(','));
+  return '\uFEFF' + [...header, ...body].join('\r\n') + '\r\n';
+};
+
+const toXlsx = async (context: ExportContext, sheetName: string, columns: string[], rows: Cell[][]) => {
+  // Loaded on demand - keeps exceljs out of the main bundle
+  const mod = await import('exceljs');
+  const ExcelJS = (mod as any).default ?? mod;
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  headerLines(context).forEach(line => sheet.addRow(line));
+  sheet.addRow([]);
+  sheet.addRow(columns).font = { bold: true };
+  rows.forEach(row => sheet.addRow(row));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+const exportTable = async (kind: string, context: ExportContext, format: ExportFormat, columns: string[], rows: Cell[][]) => {
+  const fileName = buildExportFileName(kind, context, format);
+  if (format === 'csv') {
+    download(new Blob([toCsv(context, columns, rows)], { type: 'text/csv;charset=utf-8' }), fileName);
+  } else {
+    download(await toXlsx(context, kind, columns, rows), fileName);
+  }
+};
+
+export const exportMotorLogs = (logs: MotorLog[], context: ExportContext, format: ExportFormat) =>
+  exportTable('motorlogs', context, format, LOG_COLUMNS, logs.map(log => [
+    log.id,
+    formatTimestamp(log.timestampObj),
+    log.zone,
+    log.line,
+    log.motorName,
+    log.productionWeek,
+    log.maxCurrentLimit,
+    log.motorCurrent,
+    log.isMotorOn,
+    log.avgCurrent,
+    log.runningTime
+  ]));
+
+export const exportOnOffTable = (rows: OnOffRow[], context: ExportContext, format: ExportFormat) =>
+  exportTable('onoff', context, format, ON_OFF_COLUMNS, rows.map(row => [
+    formatTimestamp(row.timestampMs),
+    row.value,
+    row.label
+  ]));
@@ -1,124 +1,757 @@
-import { MotorLog, ZoneData, LineData, RawMotorLog } from '../types';
-
-// Raw Data provided by user
-const RAW_DATA: RawMotorLog[] = [
-  {"Id":"1","Timestamp":"2026-01-26 10:11:06.130","BufferIndex":1,"MotorID":6,"MotorName":"Motor 6","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.21","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.040"},{"Id":"2","Timestamp":"2026-01-26 10:11:06.413","BufferIndex":2,"MotorID":3,"MotorName":"Motor 3","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"5.95","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.040"},{"Id":"3","Timestamp":"2026-01-26 10:11:06.460","BufferIndex":3,"MotorID":11,"MotorName":"Motor 11","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":true,"AvgCurrent":"6.44","RunningTime":"99.00","RecordedAt":"2026-01-26 13:14:45.040"},{"Id":"4","Timestamp":"2026-01-26 10:11:06.460","BufferIndex":4,"MotorID":11,"MotorName":"Motor 11","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.043"},{"Id":"5","Timestamp":"2026-01-26 10:11:06.460","BufferIndex":5,"MotorID":11,"MotorName":"Motor 11","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":false,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.043"},{"Id":"6","Timestamp":"2026-01-26 10:11:06.500","BufferIndex":6,"MotorID":4,"MotorName":"Motor 4","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":true,"AvgCurrent":"6.42","RunningTime":"99.00","RecordedAt":"2026-01-26 13:14:45.043"},
-  // Truncated for brevity in code view, but conceptually assuming the full dataset is available or fetched. 
-  // For the purpose of this demo, I will implement a parser that processes the 1900 lines provided by the user.
-  // Ideally, this would be fetched from an API endpoint.
-  // I am including a subset of the data here to ensure it works immediately without errors.
-  {"Id":"100","Timestamp":"2026-01-26 10:11:15.133","BufferIndex":100,"MotorID":6,"MotorName":"Motor 6","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":false,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.073"},
-  {"Id":"500","Timestamp":"2026-01-26 10:11:51.463","BufferIndex":100,"MotorID":11,"MotorName":"Motor 11","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":false,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:15:21.036"},
-  {"Id":"900","Timestamp":"2026-01-26 10:12:27.516","BufferIndex":100,"MotorID":2,"MotorName":"Motor 2","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":false,"AvgCurrent":"0.00","RunningTime":"0.00","RecordedAt":"2026-01-26 13:15:57.120"},
-  {"Id":"1900","Timestamp":"2026-01-26 10:13:58.510","BufferIndex":100,"MotorID":4,"MotorName":"Motor 4","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.61","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:17:29.290"}
-];
+import { MotorLog, MotorSeries, ZoneData, LineData, AnalyticsSummary, MotorAlert, AlertComment, AlertCounts, MotorRef, MotorComparisonSeries, ShiftDefinition, ShiftSummaryRow, PlantConfig, MotorHealth, MotorTrendResponse, MotorTrendDay, MotorAnomaly, MotorAnomalyResult, DataQualityReport, DataGap, PlantOverview, OverviewMotor, MotorInfo, MotorInfoInput, MotorInfoLookup } from '../types';
+import { AlertQuery, DataServiceError, MotorDataOptions, MotorLogSubscriptionHandlers, formatNaiveTimestamp } from './dataServiceShared';
+import { DEFAULT_SHIFTS } from './cycleStats';
+import { getPlantTimeZone, plantNowMs } from './plantTime';
+import { ZONE_STATUS_DEFAULTS as ZONE_STATUS, deriveZoneStatus } from '../shared/zone-status.js';
+import { ANOMALY_DEFAULTS, createAnomalyDetector } from '../shared/anomaly-detection.js';
+import { TREND_DEFAULTS as TREND, fitCurrentTrend } from '../shared/current-trend.js';
+import { HEALTH_DEFAULTS, scoreMotorHealth } from '../shared/motor-health.js';
+import { DATA_QUALITY_DEFAULTS } from '../shared/data-quality.js';
+import { downsampleBuckets, downsampleLogs } from '../shared/downsample.js';
+
+// Offline demo data source (VITE_DATA_SOURCE=mock) - same async API as dataService, no server needed.
+// Every sample is a pure function of (motor, time), so all calls see the same history and new samples
+// appear as the plant clock moves on (live mode works). Thresholds, zone status, anomaly detection,
+// health scoring, trend fit and downsampling are the server's own (shared/); the aggregates that the
+// server computes in SQL (running time, starts, gaps) are recomputed here.
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const SAMPLE_MS = 15 * SECOND_MS;
+const HISTORY_DAYS = 35; // Covers the 28 day trend window
+
+const GAP_SECONDS = HEALTH_DEFAULTS.gapSeconds;
+const ALERT_LOOKBACK_MS = DAY_MS;
 
-// In a real scenario, I would paste the full 1900 lines here. 
-// For this environment, I'll simulate the parsing logic assuming `window.FULL_DATA` might exist or just use the filtered logic below.
-// Since I cannot paste 2000 lines into this response block without it being overwhelming, 
-// I will assume the `RAW_DATA` variable above is populated with the content you sent.
-// I will populate it with a significant chunk of your data to show it working.
-
-const FULL_DATASET: RawMotorLog[] = [
-  // ... Paste your Full JSON here ideally.
-  // I will map your provided data dynamically if passed, but here I'll use the items you gave me in the prompt.
-  // To make this fully functional for you, I'll implement a function that processes the data.
-  // Note: I'm using the items from the beginning and end of your file to simulate the range.
-  
-  // START OF REAL DATA MOCKING
-  {"Id":"1","Timestamp":"2026-01-26 10:11:06.130","BufferIndex":1,"MotorID":6,"MotorName":"Motor 6","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.21","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.040"},
-  {"Id":"2","Timestamp":"2026-01-26 10:11:06.413","BufferIndex":2,"MotorID":3,"MotorName":"Motor 3","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"5.95","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.040"},
-  {"Id":"3","Timestamp":"2026-01-26 10:11:06.460","BufferIndex":3,"MotorID":11,"MotorName":"Motor 11","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":true,"AvgCurrent":"6.44","RunningTime":"99.00","RecordedAt":"2026-01-26 13:14:45.040"},
-  {"Id":"6","Timestamp":"2026-01-26 10:11:06.500","BufferIndex":6,"MotorID":4,"MotorName":"Motor 4","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":true,"AvgCurrent":"6.42","RunningTime":"99.00","RecordedAt":"2026-01-26 13:14:45.043"},
-  {"Id":"9","Timestamp":"2026-01-26 10:11:06.513","BufferIndex":9,"MotorID":2,"MotorName":"Motor 2","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.93","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.046"},
-  {"Id":"13","Timestamp":"2026-01-26 10:11:06.986","BufferIndex":13,"MotorID":1,"MotorName":"Motor 1","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"5.95","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.046"},
-  {"Id":"15","Timestamp":"2026-01-26 10:11:07.243","BufferIndex":15,"MotorID":10,"MotorName":"Motor 10","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"0.00","IsMotorOn":false,"AvgCurrent":"0.00","RunningTime":"0.00","RecordedAt":"2026-01-26 13:14:45.050"},
-  {"Id":"16","Timestamp":"2026-01-26 10:11:07.243","BufferIndex":16,"MotorID":10,"MotorName":"Motor 10","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"2.89","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:14:45.050"},
-  // Adding more range data to allow chart movement
-  {"Id":"1001","Timestamp":"2026-01-26 10:12:36.666","BufferIndex":1,"MotorID":5,"MotorName":"Motor 5","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.86","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:16:17.850"},
-  {"Id":"1002","Timestamp":"2026-01-26 10:12:36.803","BufferIndex":2,"MotorID":9,"MotorName":"Motor 9","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.87","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:16:17.850"},
-  {"Id":"1898","Timestamp":"2026-01-26 10:13:58.256","BufferIndex":98,"MotorID":10,"MotorName":"Motor 10","Zone":"DefaultZone","Line":"DefaultLine","ProductionWeek":"26W05","MaxCurrentLimit":"7.50","MotorCurrent":"6.91","IsMotorOn":true,"AvgCurrent":"0.00","RunningTime":"10.00","RecordedAt":"2026-01-26 13:17:29.290"}
+const PLANT = [
+  { zone: 'Press Shop', lines: [{ line: 'Press Line 1', motors: 6 }, { line: 'Press Line 2', motors: 4 }] },
+  { zone: 'Body Shop', lines: [{ line: 'Welding', motors: 5 }, { line: 'Conveyor', motors: 8 }] },
+  { zone: 'Assembly', lines: [{ line: 'Final Assembly', motors: 6 }] }
 ];
 
-// Helper to parse provided JSON structure
-const parseMotorData = (raw: RawMotorLog[]): MotorLog[] => {
-  return raw.map(r => {
-    // Handle date parsing safely. Chrome accepts space separator, others might prefer T
-    const dateStr = r.Timestamp.replace(' ', 'T'); 
-    const dateObj = new Date(dateStr);
-    // Correct day of week (0 is Sunday, we want 1-7, where Monday is 1)
-    const day = dateObj.getDay() === 0 ? 7 : dateObj.getDay();
+interface MockMotor {
+  id: number; // MotorID, 1-based
+  zone: string;
+  line: string;
+  motorName: string;
+  limit: number; // MaxCurrentLimit, A
+  load: number; // Running current as a share of the limit
+  cycleMs: number;
+  duty: number; // Mean ON share of a cycle
+  offsetMs: number; // Sample phase, keeps the motors' timestamps apart
+  hardStart: boolean; // Occasional inrush above the limit
+  driftPerDay: number; // Load increase per day (share of the limit) - shows up in the trend panel
+}
 
-    return {
-      id: parseInt(r.Id),
-      timestamp: r.Timestamp, // Keep original string for display
-      timestampObj: dateObj.getTime(), // Numeric for charts
-      motorName: r.MotorName,
-      zone: r.Zone,
-      line: r.Line,
-      productionWeek: r.ProductionWeek,
-      dayOfWeek: day,
-      maxCurrentLimit: parseFloat(r.MaxCurrentLimit),
-      motorCurrent: parseFloat(r.MotorCurrent),
-      isMotorOn: r.IsMotorOn ? 1 : 0, // Convert boolean to number for Recharts step
-      avgCurrent: parseFloat(r.AvgCurrent),
-      runningTime: parseFloat(r.RunningTime)
-    };
-  }).sort((a, b) => a.timestampObj - b.timestampObj);
+// Deterministic noise in [0, 1) for (seed, n)
+const random = (seed: number, n: number) => {
+  let h = Math.imul(seed, 0x9e3779b1) ^ n;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
 };
 
-// Use the full parsed dataset
-const parsedData = parseMotorData(FULL_DATASET);
+const SALT = { setup: 1, cycle: 2, inrush: 3, event: 4, spike: 5, noise: 6, outage: 7, outageLength: 8, day: 9 };
+const noise = (motor: MockMotor, salt: number, n: number) => random(motor.id * 100 + salt, n);
 
-export const getZones = (): ZoneData[] => {
-  const zones = new Set(parsedData.map(d => d.zone));
-  return Array.from(zones).map(z => ({
-    name: z,
-    lineCount: new Set(parsedData.filter(d => d.zone === z).map(d => d.line)).size,
-    motorCount: new Set(parsedData.filter(d => d.zone === z).map(d => d.motorName)).size,
-    status: 'Healthy' // Mock status logic, could be based on alerts
+const LIMITS = [5, 7.5, 10, 16, 25];
+
+const MOTORS: MockMotor[] = (() => {
+  const motors: MockMotor[] = [];
+  PLANT.forEach(({ zone, lines }) => lines.forEach(({ line, motors: count }) => {
+    for (let i = 1; i <= count; i++) {
+      const id = motors.length + 1;
+      const setup = (n: number) => random(id * 100 + SALT.setup, n);
+      const driftPerDay = setup(7) < 0.12 ? 0.003 : 0;
+      motors.push({
+        id,
+        zone,
+        line,
+        motorName: `Motor ${i}`,
+        limit: LIMITS[Math.floor(setup(1) * LIMITS.length)],
+        load: (driftPerDay > 0 ? 0.55 : 0.6) + setup(2) * (driftPerDay > 0 ? 0.1 : 0.2),
+        cycleMs: (4 + Math.floor(setup(3) * 26)) * MINUTE_MS,
+        duty: 0.35 + setup(4) * 0.5,
+        offsetMs: Math.floor(setup(5) * SAMPLE_MS),
+        hardStart: setup(6) < 0.2,
+        driftPerDay
+      });
+    }
   }));
+  return motors;
+})();
+
+const findMotor = (zone: string, line: string, motorName: string) =>
+  MOTORS.find(m => m.zone === zone && m.line === line && m.motorName === motorName);
+
+const lineMotors = (zone: string, line: string, motorName: string | null = null) =>
+  MOTORS.filter(m => m.zone === zone && m.line === line && (!motorName || m.motorName === motorName));
+
+// Fixed on first use so the drift and the available weeks do not move while the app is open
+let historyStartMs: number | null = null;
+const historyStart = () => {
+  if (historyStartMs === null) historyStartMs = Math.floor(plantNowMs() / DAY_MS) * DAY_MS - HISTORY_DAYS * DAY_MS;
+  return historyStartMs;
 };
 
-export const getLines = (zone: string): LineData[] => {
-  const lines = new Set(parsedData.filter(d => d.zone === zone).map(d => d.line));
-  return Array.from(lines).map(l => ({
-    name: l,
-    zone: zone,
-    motorCount: new Set(parsedData.filter(d => d.zone === zone && d.line === l).map(d => d.motorName)).size
-  }));
+// 1 = Monday ... 7 = Sunday (day 0 of the epoch was a Thursday)
+const dayOfWeek = (ms: number) => ((Math.floor(ms / DAY_MS) + 3) % 7) + 1;
+
+const weekCache = new Map<number, string>();
+const productionWeek = (ms: number) => {
+  const day = Math.floor(ms / DAY_MS);
+  let week = weekCache.get(day);
+  if (!week) {
+    // ISO week: the week's Thursday decides the year
+    const thursday = (day - dayOfWeek(ms) + 4) * DAY_MS;
+    const year = new Date(thursday).getUTCFullYear();
+    const number = Math.floor((thursday - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+    week = `${String(year % 100).padStart(2, '0')}W${String(number).padStart(2, '0')}`;
+    weekCache.set(day, week);
+  }
+  return week;
+};
+
+const weekRange = (week: string): [number, number] | null => {
+  const match = week.match(/^(\d{2})W(\d{2})$/);
+  if (!match) return null;
+  const jan4 = Date.UTC(2000 + Number(match[1]), 0, 4);
+  const start = jan4 - (dayOfWeek(jan4) - 1) * DAY_MS + (Number(match[2]) - 1) * 7 * DAY_MS;
+  return [start, start + 7 * DAY_MS - 1];
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Shift of a sample (DEFAULT_SHIFTS, like the server without SHIFTS set); null = outside every shift
+const shiftOf = (ms: number): string | null => {
+  const minuteOfDay = Math.floor((ms - Math.floor(ms / DAY_MS) * DAY_MS) / MINUTE_MS);
+  const shift = DEFAULT_SHIFTS.find(s => {
+    const start = toMinutes(s.start);
+    const end = toMinutes(s.end);
+    return end > start ? minuteOfDay >= start && minuteOfDay < end : minuteOfDay >= start || minuteOfDay < end;
+  });
+  return shift ? shift.name : null;
 };
 
-export const getMotors = (zone: string, line: string): string[] => {
-  const motors = new Set(parsedData.filter(d => d.zone === zone && d.line === line).map(d => d.motorName));
-  return Array.from(motors).sort();
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Logger outages: about one hour in 80 loses its first 10-50 minutes
+const isLoggerDown = (motor: MockMotor, ms: number) => {
+  const hour = Math.floor(ms / HOUR_MS);
+  if (noise(motor, SALT.outage, hour) >= 0.0125) return false;
+  return ms - hour * HOUR_MS < (10 + 40 * noise(motor, SALT.outageLength, hour)) * MINUTE_MS;
+};
+
+// Sample k of a motor (null = not logged); Ids grow with time across all motors
+const sampleAt = (motor: MockMotor, k: number): MotorLog | null => {
+  const ts = k * SAMPLE_MS + motor.offsetMs;
+  if (isLoggerDown(motor, ts)) return null;
+
+  const cycle = Math.floor(ts / motor.cycleMs);
+  const inCycleMs = ts - cycle * motor.cycleMs;
+  const onMs = motor.cycleMs * Math.min(0.95, motor.duty * (0.7 + 0.6 * noise(motor, SALT.cycle, cycle)));
+  // The plant does not run on Sundays
+  const isOn = dayOfWeek(ts) !== 7 && inCycleMs < onMs;
+  const event = noise(motor, SALT.event, k);
+
+  let current = 0;
+  let avgCurrent = 0;
+  if (isOn) {
+    // Day-to-day load varies by a few percent, plus the drift of worn motors
+    const dayLoad = motor.load * (0.97 + 0.06 * noise(motor, SALT.day, Math.floor(ts / DAY_MS)));
+    avgCurrent = motor.limit * (dayLoad + motor.driftPerDay * (ts - historyStart()) / DAY_MS);
+    const jitter = noise(motor, SALT.noise, k) + noise(motor, SALT.noise + 10, k) + noise(motor, SALT.noise + 20, k) - 1.5;
+    current = avgCurrent * (1 + 0.08 * jitter);
+
+    if (inCycleMs < SAMPLE_MS && motor.hardStart && noise(motor, SALT.inrush, cycle) < 0.03) {
+      current = motor.limit * (1.1 + 0.3 * event); // Inrush
+    } else if (event < 0.00015) {
+      current = motor.limit * (1.05 + 0.25 * noise(motor, SALT.spike, k)); // Overload
+    } else if (event > 0.9996) {
+      current = 0; // Sensor dropout
+    }
+  } else if (event < 0.0003) {
+    current = 0.6 + noise(motor, SALT.spike, k); // Current while OFF
+  }
+
+  return {
+    id: k * MOTORS.length + motor.id,
+    timestamp: formatNaiveTimestamp(ts),
+    timestampObj: ts,
+    motorName: motor.motorName,
+    zone: motor.zone,
+    line: motor.line,
+    productionWeek: productionWeek(ts),
+    dayOfWeek: dayOfWeek(ts),
+    maxCurrentLimit: motor.limit,
+    motorCurrent: round2(current),
+    isMotorOn: isOn ? 1 : 0,
+    avgCurrent: round2(avgCurrent),
+    runningTime: isOn ? round2(inCycleMs / MINUTE_MS) : 0
+  };
+};
+
+// Samples in [fromMs, toMs], clipped to the history and the plant clock
+const logsBetween = (motor: MockMotor, fromMs: number, toMs: number): MotorLog[] => {
+  const first = Math.ceil((Math.max(fromMs, historyStart()) - motor.offsetMs) / SAMPLE_MS);
+  const last = Math.floor((Math.min(toMs, plantNowMs()) - motor.offsetMs) / SAMPLE_MS);
+  const logs: MotorLog[] = [];
+  for (let k = first; k <= last; k++) {
+    const log = sampleAt(motor, k);
+    if (log) logs.push(log);
+  }
+  return logs;
+};
+
+// Latest sample within lookbackMs of now
+const latestLog = (motor: MockMotor, lookbackMs: number): MotorLog | null => {
+  const now = plantNowMs();
+  const stop = Math.max(now - lookbackMs, historyStart());
+  for (let k = Math.floor((now - motor.offsetMs) / SAMPLE_MS); k * SAMPLE_MS + motor.offsetMs >= stop; k--) {
+    const log = sampleAt(motor, k);
+    if (log) return log;
+  }
+  return null;
 };
 
-export const generateMotorData = (
-  zone: string, 
-  line: string, 
-  motorName: string, 
-  weeks: string[], 
-  day: number | 'ALL'
+// Same week/day/range/shift selection as the motor-log endpoints
+const selectLogs = (
+  motor: MockMotor | undefined,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'>
 ): MotorLog[] => {
-  let filtered = parsedData.filter(d => 
-    d.zone === zone && 
-    d.line === line && 
-    d.motorName === motorName
-  );
-
-  if (weeks.length > 0) {
-    filtered = filtered.filter(d => weeks.includes(d.productionWeek));
+  if (!motor) return [];
+  const ranges = weeks.length > 0
+    ? weeks.map(weekRange).filter((r): r is [number, number] => r !== null).sort((a, b) => a[0] - b[0])
+    : [[historyStart(), plantNowMs()] as [number, number]];
+  const shifts = options.shifts ?? [];
+
+  return ranges
+    .flatMap(([start, end]) => logsBetween(motor, Math.max(start, options.from ?? -Infinity), Math.min(end, options.to ?? Infinity)))
+    .filter(log => days.length === 0 || days.includes(log.dayOfWeek))
+    .filter(log => shifts.length === 0 || shifts.includes(shiftOf(log.timestampObj) ?? ''));
+};
+
+const isBreach = (log: MotorLog) => log.motorCurrent > log.maxCurrentLimit || log.avgCurrent > log.maxCurrentLimit;
+
+// Running seconds (gap to the next sample while ON) and OFF -> ON starts, as on the server
+const runStats = (logs: MotorLog[]) => {
+  let runningTime = 0;
+  let cycles = 0;
+  logs.forEach((log, i) => {
+    if (log.isMotorOn === 1 && i + 1 < logs.length) runningTime += (logs[i + 1].timestampObj - log.timestampObj) / 1000;
+    if (i > 0 && log.isMotorOn === 1 && logs[i - 1].isMotorOn === 0) cycles++;
+  });
+  return { runningTime, cycles };
+};
+
+// Pauses between samples longer than the gap threshold
+const findGaps = (logs: MotorLog[]): DataGap[] => {
+  const gaps: DataGap[] = [];
+  for (let i = 1; i < logs.length; i++) {
+    const seconds = (logs[i].timestampObj - logs[i - 1].timestampObj) / 1000;
+    if (seconds > GAP_SECONDS) {
+      gaps.push({ start: logs[i - 1].timestamp, end: logs[i].timestamp, seconds, onBefore: logs[i - 1].isMotorOn === 1 });
+    }
   }
+  return gaps;
+};
+
+const downsample = (logs: MotorLog[], maxPoints: number): MotorLog[] =>
+  downsampleLogs(logs, maxPoints, downsampleBuckets(maxPoints), (log: MotorLog) => ({
+    ms: log.timestampObj,
+    current: log.motorCurrent,
+    avgCurrent: log.avgCurrent,
+    isOn: log.isMotorOn === 1
+  }));
 
-  if (day !== 'ALL') {
-    filtered = filtered.filter(d => d.dayOfWeek === day);
+export const getZones = async (): Promise<ZoneData[]> => {
+  const now = plantNowMs();
+
+  return PLANT.map(({ zone, lines }) => {
+    const motors = MOTORS.filter(m => m.zone === zone).map(motor => {
+      const last = latestLog(motor, Math.max(ZONE_STATUS.windowMinutes, ZONE_STATUS.staleMinutes) * MINUTE_MS);
+      return {
+        breaches: logsBetween(motor, now - ZONE_STATUS.windowMinutes * MINUTE_MS, now).filter(isBreach).length,
+        isStale: !last || last.timestampObj < now - ZONE_STATUS.staleMinutes * MINUTE_MS
+      };
+    });
+    return {
+      name: zone,
+      lineCount: lines.length,
+      motorCount: motors.length,
+      status: deriveZoneStatus(motors) as ZoneData['status'],
+      breachCount: motors.reduce((sum, m) => sum + m.breaches, 0),
+      staleMotorCount: motors.filter(m => m.isStale).length
+    };
+  });
+};
+
+export const getLines = async (zone: string): Promise<LineData[]> => {
+  const plantZone = PLANT.find(z => z.zone === zone);
+  return (plantZone?.lines ?? []).map(({ line, motors }) => ({ name: line, zone, motorCount: motors }));
+};
+
+export const getMotors = async (zone: string, line: string): Promise<string[]> => {
+  return lineMotors(zone, line).map(m => m.motorName).sort();
+};
+
+export const getAvailableWeeks = async (): Promise<string[]> => {
+  const weeks = new Set<string>();
+  for (let day = historyStart(); day <= plantNowMs(); day += DAY_MS) weeks.add(productionWeek(day));
+  return Array.from(weeks).sort();
+};
+
+export const generateMotorData = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[],
+  options: MotorDataOptions = {}
+): Promise<MotorSeries> => {
+  const logs = selectLogs(findMotor(zone, line, motorName), weeks, days, options);
+  if (!options.maxPoints) return { logs, downsampled: false };
+  return { logs: downsample(logs, options.maxPoints), downsampled: logs.length > options.maxPoints };
+};
+
+export const generateMotorComparison = async (
+  motors: MotorRef[],
+  weeks: string[],
+  days: number[],
+  options: MotorDataOptions = {}
+): Promise<MotorComparisonSeries[]> => {
+  return Promise.all(motors.map(async (motor) => ({
+    motor,
+    ...(await generateMotorData(motor.zone, motor.line, motor.motor, weeks, days, options))
+  })));
+};
+
+export const getMotorSummary = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<AnalyticsSummary> => {
+  const logs = selectLogs(findMotor(zone, line, motorName), weeks, days, options);
+  const { runningTime, cycles } = runStats(logs);
+  const running = logs.filter(l => l.isMotorOn === 1 && l.motorCurrent > 0);
+  const loads = running.filter(l => l.maxCurrentLimit > 0).map(l => l.motorCurrent * 100 / l.maxCurrentLimit);
+  const motor = findMotor(zone, line, motorName);
+  const ratedCurrent = (motor && registry().get(motor.id)?.ratedCurrent) ?? null;
+  const avgRunningCurrent = running.length > 0 ? running.reduce((sum, l) => sum + l.motorCurrent, 0) / running.length : null;
+
+  return {
+    totalRunningTime: runningTime,
+    peakCurrent: logs.reduce((max, l) => Math.max(max, l.motorCurrent), 0),
+    averageEfficiency: loads.length > 0 ? loads.reduce((a, b) => a + b, 0) / loads.length : 0,
+    cycles,
+    maxLimitBreaches: logs.filter(isBreach).length,
+    avgRunningCurrent,
+    ratedCurrent,
+    ratedLoadPercent: ratedCurrent && avgRunningCurrent !== null ? avgRunningCurrent * 100 / ratedCurrent : null
+  };
+};
+
+// Same detector as /api/motor-anomalies; the baseline is not seeded from the samples before `from`
+export const getMotorAnomalies = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<MotorAnomalyResult> => {
+  const detector = createAnomalyDetector(ANOMALY_DEFAULTS);
+  for (const log of selectLogs(findMotor(zone, line, motorName), weeks, days, options)) {
+    detector.push({ timestampMs: log.timestampObj, motorCurrent: log.motorCurrent, avgCurrent: log.avgCurrent, isOn: log.isMotorOn });
   }
+  const { anomalies, truncated } = detector.finish();
+  return { anomalies: anomalies as MotorAnomaly[], truncated };
+};
+
+export const getShifts = async (): Promise<ShiftDefinition[]> => {
+  return DEFAULT_SHIFTS;
+};
+
+// The synthetic logger has no BufferIndex / RecordedAt, so those checks are reported as unavailable
+export const getDataQuality = async (
+  zone: string,
+  line: string,
+  motorName: string | null,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<DataQualityReport> => {
+  return {
+    checks: { bufferIndex: false, recordedAt: false },
+    thresholds: { gapSeconds: GAP_SECONDS, lagSeconds: DATA_QUALITY_DEFAULTS.lagSeconds },
+    motors: lineMotors(zone, line, motorName).map(motor => {
+      const logs = selectLogs(motor, weeks, days, options);
+      const gaps = findGaps(logs);
+      return {
+        motorName: motor.motorName,
+        samples: logs.length,
+        gaps: gaps.length,
+        gapSeconds: gaps.reduce((sum, g) => sum + g.seconds, 0),
+        longestGapSeconds: gaps.reduce((max, g) => Math.max(max, g.seconds), 0),
+        avgLagSeconds: null,
+        maxLagSeconds: null,
+        lateRows: null,
+        duplicateTimestamps: 0,
+        duplicateBufferIndex: null,
+        outOfOrderBufferIndex: null,
+        bufferResets: null,
+        negativeCurrent: 0,
+        missingLimit: 0,
+        implausibleCurrent: logs.filter(l => l.motorCurrent > l.maxCurrentLimit * DATA_QUALITY_DEFAULTS.maxCurrentFactor).length,
+        zeroCurrentWhileOn: logs.filter(l => l.isMotorOn === 1 && l.motorCurrent === 0).length,
+        invalidRunningTime: 0
+      };
+    })
+  };
+};
 
-  return filtered;
+export const getDataGaps = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<DataGap[]> => {
+  return findGaps(selectLogs(findMotor(zone, line, motorName), weeks, days, options));
 };
 
-// Helper to get available weeks from data
-export const getAvailableWeeks = (): string[] => {
-  return Array.from(new Set(parsedData.map(d => d.productionWeek))).sort();
-};
\ No newline at end of file
+export const getPlantOverview = async (): Promise<PlantOverview> => {
+  const now = plantNowMs();
+  const alerts = buildAlerts().filter(a => a.resolvedAt === null);
+
+  const motors: OverviewMotor[] = MOTORS.map(motor => {
+    const last = latestLog(motor, DAY_MS);
+    const motorAlerts = alerts.filter(a => a.zone === motor.zone && a.line === motor.line && a.motorName === motor.motorName);
+    const ageSeconds = last ? Math.max(0, Math.round((now - last.timestampObj) / 1000)) : null;
+    return {
+      zone: motor.zone,
+      line: motor.line,
+      motorName: motor.motorName,
+      lastTimestamp: last?.timestamp ?? null,
+      ageSeconds,
+      isOn: last ? last.isMotorOn === 1 : null,
+      current: last?.motorCurrent ?? null,
+      currentLimit: last?.maxCurrentLimit ?? null,
+      isStale: ageSeconds === null || ageSeconds > ZONE_STATUS.staleMinutes * 60,
+      activeAlerts: motorAlerts.length,
+      alertSeverity: motorAlerts.length === 0 ? null : motorAlerts.some(a => a.severity === 'Critical') ? 'Critical' : 'Warning'
+    };
+  });
+
+  return { generatedAt: formatNaiveTimestamp(now), staleSeconds: ZONE_STATUS.staleMinutes * 60, alertsAvailable: true, motors };
+};
+
+const meanLoad = (logs: MotorLog[]) => {
+  const loads = logs.filter(l => l.isMotorOn === 1 && l.maxCurrentLimit > 0).map(l => l.motorCurrent * 100 / l.maxCurrentLimit);
+  return loads.length > 0 ? loads.reduce((a, b) => a + b, 0) / loads.length : null;
+};
+
+// The per-motor aggregates /api/motor-health reads from SQL, scored by the server's code
+export const getMotorHealth = async (zone: string, line: string, days: number): Promise<MotorHealth[]> => {
+  const now = plantNowMs();
+  const fromMs = now - days * DAY_MS;
+  const middleMs = fromMs + days * DAY_MS / 2;
+
+  const rows = lineMotors(zone, line).map(motor => {
+    const logs = logsBetween(motor, fromMs, now);
+    const first = logs[0];
+    const last = logs[logs.length - 1];
+    return {
+      motorName: motor.motorName,
+      samples: logs.length,
+      breaches: logs.filter(isBreach).length,
+      cycles: runStats(logs).cycles,
+      earlierLoad: meanLoad(logs.filter(l => l.timestampObj < middleMs)),
+      recentLoad: meanLoad(logs.filter(l => l.timestampObj >= middleMs)),
+      innerGapSeconds: findGaps(logs).reduce((sum, g) => sum + g.seconds, 0),
+      firstTimestamp: first ? new Date(first.timestampObj) : null,
+      lastTimestamp: last ? new Date(last.timestampObj) : null,
+      lastTimestampText: last?.timestamp ?? null
+    };
+  });
+
+  return scoreMotorHealth(rows, now, days, HEALTH_DEFAULTS) as MotorHealth[];
+};
+
+// Daily mean AvgCurrent while ON over the completed days of the window, fitted by the server's code
+export const getMotorTrend = async (zone: string, line: string, motorName: string): Promise<MotorTrendResponse> => {
+  const motor = findMotor(zone, line, motorName);
+  const today = Math.floor(plantNowMs() / DAY_MS) * DAY_MS;
+  const points: MotorTrendDay[] = [];
+  if (!motor) return { trend: null, points, windowDays: TREND.windowDays, horizonDays: TREND.horizonDays };
+
+  for (let day = today - TREND.windowDays * DAY_MS; day < today; day += DAY_MS) {
+    const running = logsBetween(motor, day, day + DAY_MS - 1).filter(l => l.isMotorOn === 1 && l.avgCurrent > 0);
+    points.push({
+      day: formatNaiveTimestamp(day).slice(0, 10),
+      avgCurrent: running.length > 0 ? round2(running.reduce((sum, l) => sum + l.avgCurrent, 0) / running.length) : null,
+      currentLimit: motor.limit,
+      runningSamples: running.length
+    });
+  }
+
+  const fit = fitCurrentTrend(points.map(p => ({ dayMs: Date.parse(`${p.day}T00:00:00Z`), avgCurrent: p.avgCurrent, limit: p.currentLimit })), TREND);
+  const trend: MotorTrendResponse['trend'] = fit && {
+    computedAt: formatNaiveTimestamp(today),
+    fittedDays: fit.fittedDays,
+    slopePerDay: fit.slopePerDay,
+    currentLevel: fit.currentLevel,
+    currentLimit: fit.limit,
+    r2: fit.r2,
+    daysUntilLimit: fit.daysUntilLimit,
+    isDrifting: fit.isDrifting
+  };
+
+  return { trend, points, windowDays: TREND.windowDays, horizonDays: TREND.horizonDays };
+};
+
+// Motor registry: nameplate data for most motors (a few are left unregistered), edits kept in memory
+const MANUFACTURERS = ['Siemens', 'ABB', 'WEG', 'SEW-Eurodrive', 'Nord'];
+const MOTOR_TYPES = ['IE3 4-pole', 'IE3 2-pole', 'IE4 4-pole', 'Geared motor'];
+
+let registryEntries: Map<number, MotorInfo> | null = null;
+const registry = () => {
+  if (!registryEntries) {
+    registryEntries = new Map();
+    for (const motor of MOTORS) {
+      const setup = (n: number) => random(motor.id * 100 + SALT.setup, n);
+      if (setup(8) < 0.2) continue;
+      const ratedCurrent = round2(motor.limit / 1.15);
+      registryEntries.set(motor.id, {
+        motorId: motor.id,
+        ratedCurrent,
+        ratedPowerKw: round2(ratedCurrent * 0.55),
+        motorType: MOTOR_TYPES[Math.floor(setup(9) * MOTOR_TYPES.length)],
+        manufacturer: MANUFACTURERS[Math.floor(setup(10) * MANUFACTURERS.length)],
+        location: `${motor.zone} / ${motor.line}`,
+        installDate: formatNaiveTimestamp(Date.UTC(2015, 0, 1) + Math.floor(setup(11) * 3000) * DAY_MS).slice(0, 10),
+        assetTag: `MTR-${String(motor.id).padStart(4, '0')}`,
+        description: null,
+        updatedAt: null
+      });
+    }
+  }
+  return registryEntries;
+};
+
+export const getMotorInfo = async (zone: string, line: string, motorName: string): Promise<MotorInfoLookup> => {
+  const motor = findMotor(zone, line, motorName);
+  return { registryAvailable: true, motorId: motor?.id ?? null, info: (motor && registry().get(motor.id)) ?? null };
+};
+
+export const saveMotorInfo = async (motorId: number, info: MotorInfoInput): Promise<MotorInfo> => {
+  const entry = { ...info, motorId, updatedAt: formatNaiveTimestamp(plantNowMs()) };
+  registry().set(motorId, entry);
+  return entry;
+};
+
+export const deleteMotorInfo = async (motorId: number): Promise<void> => {
+  if (!registry().delete(motorId)) {
+    throw new DataServiceError('API request failed: 404 Not Found', 404, `/api/motor-registry/${motorId}`);
+  }
+};
+
+export const getConfig = async (): Promise<PlantConfig> => {
+  return { plantTimezone: getPlantTimeZone(), liveMaxWindowMinutes: 240 };
+};
+
+export const getShiftSummary = async (
+  zone: string,
+  line: string,
+  motorName: string | null,
+  weeks: string[],
+  days: number[],
+  options: Pick<MotorDataOptions, 'from' | 'to' | 'shifts'> = {}
+): Promise<ShiftSummaryRow[]> => {
+  return lineMotors(zone, line, motorName).flatMap(motor => {
+    const logs = selectLogs(motor, weeks, days, options);
+    const rows = new Map<string | null, ShiftSummaryRow>();
+
+    logs.forEach((log, i) => {
+      const shift = shiftOf(log.timestampObj);
+      let row = rows.get(shift);
+      if (!row) {
+        row = { motorName: motor.motorName, shift, samples: 0, runningTime: 0, cycles: 0, maxLimitBreaches: 0 };
+        rows.set(shift, row);
+      }
+      row.samples++;
+      if (log.isMotorOn === 1 && i + 1 < logs.length) row.runningTime += (logs[i + 1].timestampObj - log.timestampObj) / 1000;
+      if (i > 0 && log.isMotorOn === 1 && logs[i - 1].isMotorOn === 0) row.cycles++;
+      if (isBreach(log)) row.maxLimitBreaches++;
+    });
+
+    return Array.from(rows.values()).sort((a, b) => (a.shift ?? '~').localeCompare(b.shift ?? '~'));
+  });
+};
+
+// Alerts are the limit breaches of the last day (breaches closer than 5 minutes form one alert);
+// operator actions are kept in memory for the session
+interface AlertActions {
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  comments: AlertComment[];
+}
+
+const alertIds = new Map<string, number>();
+const alertActions = new Map<number, AlertActions>();
+let nextCommentId = 1;
+
+const buildAlerts = (): MotorAlert[] => {
+  const now = plantNowMs();
+  const alerts: MotorAlert[] = [];
+
+  MOTORS.forEach(motor => {
+    const breaches = logsBetween(motor, now - ALERT_LOOKBACK_MS, now).filter(isBreach);
+    const events: MotorLog[][] = [];
+    breaches.forEach(log => {
+      const current = events[events.length - 1];
+      if (current && log.timestampObj - current[current.length - 1].timestampObj <= 5 * MINUTE_MS) current.push(log);
+      else events.push([log]);
+    });
+
+    events.forEach(event => {
+      const key = `${motor.id}|${event[0].timestampObj}`;
+      if (!alertIds.has(key)) alertIds.set(key, alertIds.size + 1);
+      const id = alertIds.get(key)!;
+      const actions = alertActions.get(id);
+      const peak = Math.max(...event.map(l => Math.max(l.motorCurrent, l.avgCurrent)));
+      const endMs = event[event.length - 1].timestampObj + SAMPLE_MS;
+
+      alerts.push({
+        id,
+        ruleId: 1,
+        ruleName: 'Max current limit',
+        zone: motor.zone,
+        line: motor.line,
+        motorName: motor.motorName,
+        severity: peak >= motor.limit * 1.2 ? 'Critical' : 'Warning',
+        message: `Current ${peak.toFixed(2)} A above the ${motor.limit} A limit`,
+        startedAt: event[0].timestamp,
+        endedAt: endMs <= now ? formatNaiveTimestamp(endMs) : null,
+        peakValue: round2(peak),
+        acknowledgedAt: actions?.acknowledgedAt ?? null,
+        acknowledgedBy: actions?.acknowledgedBy ?? null,
+        resolvedAt: actions?.resolvedAt ?? null,
+        resolvedBy: actions?.resolvedBy ?? null,
+        commentCount: actions?.comments.length ?? 0
+      });
+    });
+  });
+
+  return alerts.sort((a, b) => b.startedAt.localeCompare(a.startedAt) || b.id - a.id);
+};
+
+const updateAlert = (id: number, path: string, update: (actions: AlertActions, now: string) => void): MotorAlert => {
+  if (!buildAlerts().some(a => a.id === id)) throw new DataServiceError('API request failed: 404 Not Found', 404, path);
+  const actions = alertActions.get(id) ?? { acknowledgedAt: null, acknowledgedBy: null, resolvedAt: null, resolvedBy: null, comments: [] };
+  update(actions, formatNaiveTimestamp(plantNowMs()));
+  alertActions.set(id, actions);
+  return buildAlerts().find(a => a.id === id)!;
+};
+
+export const getAlerts = async (query: AlertQuery = {}): Promise<MotorAlert[]> => {
+  const status = query.status ?? 'active';
+  return buildAlerts()
+    .filter(a => status === 'all' || (status === 'active') === (a.resolvedAt === null))
+    .filter(a => (!query.zone || a.zone === query.zone) && (!query.line || a.line === query.line) && (!query.motor || a.motorName === query.motor))
+    .slice(0, Math.min(Math.max(query.limit || 200, 1), 1000));
+};
+
+export const getAlertCounts = async (): Promise<AlertCounts> => {
+  const active = buildAlerts().filter(a => a.resolvedAt === null);
+  return {
+    active: active.length,
+    unacknowledged: active.filter(a => a.acknowledgedAt === null).length,
+    critical: active.filter(a => a.severity === 'Critical').length
+  };
+};
+
+export const acknowledgeAlert = async (id: number, user: string): Promise<MotorAlert> => {
+  return updateAlert(id, `/api/alerts/${id}/acknowledge`, (actions, now) => {
+    actions.acknowledgedAt ??= now;
+    actions.acknowledgedBy ??= user;
+  });
+};
+
+export const resolveAlert = async (id: number, user: string, comment?: string): Promise<MotorAlert> => {
+  return updateAlert(id, `/api/alerts/${id}/resolve`, (actions, now) => {
+    actions.acknowledgedAt ??= now;
+    actions.acknowledgedBy ??= user;
+    actions.resolvedAt ??= now;
+    actions.resolvedBy ??= user;
+    if (comment) actions.comments.push({ id: nextCommentId++, alertId: id, author: user, body: comment, createdAt: now });
+  });
+};
+
+export const getAlertComments = async (id: number): Promise<AlertComment[]> => {
+  return alertActions.get(id)?.comments ?? [];
+};
+
+export const addAlertComment = async (id: number, author: string, body: string): Promise<AlertComment> => {
+  const alert = updateAlert(id, `/api/alerts/${id}/comments`, (actions, now) => {
+    actions.comments.push({ id: nextCommentId++, alertId: id, author, body, createdAt: now });
+  });
+  const comments = alertActions.get(alert.id)!.comments;
+  return comments[comments.length - 1];
+};
+
+export const getLatestMotorData = async (
+  zone: string,
+  line: string,
+  motorName: string,
+  minutes: number = 10
+): Promise<MotorLog[]> => {
+  const motor = findMotor(zone, line, motorName);
+  const now = plantNowMs();
+  return motor ? logsBetween(motor, now - minutes * MINUTE_MS, now) : [];
+};
+
+// Samples that "arrived" since the last check are delivered every pollIntervalMs, reported as a stream
+export const subscribeToMotorLogs = (
+  zone: string,
+  line: string,
+  motorName: string,
+  afterId: number | null,
+  handlers: MotorLogSubscriptionHandlers,
+  pollMinutes: number = 10,
+  pollIntervalMs: number = SAMPLE_MS
+): (() => void) => {
+  const motor = findMotor(zone, line, motorName);
+  if (!motor) return () => {};
+
+  const recent = () => logsBetween(motor, plantNowMs() - pollMinutes * MINUTE_MS, plantNowMs());
+  let lastId = afterId ?? recent().at(-1)?.id ?? -Infinity;
+  handlers.onTransportChange?.('stream');
+
+  const timer = setInterval(() => {
+    const logs = recent().filter(log => log.id > lastId);
+    if (logs.length === 0) return;
+    lastId = logs[logs.length - 1].id;
+    handlers.onLogs(logs);
+  }, pollIntervalMs);
+
+  return () => clearInterval(timer);
+};
+
+export const checkApiHealth = async (): Promise<{ status: 'ok' | 'error'; message?: string }> => {
+  return { status: 'ok' };
+};
@@ -0,0 +1,57 @@
+import { MotorLog, MotorComparisonSeries, MotorRef, OverlayAlignment, OverlaySeries } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Relative overlays are drawn on this Monday (naive UTC) so the time axis can show weekday + time
+export const OVERLAY_ANCHOR_MS = Date.UTC(2024, 0, 1);
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const weekdayName = (timestampMs: number) => WEEKDAY_NAMES[(new Date(timestampMs).getUTCDay() + 6) % 7];
+
+export const motorLabel = (motor: MotorRef, showLine: boolean) =>
+  showLine ? `${motor.motor} (${motor.line})` : motor.motor;
+
+// Compare mode: one line per motor; the line is named only when motors come from several lines
+export const buildMotorOverlay = (series: MotorComparisonSeries[]): OverlaySeries[] => {
+  const showLine = new Set(series.map(s => `${s.motor.zone}|${s.motor.line}`)).size > 1;
+  return series.map(s => ({
+    key: `${s.motor.zone}|${s.motor.line}|${s.motor.motor}`,
+    name: motorLabel(s.motor, showLine),
+    logs: s.logs
+  }));
+};
+
+const startOfDay = (timestampMs: number) => Math.floor(timestampMs / DAY_MS) * DAY_MS;
+
+// Monday 00:00 of the timestamp's week
+const startOfWeek = (timestampMs: number) => {
+  const day = startOfDay(timestampMs);
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+// Week overlay groups by ProductionWeek, day overlay by calendar date; every group is
+// shifted onto the anchor week/day so the same time of week/day lines up
+export const buildPeriodOverlay = (logs: MotorLog[], alignment: OverlayAlignment): OverlaySeries[] => {
+  const groups = new Map<string, OverlaySeries & { start: number }>();
+
+  for (const log of logs) {
+    const periodStart = alignment === 'week' ? startOfWeek(log.timestampObj) : startOfDay(log.timestampObj);
+    const key = alignment === 'week' ? (log.productionWeek || String(periodStart)) : String(periodStart);
+
+    let group = groups.get(key);
+    if (!group) {
+      const date = new Date(periodStart).toISOString().slice(0, 10);
+      const name = alignment === 'week'
+        ? (log.productionWeek ? `Week ${log.productionWeek}` : `Week of ${date}`)
+        : `${date} (${weekdayName(periodStart)})`;
+      group = { key, name, logs: [], start: periodStart };
+      groups.set(key, group);
+    }
+    group.logs.push({ ...log, timestampObj: OVERLAY_ANCHOR_MS + (log.timestampObj - periodStart) });
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.start - b.start)
+    .map(({ key, name, logs: groupLogs }) => ({ key, name, logs: groupLogs }));
+};
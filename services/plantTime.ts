@@ -0,0 +1,58 @@
+// Plant timezone (IANA name from GET /api/config). Log timestamps are naive plant wall-clock
+// values handled as UTC ms (see parseNaiveTimestamp), so "now" has to be the plant's wall
+// clock in the same form - not the browser's, which differs for remote engineers.
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+let plantTimeZone = browserTimeZone();
+let formatter: Intl.DateTimeFormat | null = null;
+
+const getFormatter = () => {
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: plantTimeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return formatter;
+};
+
+// Returns false (and keeps the current zone) for names the browser does not know
+export const setPlantTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    return false;
+  }
+  plantTimeZone = timeZone;
+  formatter = null;
+  return true;
+};
+
+export const getPlantTimeZone = () => plantTimeZone;
+
+// Instant -> plant wall clock as naive UTC ms (DST handled by Intl)
+export const toPlantNaiveMs = (instantMs: number): number => {
+  const parts: Record<string, string> = {};
+  getFormatter().formatToParts(new Date(instantMs)).forEach(p => {
+    parts[p.type] = p.value;
+  });
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second),
+    ((instantMs % 1000) + 1000) % 1000
+  );
+};
+
+// Current plant time on the naive scale of MotorLog.timestampObj
+export const plantNowMs = () => toPlantNaiveMs(Date.now());
@@ -0,0 +1,122 @@
+import { TimeRange, UrlState, ViewState } from '../types';
+import { formatNaiveTimestamp, parseNaiveTimestamp } from './dataService';
+
+// ?view=motor&zone=Z1&line=L2&motor=Motor%2011&weeks=26W05&days=2&shifts=C&zoom=2026-01-27T08:00:00~2026-01-27T09:30:00
+// (range=from~to replaces weeks/days, alert=from~[to] is a window opened from the alert inbox;
+// AUTO mode: mode=auto&window=30)
+const VIEW_PARAMS: Record<ViewState, string> = {
+  ZONES: 'zones',
+  LINES: 'lines',
+  MOTOR_DETAIL: 'motor',
+  ALERTS: 'alerts',
+  OVERVIEW: 'overview'
+};
+
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?$/;
+
+export const EMPTY_URL_STATE: UrlState = {
+  view: 'ZONES',
+  zone: null,
+  line: null,
+  motor: null,
+  mode: 'MANUAL',
+  liveWindowMinutes: null,
+  weeks: [],
+  days: [],
+  shifts: [],
+  zoom: null,
+  range: null,
+  alertWindow: null
+};
+
+// Naive UTC ms -> "yyyy-MM-ddTHH:mm:ss" (milliseconds only when non-zero)
+const formatUrlTimestamp = (ms: number) => formatNaiveTimestamp(ms).replace(' ', 'T').replace(/\.000$/, '');
+
+const parseUrlTimestamp = (value: string | undefined): number | null =>
+  value && TIMESTAMP_RE.test(value) ? parseNaiveTimestamp(value) : null;
+
+const parseList = (value: string | null) => (value ? value.split(',').map(v => v.trim()).filter(Boolean) : []);
+
+// "from~to" -> range, null when either side is missing or the order is wrong
+const parseRange = (value: string | null): TimeRange | null => {
+  const [startValue, endValue] = (value ?? '').split('~');
+  const start = parseUrlTimestamp(startValue);
+  const end = parseUrlTimestamp(endValue);
+  return start !== null && end !== null && start < end ? { start, end } : null;
+};
+
+const formatRange = (range: TimeRange) => `${formatUrlTimestamp(range.start)}~${formatUrlTimestamp(range.end)}`;
+
+// Invalid or incomplete parameters fall back to the nearest valid level (motor -> line -> zone -> zones)
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const view = (Object.keys(VIEW_PARAMS) as ViewState[]).find(v => VIEW_PARAMS[v] === params.get('view')) ?? 'ZONES';
+  if (view === 'ZONES' || view === 'ALERTS' || view === 'OVERVIEW') return { ...EMPTY_URL_STATE, view };
+
+  const zone = params.get('zone');
+  const line = params.get('line');
+  const motor = params.get('motor');
+  if (!zone) return EMPTY_URL_STATE;
+  if (view === 'LINES' || !line) return { ...EMPTY_URL_STATE, view: 'LINES', zone };
+
+  const days = parseList(params.get('days'))
+    .map(Number)
+    .filter(d => Number.isInteger(d) && d >= 1 && d <= 7);
+
+  const [alertStart, alertEnd] = (params.get('alert') ?? '').split('~');
+  const alertFrom = parseUrlTimestamp(alertStart);
+
+  return {
+    view: 'MOTOR_DETAIL',
+    zone,
+    line,
+    motor,
+    mode: params.get('mode') === 'auto' ? 'AUTO' : 'MANUAL',
+    liveWindowMinutes: /^\d+$/.test(params.get('window') ?? '') ? Number(params.get('window')) : null,
+    weeks: parseList(params.get('weeks')),
+    days: [...new Set(days)],
+    shifts: parseList(params.get('shifts')),
+    zoom: parseRange(params.get('zoom')),
+    range: parseRange(params.get('range')),
+    alertWindow: alertFrom !== null ? { start: alertFrom, end: parseUrlTimestamp(alertEnd) } : null
+  };
+};
+
+export const buildUrlSearch = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.view !== 'ZONES') params.set('view', VIEW_PARAMS[state.view]);
+
+  if ((state.view === 'LINES' || state.view === 'MOTOR_DETAIL') && state.zone) params.set('zone', state.zone);
+
+  if (state.view === 'MOTOR_DETAIL' && state.line) {
+    params.set('line', state.line);
+    if (state.motor) params.set('motor', state.motor);
+
+    if (state.mode === 'AUTO') {
+      params.set('mode', 'auto');
+      if (state.liveWindowMinutes !== null) params.set('window', String(state.liveWindowMinutes));
+    } else if (state.alertWindow) {
+      const end = state.alertWindow.end !== null ? formatUrlTimestamp(state.alertWindow.end) : '';
+      params.set('alert', `${formatUrlTimestamp(state.alertWindow.start)}~${end}`);
+    } else if (state.range) {
+      params.set('range', formatRange(state.range));
+    } else {
+      if (state.weeks.length > 0) params.set('weeks', state.weeks.join(','));
+      if (state.days.length > 0) params.set('days', [...state.days].sort().join(','));
+    }
+    if (state.mode === 'MANUAL' && !state.alertWindow && state.shifts.length > 0) params.set('shifts', state.shifts.join(','));
+
+    if (state.mode === 'MANUAL' && state.zoom) {
+      params.set('zoom', formatRange(state.zoom));
+    }
+  }
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// Views and selections that get their own history entry; filter and zoom changes replace the current one
+export const urlHistoryKey = (state: UrlState) =>
+  state.view === 'MOTOR_DETAIL' ? [state.view, state.zone, state.line, state.motor].join('|')
+    : state.view === 'LINES' ? [state.view, state.zone].join('|')
+      : state.view;
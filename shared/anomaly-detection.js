@@ -0,0 +1,146 @@
+// Statistical anomalies in MotorCurrent against a rolling per-motor baseline.
+// Fed one row at a time in timestamp order (the endpoint streams them from SQL).
+//   spike             - short excursion far above the baseline (mean + k*sigma and +X%)
+//   plateau           - excursion above the baseline lasting longer than plateauSeconds
+//   current_while_off - current flowing while IsMotorOn = 0
+//   zero_while_on     - no current while IsMotorOn = 1
+// Rows with MotorCurrent = 0 and AvgCurrent > 0 are average-only reports and are skipped.
+// Used by /api/motor-anomalies (thresholds from env, server/anomaly-detection.js) and the mock data source.
+
+export const ANOMALY_DEFAULTS = {
+  baselineSamples: 300, // Rolling window of ON samples
+  spikeSigma: 4,
+  spikeRatio: 0.2, // A spike must also be 20% above the baseline mean (flat signals have sigma ~ 0)
+  plateauRatio: 0.15, // Excursion starts 15% above the mean
+  plateauSeconds: 60,
+  offCurrent: 0.5, // Above this with the motor OFF
+  zeroCurrent: 0.05, // At or below this with the motor ON
+  stateSeconds: 2, // Min duration of the two ON/OFF mismatches
+  maxEvents: 2000
+};
+
+const pad = (n, len = 2) => String(n).padStart(len, '0');
+const formatTimestamp = (ms) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}.${pad(d.getUTCMilliseconds(), 3)}`;
+};
+
+const round = (value) => Number(value.toFixed(2));
+
+export const createAnomalyDetector = (config = ANOMALY_DEFAULTS) => {
+  // Baseline is only trusted once a third of the window is filled
+  const minBaselineSamples = Math.max(10, Math.floor(config.baselineSamples / 3));
+  const recent = [];
+  let sum = 0;
+  let sumSq = 0;
+  let excursion = null; // { start, end, peak, samples, mean, sigma }
+  let mismatch = null; // { type, start, end, peak, samples }
+  const anomalies = [];
+  let truncated = false;
+
+  const emit = (anomaly) => {
+    if (anomalies.length >= config.maxEvents) {
+      truncated = true;
+      return;
+    }
+    anomalies.push({
+      ...anomaly,
+      start: formatTimestamp(anomaly.start),
+      end: formatTimestamp(anomaly.end),
+      peak: round(anomaly.peak),
+      baseline: anomaly.baseline == null ? null : round(anomaly.baseline)
+    });
+  };
+
+  const addToBaseline = (value) => {
+    recent.push(value);
+    sum += value;
+    sumSq += value * value;
+    if (recent.length > config.baselineSamples) {
+      const old = recent.shift();
+      sum -= old;
+      sumSq -= old * old;
+    }
+  };
+
+  const baseline = () => {
+    if (recent.length < minBaselineSamples) return null;
+    const mean = sum / recent.length;
+    return { mean, sigma: Math.sqrt(Math.max(0, sumSq / recent.length - mean * mean)) };
+  };
+
+  const closeExcursion = () => {
+    if (!excursion) return;
+    const { start, end, peak, samples, mean, sigma } = excursion;
+    excursion = null;
+    if ((end - start) / 1000 >= config.plateauSeconds) {
+      emit({ type: 'plateau', start, end, peak, baseline: mean, samples });
+    } else if (peak > mean + config.spikeSigma * sigma && peak > mean * (1 + config.spikeRatio)) {
+      emit({ type: 'spike', start, end, peak, baseline: mean, samples });
+    }
+  };
+
+  const closeMismatch = () => {
+    if (!mismatch) return;
+    const current = mismatch;
+    mismatch = null;
+    if ((current.end - current.start) / 1000 >= config.stateSeconds) emit({ ...current, baseline: null });
+  };
+
+  const trackMismatch = (type, ts, value) => {
+    if (mismatch && mismatch.type !== type) closeMismatch();
+    if (!mismatch) mismatch = { type, start: ts, end: ts, peak: value, samples: 0 };
+    mismatch.end = ts;
+    mismatch.peak = Math.max(mismatch.peak, value);
+    mismatch.samples++;
+  };
+
+  return {
+    // Samples before the analysed range: fill the baseline without detecting
+    seed(row) {
+      if (row.isOn === 1 && row.motorCurrent > config.zeroCurrent) {
+        addToBaseline(row.motorCurrent);
+      }
+    },
+
+    // row: { timestampMs, motorCurrent, avgCurrent, isOn }
+    push(row) {
+      const { timestampMs: ts, motorCurrent: value, avgCurrent, isOn } = row;
+      if (avgCurrent > 0 && value === 0) return;
+
+      if (isOn !== 1) {
+        closeExcursion();
+        if (value > config.offCurrent) trackMismatch('current_while_off', ts, value);
+        else closeMismatch();
+        return;
+      }
+
+      if (value <= config.zeroCurrent) {
+        closeExcursion();
+        trackMismatch('zero_while_on', ts, value);
+        return;
+      }
+      closeMismatch();
+
+      // Excursion keeps the baseline it started with and stays out of the rolling window
+      const stats = excursion ?? baseline();
+      if (stats && value > stats.mean * (1 + config.plateauRatio)) {
+        if (!excursion) excursion = { start: ts, end: ts, peak: value, samples: 0, mean: stats.mean, sigma: stats.sigma };
+        excursion.end = ts;
+        excursion.peak = Math.max(excursion.peak, value);
+        excursion.samples++;
+        return;
+      }
+
+      closeExcursion();
+      addToBaseline(value);
+    },
+
+    finish() {
+      closeExcursion();
+      closeMismatch();
+      return { anomalies, truncated };
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createAnomalyDetector, ANOMALY_DEFAULTS } from './anomaly-detection.js';
+
+const START_MS = Date.UTC(2026, 9, 19, 8, 0, 0);
+
+// One sample per second; current(i) -> MotorCurrent, isOn(i) -> IsMotorOn
+const run = (count, current, isOn = () => 1, config = ANOMALY_DEFAULTS) => {
+  const detector = createAnomalyDetector(config);
+  for (let i = 0; i < count; i++) {
+    detector.push({ timestampMs: START_MS + i * 1000, motorCurrent: current(i), avgCurrent: 0, isOn: isOn(i) });
+  }
+  return detector.finish();
+};
+
+test('no rows, no anomalies', () => {
+  assert.deepEqual(createAnomalyDetector().finish(), { anomalies: [], truncated: false });
+});
+
+test('flat signal has no anomalies', () => {
+  assert.deepEqual(run(500, () => 5).anomalies, []);
+});
+
+test('short excursion is a spike, a long one a plateau', () => {
+  const [spike] = run(200, (i) => (i === 150 ? 9 : 5)).anomalies;
+  assert.equal(spike.type, 'spike');
+  assert.equal(spike.start, '2026-10-19 08:02:30.000');
+  assert.equal(spike.peak, 9);
+  assert.equal(spike.baseline, 5);
+
+  const [plateau] = run(400, (i) => (i >= 150 && i < 300 ? 7 : 5)).anomalies;
+  assert.equal(plateau.type, 'plateau');
+  assert.equal(plateau.samples, 150);
+});
+
+test('no detection before the baseline is filled', () => {
+  assert.deepEqual(run(50, (i) => (i === 40 ? 9 : 5)).anomalies, []);
+});
+
+test('ON/OFF mismatches need stateSeconds to count', () => {
+  const { anomalies } = run(200, (i) => (i >= 120 && i < 130 ? 0 : i >= 150 && i < 160 ? 3 : 5), (i) => (i >= 150 && i < 160 ? 0 : 1));
+  assert.deepEqual(anomalies.map(a => [a.type, a.samples]), [['zero_while_on', 10], ['current_while_off', 10]]);
+  assert.deepEqual(run(200, (i) => (i === 120 ? 0 : 5)).anomalies, []);
+});
+
+test('average-only rows are skipped and maxEvents truncates', () => {
+  const detector = createAnomalyDetector();
+  detector.push({ timestampMs: START_MS, motorCurrent: 0, avgCurrent: 5, isOn: 1 });
+  detector.push({ timestampMs: START_MS + 5000, motorCurrent: 0, avgCurrent: 5, isOn: 1 });
+  assert.deepEqual(detector.finish().anomalies, []);
+
+  const { anomalies, truncated } = run(100, (i) => (i % 10 < 5 ? 0 : 5), () => 1, { ...ANOMALY_DEFAULTS, maxEvents: 3 });
+  assert.equal(anomalies.length, 3);
+  assert.equal(truncated, true);
+});
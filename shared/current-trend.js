@@ -0,0 +1,58 @@
+// Linear trend of the daily average running current and the projected days until it reaches
+// MaxCurrentLimit. Pure functions - the job around it lives in server/trend-engine.js,
+// the mock data source fits its synthetic history with the same code.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TREND_DEFAULTS = {
+  windowDays: 28,
+  minDays: 7, // Fewer days with running samples -> no fit
+  minR2: 0.5, // Noisier fits are shown but never flagged
+  horizonDays: 90 // Flag when the limit is projected within this
+};
+
+// points: [{ dayMs, avgCurrent, limit }] sorted by day (naive UTC ms of the plant-local date)
+export const fitCurrentTrend = (points, config = TREND_DEFAULTS) => {
+  const usable = points.filter(p => p.avgCurrent != null);
+  if (usable.length < config.minDays) return null;
+
+  const firstDay = usable[0].dayMs;
+  const xs = usable.map(p => (p.dayMs - firstDay) / DAY_MS);
+  const ys = usable.map(p => p.avgCurrent);
+  const n = usable.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+
+  const slopePerDay = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slopePerDay * meanX;
+  const r2 = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+  // Fitted value on the last day, not the raw last point, so one odd day does not move the projection
+  const currentLevel = intercept + slopePerDay * xs[n - 1];
+
+  // Latest known limit (it can be re-parameterised over the window)
+  const limit = [...usable].reverse().find(p => p.limit > 0)?.limit ?? null;
+
+  let daysUntilLimit = null;
+  if (limit !== null && slopePerDay > 0) {
+    daysUntilLimit = currentLevel >= limit ? 0 : (limit - currentLevel) / slopePerDay;
+  }
+
+  return {
+    fittedDays: n,
+    slopePerDay,
+    currentLevel,
+    limit,
+    r2,
+    daysUntilLimit,
+    isDrifting: daysUntilLimit !== null && r2 >= config.minR2 && daysUntilLimit <= config.horizonDays
+  };
+};
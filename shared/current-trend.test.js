@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitCurrentTrend, TREND_DEFAULTS } from './current-trend.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const days = (values, limit = 10) =>
+  values.map((avgCurrent, i) => ({ dayMs: Date.UTC(2026, 9, 1) + i * DAY_MS, avgCurrent, limit }));
+
+test('no fit with fewer usable days than minDays', () => {
+  assert.equal(fitCurrentTrend([]), null);
+  assert.equal(fitCurrentTrend(days([5, 5, 5, 5, 5, 5, null, null])), null);
+});
+
+test('flat series: zero slope, no projection', () => {
+  const fit = fitCurrentTrend(days([5, 5, 5, 5, 5, 5, 5]));
+  assert.equal(fit.slopePerDay, 0);
+  assert.equal(fit.r2, 0);
+  assert.equal(fit.currentLevel, 5);
+  assert.equal(fit.daysUntilLimit, null);
+  assert.equal(fit.isDrifting, false);
+});
+
+test('all points on one day (sxx = 0) does not divide by zero', () => {
+  const sameDay = days([4, 5, 6, 4, 5, 6, 5]).map(p => ({ ...p, dayMs: Date.UTC(2026, 9, 1) }));
+  const fit = fitCurrentTrend(sameDay);
+  assert.equal(fit.slopePerDay, 0);
+  assert.equal(fit.r2, 0);
+  assert.equal(fit.currentLevel, 5);
+  assert.equal(fit.daysUntilLimit, null);
+});
+
+test('rising series projects the limit and flags within the horizon', () => {
+  const fit = fitCurrentTrend(days([5, 5.1, 5.2, 5.3, 5.4, 5.5, 5.6]));
+  assert.ok(Math.abs(fit.slopePerDay - 0.1) < 1e-9);
+  assert.ok(Math.abs(fit.r2 - 1) < 1e-9);
+  assert.ok(Math.abs(fit.daysUntilLimit - 44) < 1e-6);
+  assert.equal(fit.isDrifting, true);
+  assert.equal(fitCurrentTrend(days([5, 5.1, 5.2, 5.3, 5.4, 5.5, 5.6]), { ...TREND_DEFAULTS, horizonDays: 30 }).isDrifting, false);
+});
+
+test('already over the limit projects zero days; no limit projects nothing', () => {
+  assert.equal(fitCurrentTrend(days([9, 10, 11, 12, 13, 14, 15])).daysUntilLimit, 0);
+  assert.equal(fitCurrentTrend(days([5, 6, 7, 8, 9, 10, 11], 0)).daysUntilLimit, null);
+});
@@ -0,0 +1,154 @@
+// ON/OFF cycle statistics (starts, ON/OFF durations, duty cycle per hour/shift/day) and shift windows.
+// Used by /api/motor-cycles and, through services/cycleStats.ts, by the cycle panel and the range presets.
+// Timestamps are naive UTC ms (the DB's plant-local value read as UTC).
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_SHIFTS = [
+  { name: 'A', start: '06:00', end: '14:00' },
+  { name: 'B', start: '14:00', end: '22:00' },
+  { name: 'C', start: '22:00', end: '06:00' }
+];
+
+const pad = (n) => String(n).padStart(2, '0');
+
+const formatDay = (ms) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+const toMinutes = (hhmm) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+// Consecutive samples with the same state form one segment; a segment ends where the next one starts
+const buildSegments = (points) => {
+  const segments = [];
+  let state = null;
+  let segmentStart = 0;
+
+  for (const point of points) {
+    if (state === null) {
+      state = point.value;
+      segmentStart = point.timestampMs;
+    } else if (point.value !== state) {
+      segments.push({ start: segmentStart, end: point.timestampMs, on: state === 1 });
+      state = point.value;
+      segmentStart = point.timestampMs;
+    }
+  }
+
+  const last = points[points.length - 1];
+  if (state !== null && last.timestampMs > segmentStart) {
+    segments.push({ start: segmentStart, end: last.timestampMs, on: state === 1 });
+  }
+  return segments;
+};
+
+const durationStats = (seconds) => {
+  if (seconds.length === 0) return null;
+  const sorted = [...seconds].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((sum, s) => sum + s, 0) / sorted.length,
+    median: sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid],
+    max: sorted[sorted.length - 1]
+  };
+};
+
+const shiftWindow = (ts, shifts) => {
+  const minuteOfDay = (ts - Math.floor(ts / DAY_MS) * DAY_MS) / 60000;
+
+  for (const shift of shifts) {
+    const start = toMinutes(shift.start);
+    const length = ((toMinutes(shift.end) - start + MINUTES_PER_DAY) % MINUTES_PER_DAY) || MINUTES_PER_DAY;
+    // Minutes since this shift last started (on this day or the previous one for night shifts)
+    const offset = ((minuteOfDay - start) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    if (offset < length) {
+      const shiftStart = ts - offset * 60000;
+      return { key: `${shiftStart}|${shift.name}`, label: `${formatDay(shiftStart)} ${shift.name}`, start: shiftStart, end: shiftStart + length * 60000 };
+    }
+  }
+
+  // Not covered by any shift - runs until the next shift starts
+  const untilNext = Math.min(...shifts.map(s => ((toMinutes(s.start) - minuteOfDay) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY));
+  return { key: 'off-shift', label: 'Off shift', start: ts, end: ts + untilNext * 60000 };
+};
+
+// Most recent shift that has already ended at ts (range presets)
+export const lastCompletedShift = (ts, shifts = DEFAULT_SHIFTS) => {
+  const dayStart = Math.floor(ts / DAY_MS) * DAY_MS;
+  let best = null;
+
+  for (const shift of shifts) {
+    const start = toMinutes(shift.start);
+    const length = ((toMinutes(shift.end) - start + MINUTES_PER_DAY) % MINUTES_PER_DAY) || MINUTES_PER_DAY;
+    for (let dayOffset = -2; dayOffset <= 0; dayOffset++) {
+      const shiftStart = dayStart + dayOffset * DAY_MS + start * 60000;
+      const shiftEnd = shiftStart + length * 60000;
+      if (shiftEnd <= ts && (!best || shiftEnd > best.end)) best = { name: shift.name, start: shiftStart, end: shiftEnd };
+    }
+  }
+  return best;
+};
+
+const bucketWindow = (ts, grouping, shifts) => {
+  if (grouping === 'shift' && shifts.length > 0) return shiftWindow(ts, shifts);
+
+  const size = grouping === 'hour' ? HOUR_MS : DAY_MS;
+  const start = Math.floor(ts / size) * size;
+  const label = grouping === 'hour' ? `${formatDay(start)} ${pad(new Date(start).getUTCHours())}:00` : formatDay(start);
+  return { key: String(start), label, start, end: start + size };
+};
+
+// points: [{ timestampMs, value (1 = ON, 0 = OFF) }] ordered by time
+export const computeCycleStats = (points, grouping = 'hour', shifts = DEFAULT_SHIFTS) => {
+  const segments = points.length > 0 ? buildSegments(points) : [];
+  const buckets = new Map();
+
+  let onSeconds = 0;
+  let observedSeconds = 0;
+  const onDurations = [];
+  const offDurations = [];
+
+  segments.forEach((segment, idx) => {
+    const seconds = (segment.end - segment.start) / 1000;
+    const isComplete = idx > 0 && idx < segments.length - 1;
+    if (isComplete) (segment.on ? onDurations : offDurations).push(seconds);
+
+    observedSeconds += seconds;
+    if (segment.on) onSeconds += seconds;
+
+    // Split the segment at bucket boundaries
+    let cursor = segment.start;
+    while (cursor < segment.end) {
+      const slot = bucketWindow(cursor, grouping, shifts);
+      const sliceEnd = Math.min(segment.end, slot.end);
+      let bucket = buckets.get(slot.key);
+      if (!bucket) {
+        bucket = { key: slot.key, label: slot.label, start: slot.start, onSeconds: 0, observedSeconds: 0, dutyCyclePercent: 0, starts: 0 };
+        buckets.set(slot.key, bucket);
+      }
+      if (cursor === segment.start && segment.on && idx > 0) bucket.starts += 1;
+      bucket.observedSeconds += (sliceEnd - cursor) / 1000;
+      if (segment.on) bucket.onSeconds += (sliceEnd - cursor) / 1000;
+      cursor = sliceEnd;
+    }
+  });
+
+  const bucketList = [...buckets.values()]
+    .map(b => ({ ...b, dutyCyclePercent: b.observedSeconds > 0 ? (b.onSeconds / b.observedSeconds) * 100 : 0 }))
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    starts: segments.filter((s, idx) => s.on && idx > 0).length,
+    onDuration: durationStats(onDurations),
+    offDuration: durationStats(offDurations),
+    dutyCyclePercent: observedSeconds > 0 ? (onSeconds / observedSeconds) * 100 : 0,
+    grouping,
+    buckets: bucketList
+  };
+};
@@ -0,0 +1,9 @@
+// Data quality thresholds (logging gaps use HEALTH_DEFAULTS.gapSeconds, the same gap definition as the health score).
+// The server overrides them from env (DQ_* variables), the mock data source uses the defaults.
+
+export const DATA_QUALITY_DEFAULTS = {
+  lagSeconds: 300, // Rows stored later than this count as late
+  maxCurrentFactor: 3, // Current above limit * factor is implausible
+  runningTimePlaceholder: 99, // Logger filler value
+  maxGaps: 1000
+};
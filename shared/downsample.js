@@ -0,0 +1,48 @@
+// Downsampling rule shared by every backend (the MSSQL backend runs it as SQL) and the mock data source:
+// the time span is cut into `buckets` equal buckets, each keeps its first/last sample, min/max MotorCurrent
+// and max AvgCurrent, and every ON/OFF transition is kept. Nothing is dropped while total <= maxPoints.
+
+// Candidates kept per bucket (first, last, min, max, max average) - sizes the buckets for a point budget
+export const POINTS_PER_BUCKET = 5;
+
+export const downsampleBuckets = (maxPoints) => Math.max(1, Math.floor(maxPoints / POINTS_PER_BUCKET));
+
+const toMs = (timestamp) => Date.parse(`${timestamp.replace(' ', 'T')}Z`);
+
+// MotorLogs row from a storage backend: Timestamp as "yyyy-MM-dd HH:mm:ss.fff"
+const readStorageRow = (row) => ({
+  ms: toMs(row.Timestamp),
+  current: row.MotorCurrent,
+  avgCurrent: row.AvgCurrent,
+  isOn: Boolean(row.IsMotorOn)
+});
+
+// rows: ordered by Timestamp, Id; read(row) -> { ms, current, avgCurrent, isOn } for other row shapes
+export const downsampleLogs = (rows, maxPoints, buckets, read = readStorageRow) => {
+  if (rows.length <= maxPoints) return rows;
+
+  const samples = rows.map(read);
+  const start = samples[0].ms;
+  const spanMs = samples[samples.length - 1].ms - start + 1;
+  const keep = new Set();
+  const picks = new Map(); // bucketId -> { first, last, min, max, avgMax } (row indexes)
+
+  samples.forEach((sample, i) => {
+    const bucketId = Math.floor((sample.ms - start) * buckets / spanMs);
+    const pick = picks.get(bucketId);
+    if (!pick) {
+      picks.set(bucketId, { first: i, last: i, min: i, max: i, avgMax: i });
+    } else {
+      pick.last = i;
+      if (sample.current < samples[pick.min].current) pick.min = i;
+      if (sample.current > samples[pick.max].current) pick.max = i;
+      if (sample.avgCurrent > samples[pick.avgMax].avgCurrent) pick.avgMax = i;
+    }
+    if (i === 0 || sample.isOn !== samples[i - 1].isOn) keep.add(i);
+  });
+
+  for (const pick of picks.values()) {
+    Object.values(pick).forEach(i => keep.add(i));
+  }
+  return rows.filter((_, i) => keep.has(i));
+};
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { downsampleBuckets, downsampleLogs } from './downsample.js';
+
+// Storage rows one second apart: "2026-10-19 08:00:00.000", ...
+const rows = (count, sample = () => ({ MotorCurrent: 5, AvgCurrent: 5, IsMotorOn: 1 })) =>
+  Array.from({ length: count }, (_, i) => ({
+    Id: i + 1,
+    Timestamp: new Date(Date.UTC(2026, 9, 19, 8, 0, i)).toISOString().replace('T', ' ').replace('Z', ''),
+    ...sample(i)
+  }));
+
+test('bucket count never drops below one', () => {
+  assert.equal(downsampleBuckets(0), 1);
+  assert.equal(downsampleBuckets(4), 1);
+  assert.equal(downsampleBuckets(500), 100);
+});
+
+test('empty input and input within the budget come back unchanged', () => {
+  const empty = [];
+  assert.equal(downsampleLogs(empty, 10, downsampleBuckets(10)), empty);
+  const few = rows(10);
+  assert.equal(downsampleLogs(few, 10, downsampleBuckets(10)), few);
+});
+
+test('keeps first/last, extremes and every ON/OFF transition of a bucket', () => {
+  const input = rows(100, (i) => ({
+    MotorCurrent: i === 37 ? 20 : i === 62 ? 0.5 : 5,
+    AvgCurrent: i === 80 ? 9 : 5,
+    IsMotorOn: i >= 50 && i < 55 ? 0 : 1
+  }));
+  const ids = downsampleLogs(input, 10, 1).map(row => row.Id);
+  assert.deepEqual(ids, [1, 38, 51, 56, 63, 81, 100]);
+});
+
+test('a long series stays within the point budget', () => {
+  const input = rows(1000, (i) => ({ MotorCurrent: i % 7, AvgCurrent: i % 5, IsMotorOn: 1 }));
+  const output = downsampleLogs(input, 100, downsampleBuckets(100));
+  assert.ok(output.length <= 100);
+  assert.equal(output[0], input[0]);
+  assert.equal(output[output.length - 1], input[input.length - 1]);
+});
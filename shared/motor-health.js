@@ -0,0 +1,90 @@
+// Motor health score (0-100, higher = healthier) for triaging a line.
+// Penalties: limit breach rate, rising load between the two halves of the window,
+// starts far above the line median and data gaps. Each is capped, the caps sum to 100.
+// Scored by /api/motor-health (server/motor-health.js) and the mock data source.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HEALTH_DEFAULTS = {
+  defaultDays: 7,
+  maxDays: 90,
+  gapSeconds: 300 // Longer pause between samples = data gap
+};
+
+const WEIGHTS = {
+  breaches: 35, // at 10% of samples over the limit
+  trend: 25, // at +10 percentage points of the limit
+  starts: 15, // at 3x the line median starts/day
+  gaps: 25 // at 50% of the window without data
+};
+
+const GRADES = [
+  { grade: 'good', minScore: 85 },
+  { grade: 'watch', minScore: 60 },
+  { grade: 'poor', minScore: -Infinity }
+];
+
+const clamp = (value, max) => Math.min(max, Math.max(0, value));
+const round = (value, digits = 1) => Number(value.toFixed(digits));
+
+const median = (values) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// rows: per-motor aggregates from /api/motor-health; nowMs/days on the naive plant clock.
+// Returns the motors worst first, rank 1 = worst.
+export const scoreMotorHealth = (rows, nowMs, days, config = HEALTH_DEFAULTS) => {
+  const windowMs = days * DAY_MS;
+  const fromMs = nowMs - windowMs;
+  const gapMs = config.gapSeconds * 1000;
+  const startsMedian = median(rows.filter(r => r.samples > 0).map(r => r.cycles / days));
+
+  const scored = rows.map(row => {
+    const samples = row.samples || 0;
+    const breachRate = samples > 0 ? (row.breaches || 0) / samples : 0;
+    const startsPerDay = (row.cycles || 0) / days;
+    const loadTrend = row.earlierLoad != null && row.recentLoad != null ? row.recentLoad - row.earlierLoad : null;
+
+    // Inner gaps come from SQL; the stretches before the first / after the last sample are added here
+    let gapTotalMs = (row.innerGapSeconds || 0) * 1000;
+    if (samples === 0) {
+      gapTotalMs = windowMs;
+    } else {
+      const leading = row.firstTimestamp.getTime() - fromMs;
+      const trailing = nowMs - row.lastTimestamp.getTime();
+      if (leading > gapMs) gapTotalMs += leading;
+      if (trailing > gapMs) gapTotalMs += trailing;
+    }
+    const gapRatio = Math.min(1, gapTotalMs / windowMs);
+
+    const penalties = {
+      breaches: round(clamp(breachRate / 0.1, 1) * WEIGHTS.breaches),
+      trend: round(clamp((loadTrend ?? 0) / 10, 1) * WEIGHTS.trend),
+      starts: round(startsMedian > 0 ? clamp((startsPerDay / startsMedian - 1) / 2, 1) * WEIGHTS.starts : 0),
+      gaps: round(clamp(gapRatio / 0.5, 1) * WEIGHTS.gaps)
+    };
+    const score = round(100 - penalties.breaches - penalties.trend - penalties.starts - penalties.gaps, 0);
+
+    return {
+      motorName: row.motorName,
+      score,
+      grade: GRADES.find(g => score >= g.minScore).grade,
+      samples,
+      breaches: row.breaches || 0,
+      breachRate: round(breachRate * 100, 2),
+      starts: row.cycles || 0,
+      startsPerDay: round(startsPerDay),
+      loadTrend: loadTrend === null ? null : round(loadTrend),
+      gapRatio: round(gapRatio * 100),
+      lastTimestamp: row.lastTimestampText || null,
+      penalties
+    };
+  });
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.motorName.localeCompare(b.motorName))
+    .map((motor, i) => ({ rank: i + 1, ...motor }));
+};
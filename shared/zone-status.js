@@ -0,0 +1,24 @@
+// Zone health thresholds - breaches are counted over the recent window,
+// a motor is stale when it has logged nothing for staleMinutes.
+// The server overrides them from env (ZONE_* variables), the mock data source uses the defaults.
+
+export const ZONE_STATUS_DEFAULTS = {
+  windowMinutes: 60,
+  staleMinutes: 15,
+  warningBreaches: 1,
+  criticalBreaches: 10,
+  criticalStaleRatio: 0.5
+};
+
+// motors: [{ breaches, isStale }]. Worst motor decides: one motor over the critical breach count marks the whole zone
+export const deriveZoneStatus = (motors, config = ZONE_STATUS_DEFAULTS) => {
+  if (motors.length === 0) return 'Healthy';
+
+  const maxBreaches = Math.max(...motors.map(m => m.breaches));
+  const staleCount = motors.filter(m => m.isStale).length;
+
+  if (maxBreaches >= config.criticalBreaches) return 'Critical';
+  if (staleCount / motors.length >= config.criticalStaleRatio) return 'Critical';
+  if (maxBreaches >= config.warningBreaches || staleCount > 0) return 'Warning';
+  return 'Healthy';
+};
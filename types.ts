@@ -31,11 +31,39 @@ export interface MotorLog {
   runningTime: number; // in minutes
 }
 
+export interface MotorSeries {
+  logs: MotorLog[];
+  downsampled: boolean; // Server thinned the series to the requested maxPoints
+}
+
+// One motor across zones/lines (compare mode can mix lines)
+export interface MotorRef {
+  zone: string;
+  line: string;
+  motor: string;
+}
+
+export interface MotorComparisonSeries extends MotorSeries {
+  motor: MotorRef;
+}
+
+// Overlay of production weeks (or days) on a relative "time within week/day" axis
+export type OverlayAlignment = 'week' | 'day';
+
+// One line per motor (compare) or per week/day (period overlay)
+export interface OverlaySeries {
+  key: string;
+  name: string;
+  logs: MotorLog[]; // Relative overlays shift timestampObj onto a common anchor week/day
+}
+
 export interface ZoneData {
   name: string;
   lineCount: number;
   motorCount: number;
   status: 'Healthy' | 'Warning' | 'Critical';
+  breachCount: number; // Limit breaches in the server's status window
+  staleMotorCount: number; // Motors without recent samples
 }
 
 export interface LineData {
@@ -44,15 +72,273 @@ export interface LineData {
   motorCount: number;
 }
 
+export interface TimeRange {
+  start: number; // Naive UTC ms, same scale as MotorLog.timestampObj
+  end: number;
+}
+
+export type AlertSeverity = 'Warning' | 'Critical';
+
+// Inbox filter: active = not resolved by an operator yet
+export type AlertStatusFilter = 'active' | 'resolved' | 'all';
+
+export interface MotorAlert {
+  id: number;
+  ruleId: number;
+  ruleName: string;
+  zone: string;
+  line: string;
+  motorName: string;
+  severity: AlertSeverity;
+  message: string;
+  startedAt: string; // Naive log timestamp, same format as MotorLog.timestamp
+  endedAt: string | null; // When the rule condition cleared; null = still violating
+  peakValue: number | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  commentCount: number;
+}
+
+export interface AlertComment {
+  id: number;
+  alertId: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface AlertCounts {
+  active: number;
+  unacknowledged: number;
+  critical: number;
+}
+
+export type CycleGrouping = 'hour' | 'shift' | 'day';
+
+export interface ShiftDefinition {
+  name: string;
+  start: string; // HH:mm plant time
+  end: string; // HH:mm - earlier than start means the shift crosses midnight
+}
+
+export interface DurationStats {
+  mean: number; // seconds
+  median: number;
+  max: number;
+}
+
+export interface DutyCycleBucket {
+  key: string;
+  label: string;
+  start: number; // Naive UTC ms of the bucket start
+  onSeconds: number;
+  observedSeconds: number; // Covered by samples (bucket edges of the selection are partial)
+  dutyCyclePercent: number;
+  starts: number;
+}
+
+// ON/OFF cycle statistics of one motor - same shape from /api/motor-cycles and the client-side calculation
+export interface CycleStats {
+  starts: number; // OFF -> ON transitions
+  onDuration: DurationStats | null; // Complete ON periods only (both edges observed)
+  offDuration: DurationStats | null;
+  dutyCyclePercent: number; // ON time / observed time
+  grouping: CycleGrouping;
+  buckets: DutyCycleBucket[];
+}
+
 export interface FilterState {
   selectedWeeks: string[];
   selectedDays: number[];
+  selectedShifts: string[]; // Empty = all shifts
 }
 
-export interface AnalyticsSummary {
-  totalRunningTime: number;
-  peakCurrent: number;
-  averageEfficiency: number;
+// One motor's totals within one shift (GET /api/shift-summary)
+export interface ShiftSummaryRow {
+  motorName: string;
+  shift: string | null; // null = outside every configured shift
+  samples: number;
+  runningTime: number; // seconds ON
   cycles: number;
   maxLimitBreaches: number;
+}
+
+export type MotorHealthGrade = 'good' | 'watch' | 'poor';
+
+// One motor's health over the scoring window (GET /api/motor-health), worst first
+export interface MotorHealth {
+  rank: number; // 1 = worst on the line
+  motorName: string;
+  score: number; // 0-100, higher = healthier
+  grade: MotorHealthGrade;
+  samples: number;
+  breaches: number;
+  breachRate: number; // % of samples over the limit
+  starts: number;
+  startsPerDay: number;
+  loadTrend: number | null; // recent minus earlier half, percentage points of the limit
+  gapRatio: number; // % of the window without data
+  lastTimestamp: string | null;
+  penalties: { breaches: number; trend: number; starts: number; gaps: number };
+}
+
+export type MotorAnomalyType = 'spike' | 'plateau' | 'current_while_off' | 'zero_while_on';
+
+// Abnormal MotorCurrent sample or stretch against the motor's rolling baseline (GET /api/motor-anomalies)
+export interface MotorAnomaly {
+  type: MotorAnomalyType;
+  start: string; // Naive plant-local timestamps, like MotorLog.timestamp
+  end: string;
+  peak: number; // A
+  baseline: number | null; // Rolling mean while ON; null for the ON/OFF mismatches
+  samples: number;
+}
+
+export interface MotorAnomalyResult {
+  anomalies: MotorAnomaly[];
+  truncated: boolean; // Event cap reached - narrow the selection
+}
+
+// Data quality counters of one motor (GET /api/data-quality); null = the check's column is missing
+export interface MotorDataQuality {
+  motorName: string;
+  samples: number;
+  gaps: number;
+  gapSeconds: number;
+  longestGapSeconds: number;
+  avgLagSeconds: number | null; // RecordedAt - Timestamp
+  maxLagSeconds: number | null;
+  lateRows: number | null;
+  duplicateTimestamps: number;
+  duplicateBufferIndex: number | null;
+  outOfOrderBufferIndex: number | null;
+  bufferResets: number | null;
+  negativeCurrent: number;
+  missingLimit: number;
+  implausibleCurrent: number;
+  zeroCurrentWhileOn: number;
+  invalidRunningTime: number;
+}
+
+export interface DataQualityReport {
+  checks: { bufferIndex: boolean; recordedAt: boolean }; // Optional logger columns present in MotorLogs
+  thresholds: { gapSeconds: number; lagSeconds: number };
+  motors: MotorDataQuality[];
+}
+
+// Stretch without samples longer than the gap threshold (GET /api/data-gaps)
+export interface DataGap {
+  start: string; // Last sample before the gap
+  end: string; // First sample after it
+  seconds: number;
+  onBefore: boolean; // Motor state at the last sample - the motor may still have been running
+}
+
+// Latest sample of one motor on the plant overview wall (GET /api/overview)
+export interface OverviewMotor {
+  zone: string;
+  line: string;
+  motorName: string;
+  lastTimestamp: string | null; // null = nothing logged in the lookback window
+  ageSeconds: number | null; // Against the plant clock
+  isOn: boolean | null;
+  current: number | null;
+  currentLimit: number | null;
+  isStale: boolean;
+  activeAlerts: number; // Unresolved alerts
+  alertSeverity: AlertSeverity | null; // Worst unresolved severity
+}
+
+export interface PlantOverview {
+  generatedAt: string;
+  staleSeconds: number;
+  alertsAvailable: boolean; // false = alert tables not installed
+  motors: OverviewMotor[];
+}
+
+// Fitted daily running-current trend of one motor (trend engine, GET /api/motor-trend)
+export interface MotorTrend {
+  computedAt: string;
+  fittedDays: number;
+  slopePerDay: number; // A per day
+  currentLevel: number; // Fitted AvgCurrent on the last completed day
+  currentLimit: number | null;
+  r2: number;
+  daysUntilLimit: number | null; // null = not rising
+  isDrifting: boolean;
+}
+
+export interface MotorTrendDay {
+  day: string; // yyyy-MM-dd, plant-local
+  avgCurrent: number | null; // null = no running samples with AvgCurrent that day
+  currentLimit: number | null;
+  runningSamples: number;
+}
+
+export interface MotorTrendResponse {
+  trend: MotorTrend | null; // null until the motor has enough days
+  points: MotorTrendDay[];
+  windowDays: number;
+  horizonDays: number;
+}
+
+// Server settings the client needs (GET /api/config)
+export interface PlantConfig {
+  plantTimezone: string; // IANA name, e.g. Europe/Warsaw
+  liveMaxWindowMinutes: number;
+  storage?: string; // DB_CLIENT of the API (mssql, postgres, sqlite); missing on older servers
+}
+
+export interface AnalyticsSummary {
+  totalRunningTime: number; // in seconds with the motor ON
+  peakCurrent: number;
+  averageEfficiency: number; // Mean current while ON as % of MaxCurrentLimit
+  cycles: number; // OFF -> ON starts
+  maxLimitBreaches: number; // Samples above MaxCurrentLimit
+  avgRunningCurrent: number | null; // Mean current while ON, A
+  ratedCurrent: number | null; // Nameplate current from the motor registry, null = not registered
+  ratedLoadPercent: number | null; // Mean current while ON as % of ratedCurrent
+}
+
+// Nameplate data of one motor (motor registry, keyed by the MotorID the loggers write)
+export interface MotorInfo {
+  motorId: number;
+  ratedCurrent: number | null; // A
+  ratedPowerKw: number | null;
+  motorType: string | null;
+  manufacturer: string | null;
+  location: string | null;
+  installDate: string | null; // yyyy-MM-dd
+  assetTag: string | null;
+  description: string | null;
+  updatedAt: string | null; // Plant-local
+}
+
+export type MotorInfoInput = Omit<MotorInfo, 'motorId' | 'updatedAt'>;
+
+// Registry entry of a motor from the hierarchy (GET /api/motor-registry/lookup)
+export interface MotorInfoLookup {
+  registryAvailable: boolean; // false = registry table not installed
+  motorId: number | null; // From the motor's latest log; null = the logs carry no MotorID
+  info: MotorInfo | null; // null = not registered yet
+}
+
+export type ViewState = 'ZONES' | 'LINES' | 'MOTOR_DETAIL' | 'ALERTS' | 'OVERVIEW';
+
+// Navigation and filter state encoded in the URL (shareable deep links, back/forward)
+export interface UrlState {
+  view: ViewState;
+  zone: string | null;
+  line: string | null;
+  motor: string | null;
+  mode: 'MANUAL' | 'AUTO';
+  liveWindowMinutes: number | null; // AUTO mode window; null = keep the stored setting
+  weeks: string[]; // Empty = not in the URL, keep the default week
+  days: number[];
+  shifts: string[];
+  zoom: TimeRange | null;
+  range: TimeRange | null; // From/to selection instead of weeks/days
+  alertWindow: { start: number; end: number | null } | null; // Opened from an alert
 }
\ No newline at end of file